@@ -1,13 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { redisGeo, getRedisClient, isRedisConnected } from '../lib/redis';
-import { OrderStatus, AgentStatus, EventType, ActorType, PartnerCategory } from '@prisma/client';
+import { OrderStatus, AgentStatus, EventType, ActorType, PartnerCategory, VehicleType, AssignmentStrategy } from '@prisma/client';
 import { eventService } from '../services/event.service';
 import { getUserId } from '../utils/role.util';
 import { delayCheckerService } from '../services/delay-checker.service';
+import { orderStateService } from '../services/order-state.service';
 import { metricsService } from '../services/metrics.service';
 import { logger } from '../lib/logger';
 
+// Numeric pricing profile fields an admin can update
+const PRICING_PROFILE_NUMBER_FIELDS = [
+  'baseFee',
+  'perKmFee',
+  'surgePercent',
+  'maxSurgeMultiplier',
+  'agentSharePct',
+  'freeWaitingMinutes',
+  'waitingFeePerMinute',
+  'nightSurchargePct',
+  'nightStartHour',
+  'nightEndHour',
+] as const;
+
+// Slabs are [{ upTo, fee }] with positive limits and non-negative fees
+const isValidSlabList = (value: unknown): boolean => {
+  return Array.isArray(value) && value.every((slab: any) =>
+    typeof slab?.upTo === 'number' && slab.upTo > 0 &&
+    typeof slab?.fee === 'number' && slab.fee >= 0
+  );
+};
+
 export const adminController = {
   // ==================== METRICS ====================
 
@@ -35,6 +58,16 @@ export const adminController = {
     }
   },
 
+  // GET /api/admin/metrics/surge - Live zone surge and surge applied to today's orders
+  async getSurgeMetrics(req: Request, res: Response, next: NextFunction) {
+    try {
+      const metrics = await metricsService.getSurgeMetrics();
+      res.json(metrics);
+    } catch (error) {
+      next(error);
+    }
+  },
+
   // GET /api/admin/metrics/agents
   async getAgentMetrics(req: Request, res: Response, next: NextFunction) {
     try {
@@ -171,6 +204,14 @@ export const adminController = {
           completedOrders: true,
           acceptanceRate: true,
           createdAt: true,
+          payStructure: {
+            select: {
+              id: true,
+              name: true,
+              payType: true,
+              isActive: true,
+            },
+          },
           user: {
             select: {
               id: true,
@@ -1159,6 +1200,66 @@ export const adminController = {
     }
   },
 
+  // POST /api/admin/orders/:id/assignment-dry-run - Rank agents for an order without offering it
+  async assignmentDryRun(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { strategy, maxRadius } = req.body;
+
+      if (strategy && !Object.values(AssignmentStrategy).includes(strategy)) {
+        return res.status(400).json({ error: `strategy must be one of ${Object.values(AssignmentStrategy).join(', ')}` });
+      }
+
+      if (maxRadius !== undefined && (typeof maxRadius !== 'number' || maxRadius <= 0)) {
+        return res.status(400).json({ error: 'maxRadius must be a positive number of meters' });
+      }
+
+      const { dryRunAssignment } = await import('../services/assignment.service');
+      const result = await dryRunAssignment(id, { strategy, maxRadius });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/orders/:id/offers - Offer history (who was offered, when, and how they answered)
+  async getOrderOffers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const order = await prisma.order.findUnique({
+        where: { id },
+        select: { id: true, status: true, agentId: true },
+      });
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const { offerService } = await import('../services/offer.service');
+      const offers = await offerService.listOrderOffers(id);
+
+      res.json({ order, offers });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/orders/:id/status-history - Status transitions (who moved the order, when and why)
+  async getOrderStatusHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const state = await orderStateService.getState(id, ActorType.ADMIN);
+      const history = await orderStateService.getHistory(id);
+
+      res.json({ orderId: id, ...state, history });
+    } catch (error) {
+      next(error);
+    }
+  },
+
   // POST /api/admin/orders/:id/reassign
   async reassignOrder(req: Request, res: Response, next: NextFunction) {
     try {
@@ -1174,6 +1275,11 @@ export const adminController = {
         return res.status(404).json({ error: 'Order not found' });
       }
 
+      // Reassignment is only legal before pickup (checked before the current agent is released)
+      const targetStatus = agentId ? OrderStatus.ASSIGNED : OrderStatus.SEARCHING_AGENT;
+      const actor = { type: ActorType.ADMIN, id: getUserId(req) };
+      const fromStatus = await orderStateService.assertTransition(id, targetStatus, actor);
+
       // If order has current agent, remove assignment
       if (order.agentId) {
         await prisma.agent.update({
@@ -1205,6 +1311,18 @@ export const adminController = {
               status: 'ON_TRIP',
             },
           });
+
+          await orderStateService.recordTransition(
+            {
+              orderId: id,
+              from: fromStatus,
+              to: targetStatus,
+              actor,
+              reason: 'Reassigned by admin',
+              metadata: { previousAgentId: order.agentId, newAgentId: agentId },
+            },
+            tx
+          );
         });
       } else {
         await prisma.order.update({
@@ -1217,6 +1335,15 @@ export const adminController = {
           select: { id: true, status: true, agentId: true }, // Only select fields we need
         });
 
+        await orderStateService.recordTransition({
+          orderId: id,
+          from: fromStatus,
+          to: targetStatus,
+          actor,
+          reason: 'Unassigned by admin',
+          metadata: { previousAgentId: order.agentId },
+        });
+
         // Trigger assignment engine
         const { assignOrder } = await import('../services/assignment.service');
         assignOrder({
@@ -1265,11 +1392,38 @@ export const adminController = {
     }
   },
 
+  // PUT /api/admin/orders/:id/destination-warehouse
+  async updateDestinationWarehouse(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { destinationWarehouseId } = req.body;
+
+      if (!destinationWarehouseId) {
+        return res.status(400).json({ error: 'destinationWarehouseId is required' });
+      }
+
+      const { logisticsService } = await import('../services/logistics.service');
+      const updatedOrder = await logisticsService.updateDestinationWarehouse(
+        id,
+        destinationWarehouseId,
+        { type: 'ADMIN' }
+      );
+
+      res.json({
+        message: 'Destination warehouse reassigned successfully',
+        order: updatedOrder,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
   // POST /api/admin/orders/:id/cancel
   async cancelOrder(req: Request, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
       const { reason } = req.body;
+      const actor = { type: ActorType.ADMIN, id: getUserId(req) };
 
       const order = await prisma.$transaction(async (tx) => {
         const currentOrder = await tx.order.findUnique({
@@ -1280,6 +1434,8 @@ export const adminController = {
           throw new Error('Order not found');
         }
 
+        const fromStatus = await orderStateService.assertTransition(id, OrderStatus.CANCELLED, actor, tx);
+
         // If order was delivered, reverse wallet credits and revenue
         if (currentOrder.status === 'DELIVERED') {
           try {
@@ -1326,12 +1482,17 @@ export const adminController = {
         const updatedOrder = await tx.order.update({
           where: { id },
           data: {
-            status: 'CANCELLED',
+            ...orderStateService.getStatusData(fromStatus, OrderStatus.CANCELLED),
             cancelledAt: new Date(),
             cancellationReason: reason || 'Cancelled by admin',
           },
         });
 
+        await orderStateService.recordTransition(
+          { orderId: id, from: fromStatus, to: OrderStatus.CANCELLED, actor, reason: reason || 'Cancelled by admin' },
+          tx
+        );
+
         return updatedOrder;
       }, {
         isolationLevel: 'Serializable',
@@ -1350,6 +1511,14 @@ export const adminController = {
         }
       );
 
+      // Skip the order's trip stops (a batched trip moves on without it)
+      try {
+        const { tripService } = await import('../services/trip.service');
+        await tripService.syncOrderStatus(id);
+      } catch (tripError: any) {
+        console.error('[Admin Controller] Error updating trip stops:', tripError?.message);
+      }
+
       res.json({
         message: 'Order cancelled successfully',
         order,
@@ -1432,7 +1601,7 @@ export const adminController = {
   // POST /api/admin/orders/stop-all-timers - Stop delivery timers for all active orders
   async stopAllDeliveryTimers(req: Request, res: Response, next: NextFunction) {
     try {
-      const result = await delayCheckerService.stopAllActiveDeliveryTimers();
+      const result = await delayCheckerService.stopAllActiveDeliveryTimers({ type: ActorType.ADMIN, id: getUserId(req) });
       res.json(result);
     } catch (error) {
       next(error);
@@ -2460,6 +2629,9 @@ export const adminController = {
       let settings = await prisma.systemSettings.findUnique({
         where: { id: 'system' },
       });
+      const { assignmentStrategyService } = await import('../services/assignment-strategy.service');
+      const { codService } = await import('../services/cod.service');
+      const { geofenceService } = await import('../services/geofence.service');
 
       // If settings don't exist, create with defaults
       if (!settings) {
@@ -2503,6 +2675,12 @@ export const adminController = {
           platformFee: settings.platformFee,
           minPayout: settings.minPayout,
         },
+        assignment: {
+          ...(await assignmentStrategyService.getConfig()),
+          available: assignmentStrategyService.listStrategies(),
+        },
+        cod: await codService.getCashLimitConfig(),
+        geofence: await geofenceService.getSettings(),
       });
     } catch (error: any) {
       // If table doesn't exist, return defaults
@@ -2539,8 +2717,14 @@ export const adminController = {
   // PUT /api/admin/settings - Update system settings
   async updateSettings(req: Request, res: Response, next: NextFunction) {
     try {
-      const { system, notifications, delivery, fees } = req.body;
+      const { system, notifications, delivery, fees, assignment, cod, geofence } = req.body;
       const userId = getUserId(req);
+      const { assignmentStrategyService } = await import('../services/assignment-strategy.service');
+      const { codService } = await import('../services/cod.service');
+      const { geofenceService } = await import('../services/geofence.service');
+      const assignmentData = assignmentStrategyService.parseSettingsUpdate(assignment);
+      const codData = codService.parseSettingsUpdate(cod);
+      const geofenceData = geofenceService.parseSettingsUpdate(geofence);
 
       // Update or create system settings
       const updatedSettings = await prisma.systemSettings.upsert({
@@ -2558,6 +2742,9 @@ export const adminController = {
           offerTimeout: delivery?.offerTimeout,
           platformFee: fees?.platformFee,
           minPayout: fees?.minPayout,
+          ...assignmentData,
+          ...codData,
+          ...geofenceData,
           updatedBy: userId || null,
         },
         create: {
@@ -2574,6 +2761,9 @@ export const adminController = {
           offerTimeout: delivery?.offerTimeout ?? 30,
           platformFee: fees?.platformFee ?? 0.1,
           minPayout: fees?.minPayout ?? 10.0,
+          ...assignmentData,
+          ...codData,
+          ...geofenceData,
           updatedBy: userId || null,
         },
       });
@@ -2601,6 +2791,9 @@ export const adminController = {
             platformFee: updatedSettings.platformFee,
             minPayout: updatedSettings.minPayout,
           },
+          assignment: await assignmentStrategyService.getConfig(),
+          cod: await codService.getCashLimitConfig(),
+          geofence: await geofenceService.getSettings(),
         },
       });
     } catch (error: any) {
@@ -2767,6 +2960,9 @@ export const adminController = {
         profiles = await (prisma as any).pricingProfile.findMany({
           orderBy: { category: 'asc' },
           include: {
+            rateCards: {
+              orderBy: { vehicleType: 'asc' },
+            },
             _count: {
               select: { partners: true },
             },
@@ -2789,7 +2985,16 @@ export const adminController = {
           baseFee: profile.baseFee,
           perKmFee: profile.perKmFee,
           surgePercent: profile.surgePercent,
+          maxSurgeMultiplier: profile.maxSurgeMultiplier,
           agentSharePct: profile.agentSharePct,
+          weightSlabs: profile.weightSlabs || [],
+          volumeSlabs: profile.volumeSlabs || [],
+          freeWaitingMinutes: profile.freeWaitingMinutes,
+          waitingFeePerMinute: profile.waitingFeePerMinute,
+          nightSurchargePct: profile.nightSurchargePct,
+          nightStartHour: profile.nightStartHour,
+          nightEndHour: profile.nightEndHour,
+          rateCards: profile.rateCards || [],
           partnerCount: profile._count?.partners || 0,
           createdAt: profile.createdAt,
           updatedAt: profile.updatedAt,
@@ -2799,5 +3004,147 @@ export const adminController = {
       next(error);
     }
   },
-};
 
+  // PUT /api/admin/pricing-profiles/:id - Update rates, surge cap, package slabs, waiting and night charges
+  async updatePricingProfile(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const data: Record<string, any> = {};
+
+      for (const field of PRICING_PROFILE_NUMBER_FIELDS) {
+        const value = req.body[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          return res.status(400).json({ error: `${field} must be a non-negative number` });
+        }
+        data[field] = value;
+      }
+
+      for (const field of ['nightStartHour', 'nightEndHour', 'freeWaitingMinutes'] as const) {
+        if (data[field] !== undefined && !Number.isInteger(data[field])) {
+          return res.status(400).json({ error: `${field} must be an integer` });
+        }
+      }
+
+      for (const field of ['nightStartHour', 'nightEndHour'] as const) {
+        if (data[field] !== undefined && data[field] > 23) {
+          return res.status(400).json({ error: `${field} must be between 0 and 23` });
+        }
+      }
+
+      if (data.agentSharePct !== undefined && data.agentSharePct > 100) {
+        return res.status(400).json({ error: 'agentSharePct must be between 0 and 100' });
+      }
+
+      if (data.maxSurgeMultiplier !== undefined && data.maxSurgeMultiplier < 1) {
+        return res.status(400).json({ error: 'maxSurgeMultiplier must be at least 1' });
+      }
+
+      for (const field of ['weightSlabs', 'volumeSlabs'] as const) {
+        const value = req.body[field];
+        if (value === undefined) continue;
+        if (!isValidSlabList(value)) {
+          return res.status(400).json({ error: `${field} must be an array of { upTo, fee } with upTo > 0 and fee >= 0` });
+        }
+        data[field] = [...value].sort((a: any, b: any) => a.upTo - b.upTo);
+      }
+
+      const existing = await prisma.pricingProfile.findUnique({ where: { id } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Pricing profile not found' });
+      }
+
+      const profile = await prisma.pricingProfile.update({
+        where: { id },
+        data,
+        include: { rateCards: true },
+      });
+
+      res.json({ message: 'Pricing profile updated successfully', profile });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // PUT /api/admin/pricing-profiles/:id/rate-cards/:vehicleType - Create or update a vehicle rate card
+  async upsertRateCard(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id, vehicleType } = req.params;
+      const { baseFee, perKmFee, minFare, waitingFeePerMinute } = req.body;
+
+      if (!Object.values(VehicleType).includes(vehicleType as VehicleType)) {
+        return res.status(400).json({ error: `vehicleType must be one of ${Object.values(VehicleType).join(', ')}` });
+      }
+
+      for (const [field, value, required] of [
+        ['baseFee', baseFee, true],
+        ['perKmFee', perKmFee, true],
+        ['minFare', minFare, false],
+        ['waitingFeePerMinute', waitingFeePerMinute, false],
+      ] as const) {
+        if (value === undefined || value === null) {
+          if (required) {
+            return res.status(400).json({ error: `${field} is required` });
+          }
+          continue;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          return res.status(400).json({ error: `${field} must be a non-negative number` });
+        }
+      }
+
+      const profile = await prisma.pricingProfile.findUnique({ where: { id } });
+      if (!profile) {
+        return res.status(404).json({ error: 'Pricing profile not found' });
+      }
+
+      const rateCardData = {
+        baseFee,
+        perKmFee,
+        minFare: minFare ?? null,
+        waitingFeePerMinute: waitingFeePerMinute ?? null,
+      };
+
+      const rateCard = await prisma.pricingRateCard.upsert({
+        where: {
+          pricingProfileId_vehicleType: {
+            pricingProfileId: id,
+            vehicleType: vehicleType as VehicleType,
+          },
+        },
+        update: rateCardData,
+        create: {
+          pricingProfileId: id,
+          vehicleType: vehicleType as VehicleType,
+          ...rateCardData,
+        },
+      });
+
+      res.json({ message: 'Rate card saved successfully', rateCard });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // DELETE /api/admin/pricing-profiles/:id/rate-cards/:vehicleType - Remove a rate card (vehicle falls back to profile rates)
+  async deleteRateCard(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id, vehicleType } = req.params;
+
+      const result = await prisma.pricingRateCard.deleteMany({
+        where: {
+          pricingProfileId: id,
+          vehicleType: vehicleType as VehicleType,
+        },
+      });
+
+      if (result.count === 0) {
+        return res.status(404).json({ error: 'Rate card not found' });
+      }
+
+      res.json({ success: true, message: 'Rate card deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -2,10 +2,15 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { getAgentId, getUserId, isAdmin } from '../utils/role.util';
 import { redisGeo } from '../lib/redis';
-import { notifyPartner } from '../lib/webhook';
+import { notifyPartner, notifyLogisticsProvider } from '../lib/webhook';
 import { notifyPartnerOrderStatusUpdate, notifyAgentOrderStatusUpdate } from '../lib/websocket';
 import { EventType, ActorType, OrderStatus, PartnerCategory } from '@prisma/client';
 import { eventService } from '../services/event.service';
+import { offerService } from '../services/offer.service';
+import { tripService } from '../services/trip.service';
+import { codService } from '../services/cod.service';
+import { geofenceService } from '../services/geofence.service';
+import { orderStateService } from '../services/order-state.service';
 import { logger } from '../lib/logger';
 import path from 'path';
 import fs from 'fs';
@@ -373,8 +378,18 @@ export const agentController = {
         take: 50, // Limit to 50 orders
       });
 
+      // Leave out COD orders that would take the agent over their cash limit
+      const [cashLimits, codAmounts] = await Promise.all([
+        codService.getCashLimitStatus([agentId]),
+        codService.getOrderCodAmounts(orders.map((order) => order.id)),
+      ]);
+      const offerableOrders = orders.filter((order) => {
+        const codAmount = codAmounts.get(order.id) ?? null;
+        return codAmount === null || !codService.exceedsCashLimit(cashLimits.get(agentId), codAmount);
+      });
+
       // Format orders for response
-      const formattedOrders = orders.map(order => ({
+      const formattedOrders = offerableOrders.map(order => ({
         id: order.id,
         trackingNumber: order.id.substring(0, 8).toUpperCase(),
         status: order.status,
@@ -495,6 +510,7 @@ export const agentController = {
           assignedAt: true,
           createdAt: true,
           updatedAt: true,
+          tripId: true,
         },
       });
 
@@ -511,7 +527,38 @@ export const agentController = {
         return res.status(400).json({ error: 'Order has already been assigned' });
       }
 
+      // Expired or rejected offers cannot be accepted
+      await offerService.assertAcceptable(orderId, agentId);
+
+      // COD orders (a trip's total COD for batched orders) must fit under the agent's cash limit
+      const codAmount = await codService.getOrderCodAmount(orderId);
+      if (codAmount !== null) {
+        const cashLimit = (await codService.getCashLimitStatus([agentId])).get(agentId);
+        if (codService.exceedsCashLimit(cashLimit, codAmount)) {
+          return res.status(400).json({
+            error: 'Your COD cash in hand is at or would go over your limit. Deposit cash to accept COD orders.',
+            codAmount,
+            cashLimit,
+          });
+        }
+      }
+
+      // Batched orders are accepted as a whole trip
+      if (order.tripId) {
+        const trip = await tripService.assignTrip(order.tripId, agentId, { type: ActorType.AGENT, id: getUserId(req) });
+
+        return res.json({
+          id: order.id,
+          status: 'ASSIGNED',
+          tripId: trip.id,
+          orderIds: trip.orders.map((tripOrder) => tripOrder.id),
+          stops: trip.stops,
+          message: 'Trip accepted successfully',
+        });
+      }
+
       // Assign order to agent (using transaction to prevent race conditions)
+      const actor = { type: ActorType.AGENT, id: getUserId(req) };
       const updatedOrder = await prisma.$transaction(async (tx) => {
         // Double-check order is still available
         // Use select to avoid fetching barcode/qrCode if columns don't exist yet
@@ -541,6 +588,8 @@ export const agentController = {
           throw new Error('Order is no longer available');
         }
 
+        const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.ASSIGNED, actor, tx);
+
         // Update order (using select to avoid barcode/qrCode if columns don't exist)
         const order = await tx.order.update({
           where: { id: orderId },
@@ -589,9 +638,17 @@ export const agentController = {
           },
         });
 
+        await orderStateService.recordTransition(
+          { orderId, from: fromStatus, to: OrderStatus.ASSIGNED, actor, reason: 'Accepted by agent' },
+          tx
+        );
+
         return order;
       });
 
+      // Close the offer cascade (updates the agent's acceptance rate)
+      await offerService.markAccepted(orderId, agentId);
+
       // Notify partner via webhook
       await notifyPartner(
         updatedOrder.partnerId,
@@ -631,7 +688,7 @@ export const agentController = {
     }
   },
 
-  // POST /api/agent/orders/:id/reject - Reject an order (optional - for future use)
+  // POST /api/agent/orders/:id/reject - Reject an order offer (the order cascades to the next agents)
   async rejectOrder(req: Request, res: Response, next: NextFunction) {
     try {
       const agentId = getAgentId(req);
@@ -641,6 +698,9 @@ export const agentController = {
 
       const orderId = req.params.id;
       const userId = getUserId(req);
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+
+      const offer = await offerService.reject(orderId, agentId, reason);
 
       // Log order rejection event
       if (orderId) {
@@ -651,13 +711,41 @@ export const agentController = {
           userId ?? undefined,
           {
             agentId,
+            offerId: offer?.id,
+            reason,
           }
         );
       }
 
-      // For now, rejection just means not accepting
-      // In future, we might track rejection reasons
-      res.json({ message: 'Order rejected' });
+      res.json({
+        message: 'Order rejected',
+        offer: offer ? { id: offer.id, status: offer.status } : null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/agent/offers - Open order offers for the agent with their expiry
+  async getOffers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const offers = await offerService.listAgentOffers(agentId);
+
+      res.json({
+        offers: offers.map((offer) => ({
+          id: offer.id,
+          orderId: offer.orderId,
+          expiresAt: offer.expiresAt,
+          secondsLeft: Math.max(0, Math.round((offer.expiresAt.getTime() - Date.now()) / 1000)),
+          distance: offer.distance,
+          order: offer.order,
+        })),
+      });
     } catch (error) {
       next(error);
     }
@@ -1058,7 +1146,7 @@ export const agentController = {
       }
 
       const orderId = req.params.id;
-      const { status, cancellationReason } = req.body;
+      const { status, cancellationReason, codCollected } = req.body;
 
       // Verify agent owns this order
       // Use select to avoid fetching barcode/qrCode if columns don't exist yet
@@ -1075,13 +1163,18 @@ export const agentController = {
           pickedUpAt: true,
           deliveredAt: true,
           payoutAmount: true,
+          paymentType: true,
+          orderAmount: true,
           dropWarehouseId: true,
+          pickupLat: true,
+          pickupLng: true,
           dropLat: true,
           dropLng: true,
           logisticsProviderId: true,
           originWarehouseId: true,
           currentWarehouseId: true,
           transitLegs: true,
+          transitTrackingNumber: true,
         },
       });
 
@@ -1116,6 +1209,26 @@ export const agentController = {
         });
       }
 
+      // Reject illegal status changes before any side effects (warehouse legs land on IN_TRANSIT /
+      // AT_WAREHOUSE below, which are checked again when written)
+      const actor = { type: ActorType.AGENT, id: getUserId(req), agentId };
+      await orderStateService.assertAllowed(orderId, status, actor);
+
+      // PICKED_UP / DELIVERED only near the pickup / drop (unless an admin approved an override);
+      // the write enforces it again and uses the override
+      if ((status === 'PICKED_UP' && !order.pickedUpAt) || (status === 'DELIVERED' && !order.deliveredAt)) {
+        const geofence = await geofenceService.preview(order, agentId, status);
+        if (!geofence.allowed) {
+          return res.status(403).json({
+            error: geofence.message,
+            code: 'GEOFENCE_VIOLATION',
+            geofence: { target: geofence.target, radius: geofence.radius, distance: geofence.distance },
+            // Ask for an exception with POST /api/agent/orders/:id/geofence-overrides
+            canRequestOverride: true,
+          });
+        }
+      }
+
       // Update order status with appropriate timestamps
       const updateData: any = { status };
 
@@ -1226,9 +1339,10 @@ export const agentController = {
           }
 
           // Update order
-          await prisma.order.update({
-            where: { id: orderId },
+          await orderStateService.transition(orderId, OrderStatus.AT_WAREHOUSE, actor, {
             data: updateData,
+            reason: 'Delivered to warehouse',
+            metadata: { warehouseId: warehouse.id },
           });
 
           // Update agent stats (order is completed for this agent)
@@ -1304,6 +1418,21 @@ export const agentController = {
                 status: updatedOrder.status,
               }
             );
+
+            // Leg 2 handoff - let the logistics provider know the order is at its warehouse
+            if (order.logisticsProviderId) {
+              await notifyLogisticsProvider(
+                order.logisticsProviderId,
+                order.dropWarehouseId === order.originWarehouseId ? 'ORDER_AT_ORIGIN_WAREHOUSE' : 'ORDER_AT_WAREHOUSE',
+                updatedOrder.id,
+                updatedOrder.status,
+                {
+                  partnerId: updatedOrder.partnerId,
+                  transitTrackingNumber: order.transitTrackingNumber,
+                  warehouse: { id: warehouse.id, name: warehouse.name },
+                }
+              );
+            }
           }
 
           return res.json({
@@ -1320,6 +1449,9 @@ export const agentController = {
             updateData.actualDuration = duration;
           }
           
+          // COD: cash collected from the customer (defaults to the order amount)
+          const codAmount = codService.resolveCollectionAmount(order, codCollected);
+
           // Wrap order delivery and wallet operations in a single transaction
           // This ensures atomicity and prevents double crediting
           const { walletService } = await import('../services/wallet.service');
@@ -1349,9 +1481,9 @@ export const agentController = {
             }
 
             // Update order status first so revenue calculation works
-            await tx.order.update({
-              where: { id: orderId },
+            await orderStateService.transition(orderId, OrderStatus.DELIVERED, actor, {
               data: updateData,
+              client: tx,
             });
 
             // Calculate revenue for this order (70/30 split)
@@ -1402,6 +1534,11 @@ export const agentController = {
               }
             }
 
+            // Record COD cash in the agent's ledger (once per order)
+            if (codAmount !== null) {
+              await codService.recordCollection(orderId, agentId, codAmount, tx);
+            }
+
             // Update agent stats
             await tx.agent.update({
               where: { id: agentId },
@@ -1447,6 +1584,30 @@ export const agentController = {
             // Don't fail the order update if wallet deduction fails, but log it
           }
 
+          // Update incentive campaign progress (credits count-target rewards) - outside transaction
+          try {
+            const { incentiveService } = await import('../services/incentive.service');
+            await incentiveService.recordDelivery(agentId);
+          } catch (incentiveError: any) {
+            console.error('[Agent Controller] Error updating incentive progress:', incentiveError?.message);
+          }
+
+          // COD: prompt a deposit once the agent's cash in hand reaches their limit
+          if (codAmount !== null) {
+            try {
+              await codService.promptDepositIfOverLimit(agentId);
+            } catch (codError: any) {
+              console.error('[Agent Controller] Error checking COD cash limit:', codError?.message);
+            }
+          }
+
+          // Batched trip: complete the drop stop and move the agent to the next stop
+          try {
+            await tripService.syncOrderStatus(orderId);
+          } catch (tripError: any) {
+            console.error('[Agent Controller] Error updating trip stops:', tripError?.message);
+          }
+
           if (updatedOrder) {
             // Notify partner via WebSocket for real-time updates
             await notifyPartnerOrderStatusUpdate(
@@ -1540,32 +1701,55 @@ export const agentController = {
       }
 
       // Update order (using select to avoid barcode/qrCode if columns don't exist)
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: updateData,
-        select: {
-          id: true,
-          status: true,
-          agentId: true,
-          partnerId: true,
-          pickupLat: true,
-          pickupLng: true,
-          dropLat: true,
-          dropLng: true,
-          payoutAmount: true,
-          priority: true,
-          estimatedDuration: true,
-          actualDuration: true,
-          pickedUpAt: true,
-          deliveredAt: true,
-          cancelledAt: true,
-          cancellationReason: true,
-          assignedAt: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+      const updatedOrder = await prisma.$transaction(async (tx) => {
+        const fromStatus = await orderStateService.assertTransition(orderId, updateData.status, actor, tx);
+        const changedOrder = await tx.order.update({
+          where: { id: orderId },
+          data: { ...updateData, ...orderStateService.getStatusData(fromStatus, updateData.status) },
+          select: {
+            id: true,
+            status: true,
+            agentId: true,
+            partnerId: true,
+            pickupLat: true,
+            pickupLng: true,
+            dropLat: true,
+            dropLng: true,
+            payoutAmount: true,
+            priority: true,
+            estimatedDuration: true,
+            actualDuration: true,
+            pickedUpAt: true,
+            deliveredAt: true,
+            cancelledAt: true,
+            cancellationReason: true,
+            assignedAt: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        });
+
+        await orderStateService.recordTransition(
+          {
+            orderId,
+            from: fromStatus,
+            to: changedOrder.status,
+            actor,
+            reason: status === 'CANCELLED' ? cancellationReason : undefined,
+          },
+          tx
+        );
+
+        return changedOrder;
       });
 
+      // Batched trip: follow the order status on its stops
+      try {
+        await tripService.syncOrderStatus(orderId);
+      } catch (tripError: any) {
+        console.error('[Agent Controller] Error updating trip stops:', tripError?.message);
+      }
+
       // Check for delay after status update (if order was picked up, is out for delivery, or in transit)
       // Note: IN_TRANSIT orders (warehouse-to-warehouse) may not have pickedUpAt set, so we check the status
       if ((status === 'PICKED_UP' || status === 'OUT_FOR_DELIVERY' || status === 'IN_TRANSIT') && updatedOrder.pickedUpAt) {
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../lib/prisma';
+import { getPartnerId } from '../utils/role.util';
+import { apiKeyService, API_KEY_SCOPES } from '../services/api-key.service';
+import { rateLimitService, getRateLimitForCategory, RATE_LIMIT_WINDOW_SECONDS } from '../services/rate-limit.service';
+
+export const apiKeyController = {
+  // GET /api/partner/api-keys - List API keys (never includes the full key)
+  async getKeys(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const keys = await apiKeyService.listKeys(partnerId);
+
+      res.json({ keys, availableScopes: API_KEY_SCOPES });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/partner/api-keys - Create a named, scoped API key
+  async createKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const key = await apiKeyService.createKey(partnerId, req.body);
+
+      res.status(201).json({
+        ...key,
+        message: 'API key created. Store it securely - it will not be shown again.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/partner/api-keys/:id/rotate - Replace a key; the old one keeps working for a grace period
+  async rotateKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const key = await apiKeyService.rotateKey(partnerId, req.params.id, req.body?.gracePeriodHours);
+
+      res.json({
+        ...key,
+        message: 'API key rotated. The previous key stops working at previousKeyExpiresAt.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/api-keys/usage?days=7 - Daily partner API usage and the rate limit in effect
+  async getUsage(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const partner = await prisma.partner.findUnique({
+        where: { id: partnerId },
+        select: { category: true },
+      });
+
+      if (!partner) {
+        return res.status(404).json({ error: 'Partner not found' });
+      }
+
+      const days = parseInt(req.query.days as string) || 7;
+      const daily = await rateLimitService.getDailyUsage(partnerId, days);
+
+      res.json({
+        rateLimit: {
+          category: partner.category,
+          limit: getRateLimitForCategory(partner.category),
+          windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+          scope: 'per API key and route',
+        },
+        today: daily[0],
+        daily,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // DELETE /api/partner/api-keys/:id - Revoke a key immediately
+  async revokeKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const key = await apiKeyService.revokeKey(partnerId, req.params.id);
+
+      res.json({ success: true, key, message: 'API key revoked successfully' });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { getPartnerId } from '../utils/role.util';
+import { getPagination } from '../utils/pagination.util';
 import { billingService } from '../services/billing.service';
 import { partnerBillingService } from '../services/partner-billing.service';
 import { partnerWalletService } from '../services/partner-wallet.service';
@@ -53,37 +54,43 @@ export const billingController = {
         return res.status(404).json({ error: 'Partner profile not found' });
       }
 
-      const { status, limit = 50, offset = 0 } = req.query;
+      const { status } = req.query;
+      const { limit, offset } = getPagination(req.query);
 
       const where: any = { partnerId };
       if (status) {
         where.status = status;
       }
 
-      const invoices = await prisma.partnerInvoice.findMany({
-        where,
-        include: {
-          items: {
-            include: {
-              order: {
-                select: {
-                  id: true,
-                  deliveredAt: true,
+      const [invoices, total] = await Promise.all([
+        prisma.partnerInvoice.findMany({
+          where,
+          include: {
+            items: {
+              include: {
+                order: {
+                  select: {
+                    id: true,
+                    deliveredAt: true,
+                  },
                 },
               },
             },
           },
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        take: parseInt(limit as string),
-        skip: parseInt(offset as string),
-      });
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.partnerInvoice.count({ where }),
+      ]);
 
       res.json({
         invoices,
-        total: invoices.length,
+        total,
+        limit,
+        offset,
       });
     } catch (error) {
       next(error);
@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import { CodLedgerEntryType } from '@prisma/client';
+import { codService } from '../services/cod.service';
+import { getAgentId, getPartnerId, getUserId } from '../utils/role.util';
+import { getPagination } from '../utils/pagination.util';
+
+/**
+ * Parse optional from/to query dates (null when one is invalid)
+ */
+const parseDateRange = (query: Request['query']): { from?: Date; to?: Date } | null => {
+  const from = query.from ? new Date(query.from as string) : undefined;
+  const to = query.to ? new Date(query.to as string) : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return null;
+  }
+  return { from, to };
+};
+
+export const codController = {
+  // GET /api/admin/cod/agents - Agents holding COD cash, largest balance first
+  async getCashInHand(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agents = await codService.listCashInHand();
+      const totalCashInHand = Math.round(agents.reduce((sum, agent) => sum + agent.codCashInHand, 0) * 100) / 100;
+
+      res.json({ agents, totalCashInHand });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/cod/over-limit - Agents at or over their COD cash limit, largest excess first
+  async getOverLimit(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agents = await codService.listOverLimit();
+      const totalExcess = Math.round(agents.reduce((sum, agent) => sum + agent.excess, 0) * 100) / 100;
+
+      res.json({ agents, totalExcess });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // PUT /api/admin/cod/agents/:id/limit - Set (or clear with null) the agent's own COD cash limit
+  async setAgentLimit(req: Request, res: Response, next: NextFunction) {
+    try {
+      const limit = await codService.setAgentCashLimit(req.params.id, req.body.limit);
+
+      res.json({ message: 'COD cash limit updated successfully', limit });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/cod/ledger?agentId=&type=&from=&to= - COD ledger entries
+  async getLedger(req: Request, res: Response, next: NextFunction) {
+    try {
+      const type = req.query.type as CodLedgerEntryType | undefined;
+      if (type && !Object.values(CodLedgerEntryType).includes(type)) {
+        return res.status(400).json({ error: `type must be one of ${Object.values(CodLedgerEntryType).join(', ')}` });
+      }
+
+      const range = parseDateRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: 'from and to must be valid dates' });
+      }
+
+      const { limit, offset } = getPagination(req.query);
+      const result = await codService.listLedger({
+        agentId: req.query.agentId as string | undefined,
+        type,
+        ...range,
+        limit,
+        offset,
+      });
+
+      res.json({ ...result, limit, offset });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/cod/agents/:id - Agent cash in hand, totals and recent ledger
+  async getAgentCod(req: Request, res: Response, next: NextFunction) {
+    try {
+      const summary = await codService.getAgentSummary(req.params.id);
+      const { entries } = await codService.listLedger({ agentId: req.params.id, limit: 20 });
+
+      res.json({ summary, entries });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/cod/agents/:id/deposits - Record cash handed over by the agent
+  async recordDeposit(req: Request, res: Response, next: NextFunction) {
+    try {
+      const entry = await codService.recordDeposit(req.params.id, req.body, getUserId(req));
+
+      res.status(201).json({ message: 'COD deposit recorded successfully', entry });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/cod/agents/:id/adjustments - Correct the agent's cash in hand
+  async recordAdjustment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const entry = await codService.recordAdjustment(req.params.id, req.body, getUserId(req));
+
+      res.status(201).json({ message: 'COD adjustment recorded successfully', entry });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/agent/cod - The agent's cash in hand and recent COD ledger
+  async getMyCod(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const summary = await codService.getAgentSummary(agentId);
+      const { entries } = await codService.listLedger({ agentId, limit: 20 });
+
+      res.json({ summary, entries });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/cod/summary?from=&to= - COD collected for the partner and how much is still to be remitted
+  async getPartnerSummary(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const range = parseDateRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: 'from and to must be valid dates' });
+      }
+
+      const summary = await codService.getPartnerSummary(partnerId, range.from, range.to);
+
+      res.json(summary);
+    } catch (error) {
+      next(error);
+    }
+  },
+};
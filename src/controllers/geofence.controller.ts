@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { GeofenceOverrideStatus } from '@prisma/client';
+import { geofenceService } from '../services/geofence.service';
+import { getAgentId, getUserId } from '../utils/role.util';
+import { getPagination } from '../utils/pagination.util';
+
+export const geofenceController = {
+  // POST /api/agent/orders/:id/geofence-overrides - Ask an admin to allow a status change outside the geofence
+  async requestOverride(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const override = await geofenceService.requestOverride(req.params.id, agentId, req.body, getUserId(req));
+
+      res.status(201).json({ message: 'Geofence override requested', override });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/geofence-overrides?status=&orderId= - Geofence override requests, newest first
+  async getOverrides(req: Request, res: Response, next: NextFunction) {
+    try {
+      const status = req.query.status as GeofenceOverrideStatus | undefined;
+      if (status && !Object.values(GeofenceOverrideStatus).includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${Object.values(GeofenceOverrideStatus).join(', ')}` });
+      }
+
+      const { limit, offset } = getPagination(req.query);
+      const result = await geofenceService.listOverrides({
+        status,
+        orderId: req.query.orderId as string | undefined,
+        limit,
+        offset,
+      });
+
+      res.json({ ...result, limit, offset });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/geofence-overrides/:id/approve - Approve a pending override
+  async approveOverride(req: Request, res: Response, next: NextFunction) {
+    try {
+      const override = await geofenceService.reviewOverride(req.params.id, 'APPROVED', req.body.notes, getUserId(req));
+
+      res.json({ message: 'Geofence override approved', override });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/geofence-overrides/:id/reject - Reject a pending override
+  async rejectOverride(req: Request, res: Response, next: NextFunction) {
+    try {
+      const override = await geofenceService.reviewOverride(req.params.id, 'REJECTED', req.body.notes, getUserId(req));
+
+      res.json({ message: 'Geofence override rejected', override });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/orders/:id/geofence-overrides - Grant the assigned agent an override directly
+  async grantOverride(req: Request, res: Response, next: NextFunction) {
+    try {
+      const override = await geofenceService.grantOverride(req.params.id, req.body, getUserId(req));
+
+      res.status(201).json({ message: 'Geofence override granted', override });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { getAgentId } from '../utils/role.util';
+import { incentiveService } from '../services/incentive.service';
+
+export const incentiveController = {
+  // GET /api/admin/incentives?status=active|upcoming|ended - List incentive campaigns
+  async getCampaigns(req: Request, res: Response, next: NextFunction) {
+    try {
+      const status = req.query.status as 'active' | 'upcoming' | 'ended' | undefined;
+      if (status && !['active', 'upcoming', 'ended'].includes(status)) {
+        return res.status(400).json({ error: 'status must be one of active, upcoming, ended' });
+      }
+
+      const campaigns = await incentiveService.listCampaigns(status);
+
+      res.json({ campaigns });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/incentives - Create an incentive campaign
+  async createCampaign(req: Request, res: Response, next: NextFunction) {
+    try {
+      const campaign = await incentiveService.createCampaign(req.body);
+
+      res.status(201).json({ message: 'Incentive campaign created successfully', campaign });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // PUT /api/admin/incentives/:id - Update an incentive campaign
+  async updateCampaign(req: Request, res: Response, next: NextFunction) {
+    try {
+      const campaign = await incentiveService.updateCampaign(req.params.id, req.body);
+
+      res.json({ message: 'Incentive campaign updated successfully', campaign });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/incentives/:id/progress - Agent progress and rewards for a campaign
+  async getCampaignProgress(req: Request, res: Response, next: NextFunction) {
+    try {
+      const progress = await incentiveService.getCampaignProgress(req.params.id);
+
+      res.json(progress);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/agent/incentives - Active campaigns for the agent with progress
+  async getMyCampaigns(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const campaigns = await incentiveService.getAgentCampaigns(agentId);
+
+      res.json({ campaigns });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
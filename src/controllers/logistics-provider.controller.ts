@@ -3,14 +3,21 @@ import { prisma } from '../lib/prisma';
 import { getLogisticsProviderId, getUserId } from '../utils/role.util';
 import { warehouseService } from '../services/warehouse.service';
 import { logisticsService } from '../services/logistics.service';
-import { OrderStatus } from '@prisma/client';
+import { routeService } from '../services/route.service';
+import { orderStateService } from '../services/order-state.service';
+import { ActorType, OrderStatus } from '@prisma/client';
+import { AppError } from '../utils/errors.util';
+import { getPagination } from '../utils/pagination.util';
+import { webhookService, WebhookDeliveryStatus } from '../services/webhook.service';
+import { LOGISTICS_PROVIDER_WEBHOOK_EVENTS } from '../lib/webhook';
 import {
   getPossibleLogisticsProviderIds,
   getLogisticsProviderWarehouses,
   buildLogisticsProviderOrderWhere,
-  verifyWarehouseOwnership,
 } from '../utils/logistics-provider.util';
 
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED'];
+
 export const logisticsProviderController = {
   // GET /api/logistics-provider/profile
   async getProfile(req: Request, res: Response, next: NextFunction) {
@@ -55,6 +62,7 @@ export const logisticsProviderController = {
         businessName: logisticsProvider.businessName,
         apiKey: logisticsProvider.apiKey,
         webhookUrl: logisticsProvider.webhookUrl,
+        webhookSecret: logisticsProvider.webhookSecret,
         isActive: logisticsProvider.isActive,
         address: logisticsProvider.address,
         city: logisticsProvider.city,
@@ -70,6 +78,120 @@ export const logisticsProviderController = {
     }
   },
 
+  // PUT /api/logistics-provider/webhook - Set the URL that receives Leg 2 handoff events
+  async updateWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const logisticsProviderId = getLogisticsProviderId(req);
+      if (!logisticsProviderId) {
+        return res.status(404).json({ error: 'Logistics provider profile not found' });
+      }
+
+      const { webhookUrl } = req.body;
+
+      const logisticsProvider = await prisma.logisticsProvider.update({
+        where: { id: logisticsProviderId },
+        data: { webhookUrl },
+      });
+
+      // Make sure a signing secret exists once a webhook is configured
+      const webhookSecret = logisticsProvider.webhookUrl
+        ? await webhookService.getOrCreateProviderSecret(logisticsProviderId)
+        : logisticsProvider.webhookSecret;
+
+      res.json({
+        id: logisticsProvider.id,
+        webhookUrl: logisticsProvider.webhookUrl,
+        webhookSecret,
+        events: LOGISTICS_PROVIDER_WEBHOOK_EVENTS,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/logistics-provider/webhook/secret/rotate - Rotate the webhook signing secret
+  async rotateWebhookSecret(req: Request, res: Response, next: NextFunction) {
+    try {
+      const logisticsProviderId = getLogisticsProviderId(req);
+      if (!logisticsProviderId) {
+        return res.status(404).json({ error: 'Logistics provider profile not found' });
+      }
+
+      const webhookSecret = await webhookService.rotateProviderSecret(logisticsProviderId);
+
+      res.json({
+        webhookSecret,
+        message: 'Webhook secret rotated successfully. Please update your signature verification with the new secret.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/logistics-provider/webhook/deliveries - List webhook deliveries
+  async getWebhookDeliveries(req: Request, res: Response, next: NextFunction) {
+    try {
+      const logisticsProviderId = getLogisticsProviderId(req);
+      if (!logisticsProviderId) {
+        return res.status(404).json({ error: 'Logistics provider profile not found' });
+      }
+
+      const { status, event, orderId } = req.query;
+      const { limit, offset } = getPagination(req.query);
+
+      if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        return res.status(400).json({ error: `status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` });
+      }
+
+      const result = await webhookService.listDeliveries({ logisticsProviderId }, {
+        status: status as WebhookDeliveryStatus | undefined,
+        event: event as string | undefined,
+        orderId: orderId as string | undefined,
+        limit,
+        offset,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/logistics-provider/webhook/deliveries/:id - Inspect a delivery (payload and last response)
+  async getWebhookDelivery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const logisticsProviderId = getLogisticsProviderId(req);
+      if (!logisticsProviderId) {
+        return res.status(404).json({ error: 'Logistics provider profile not found' });
+      }
+
+      const delivery = await webhookService.getDelivery({ logisticsProviderId }, req.params.id);
+
+      res.json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/logistics-provider/webhook/deliveries/:id/redeliver - Manually redeliver a webhook
+  async redeliverWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const logisticsProviderId = getLogisticsProviderId(req);
+      if (!logisticsProviderId) {
+        return res.status(404).json({ error: 'Logistics provider profile not found' });
+      }
+
+      const delivery = await webhookService.redeliver({ logisticsProviderId }, req.params.id);
+
+      res.json({
+        success: delivery.status === 'SUCCEEDED',
+        delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
   // GET /api/logistics-provider/dashboard
   async getDashboard(req: Request, res: Response, next: NextFunction) {
     try {
@@ -515,8 +637,10 @@ export const logisticsProviderController = {
       const newStatus = (order.status === 'SEARCHING_AGENT' || 
                         order.status === 'READY_FOR_PICKUP' || 
                         order.status === 'AT_WAREHOUSE')
-        ? 'ASSIGNED' 
+        ? OrderStatus.ASSIGNED
         : order.status;
+      const actor = { type: ActorType.LOGISTICS_PROVIDER, id: getUserId(req) };
+      const fromStatus = await orderStateService.assertTransition(orderId, newStatus, actor);
       
       await prisma.order.update({
         where: { id: orderId },
@@ -526,6 +650,15 @@ export const logisticsProviderController = {
         },
       });
 
+      await orderStateService.recordTransition({
+        orderId,
+        from: fromStatus,
+        to: newStatus,
+        actor,
+        reason: 'Assigned to logistics agent',
+        metadata: { logisticsAgentId },
+      });
+
       // Update agent's current order count
       await prisma.logisticsAgent.update({
         where: { id: logisticsAgentId },
@@ -728,6 +861,33 @@ export const logisticsProviderController = {
     }
   },
 
+  // GET /api/logistics-provider/agents/:id/route - Optimized stop order with ETAs for the agent's active orders
+  async getAgentRoute(req: Request, res: Response, next: NextFunction) {
+    try {
+      const logisticsProviderId = getLogisticsProviderId(req);
+      if (!logisticsProviderId) {
+        return res.status(404).json({ error: 'Logistics provider profile not found' });
+      }
+
+      // Optional current position (?lat=&lng=); defaults to the agent's service area center
+      let start: { latitude: number; longitude: number } | undefined;
+      if (req.query.lat !== undefined || req.query.lng !== undefined) {
+        const latitude = parseFloat(req.query.lat as string);
+        const longitude = parseFloat(req.query.lng as string);
+        if (isNaN(latitude) || isNaN(longitude)) {
+          throw new AppError('lat and lng must both be valid numbers', 400);
+        }
+        start = { latitude, longitude };
+      }
+
+      const result = await routeService.getLogisticsAgentRoute(logisticsProviderId, req.params.id, start);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
   // DELETE /api/logistics-provider/agents/:id
   async deleteAgent(req: Request, res: Response, next: NextFunction) {
     try {
@@ -917,12 +1077,12 @@ export const logisticsProviderController = {
       );
 
       // Mark order as ready for pickup
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: OrderStatus.READY_FOR_PICKUP,
-        },
-      });
+      await orderStateService.transition(
+        orderId,
+        OrderStatus.READY_FOR_PICKUP,
+        { type: ActorType.LOGISTICS_PROVIDER, id: getUserId(req) },
+        { reason: 'Scanned at destination warehouse', metadata: { warehouseId } }
+      );
 
       res.json({
         message: 'Order scanned at destination warehouse and marked as ready for pickup',
@@ -1292,122 +1452,26 @@ export const logisticsProviderController = {
         return res.status(404).json({ error: 'Logistics provider profile not found' });
       }
 
-      const orderId = req.params.id;
       const { destinationWarehouseId } = req.body;
 
       if (!destinationWarehouseId) {
         return res.status(400).json({ error: 'destinationWarehouseId is required' });
       }
 
-      // Verify order belongs to this logistics provider
-      const where = await buildLogisticsProviderOrderWhere(logisticsProviderId, {
-        id: orderId,
-      });
-
-      const order = await prisma.order.findFirst({
-        where,
-        select: {
-          id: true,
-          originWarehouseId: true,
-          dropWarehouseId: true,
-          transitLegs: true,
-        },
-      });
-
-      if (!order) {
-        return res.status(404).json({ error: 'Order not found or does not belong to this logistics provider' });
-      }
-
-      // Validate that destination warehouse is different from origin
-      if (order.originWarehouseId === destinationWarehouseId) {
-        return res.status(400).json({ error: 'Destination warehouse must be different from origin warehouse' });
-      }
-
-      // Verify destination warehouse belongs to this logistics provider
-      const warehouseOwned = await verifyWarehouseOwnership(destinationWarehouseId, logisticsProviderId);
-      if (!warehouseOwned) {
-        return res.status(404).json({ error: 'Destination warehouse not found or does not belong to this logistics provider' });
-      }
-
-      const destinationWarehouse = await prisma.warehouse.findUnique({
-        where: { id: destinationWarehouseId },
-        select: {
-          id: true,
-          name: true,
-          address: true,
-          latitude: true,
-          longitude: true,
-        },
-      });
-
-      if (!destinationWarehouse) {
-        return res.status(404).json({ error: 'Destination warehouse not found' });
-      }
-
-      // Get origin warehouse name for transit legs
-      const originWarehouse = order.originWarehouseId ? await prisma.warehouse.findUnique({
-        where: { id: order.originWarehouseId },
-        select: { name: true },
-      }) : null;
-
-      // Update transit legs - update Leg 2 with new destination warehouse
-      const existingLegs: any[] = Array.isArray(order.transitLegs) ? (order.transitLegs as any) : [];
-      const updatedLegs = [...existingLegs];
-      
-      // Find and update Leg 2
-      let leg2 = updatedLegs.find((leg: any) => leg.leg === 2);
-      if (leg2) {
-        leg2.destinationWarehouseId = destinationWarehouseId;
-        leg2.destinationWarehouseName = destinationWarehouse.name;
-        leg2.to = destinationWarehouse.name;
-        leg2.updatedAt = new Date().toISOString();
-        const leg2Index = updatedLegs.findIndex((leg: any) => leg.leg === 2);
-        if (leg2Index >= 0) {
-          updatedLegs[leg2Index] = leg2;
-        }
-      } else {
-        // Create Leg 2 if it doesn't exist
-        updatedLegs.push({
-          leg: 2,
-          from: originWarehouse?.name || 'ORIGIN_WAREHOUSE',
-          to: destinationWarehouse.name,
-          status: 'PENDING',
-          updatedAt: new Date().toISOString(),
-          createdAt: new Date().toISOString(),
-          originWarehouseId: order.originWarehouseId,
-          destinationWarehouseId: destinationWarehouseId,
-          originWarehouseName: originWarehouse?.name,
-          destinationWarehouseName: destinationWarehouse.name,
-        });
-      }
-
-      // Update the order's dropWarehouseId and related fields
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          dropWarehouseId: destinationWarehouseId,
-          dropLat: destinationWarehouse.latitude,
-          dropLng: destinationWarehouse.longitude,
-          dropAddressText: `${destinationWarehouse.name}, ${destinationWarehouse.address}`,
-          transitLegs: updatedLegs as any,
-          updatedAt: new Date(),
-        },
-        include: {
-          dropWarehouse: {
-            select: {
-              id: true,
-              name: true,
-              address: true,
-            },
-          },
-        },
-      });
+      const updatedOrder = await logisticsService.updateDestinationWarehouse(
+        req.params.id,
+        destinationWarehouseId,
+        { type: 'LOGISTICS_PROVIDER', logisticsProviderId }
+      );
 
       res.json({
         message: 'Destination warehouse updated successfully',
         order: updatedOrder,
       });
     } catch (error: any) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       if (error.message) {
         return res.status(400).json({ error: error.message });
       }
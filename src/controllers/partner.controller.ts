@@ -3,13 +3,127 @@ import { prisma } from '../lib/prisma';
 import { getPartnerId, getUserId } from '../utils/role.util';
 import { notifyPartner } from '../lib/webhook';
 import { notifyPartnerOrderStatusUpdate, notifyAgentOrderStatusUpdate } from '../lib/websocket';
-import { OrderStatus, EventType, ActorType, PartnerCategory, SLAPriority } from '@prisma/client';
+import { OrderStatus, EventType, ActorType, PartnerCategory, SLAPriority, Prisma } from '@prisma/client';
 import { eventService } from '../services/event.service';
 import { cacheService, cacheKeys } from '../services/cache.service';
 import { pricingService } from '../services/pricing.service';
 import { getRedisClient, isRedisConnected } from '../lib/redis';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors.util';
+import { getPagination } from '../utils/pagination.util';
+import { apiKeyService } from '../services/api-key.service';
+import { rateLimitService } from '../services/rate-limit.service';
+import { quoteService, toPricingCalculation } from '../services/quote.service';
+import { deliveryVerificationService } from '../services/delivery-verification.service';
+import { orderStateService } from '../services/order-state.service';
 import path from 'path';
 
+/**
+ * Map a unique-constraint race on externalRef / quoteId (two concurrent creates passing the checks)
+ * to the ConflictError the checks would have thrown
+ */
+const toOrderConflict = (error: any) => {
+  if (error?.code !== 'P2002') {
+    return error;
+  }
+
+  const target = ([] as string[]).concat(error.meta?.target || []).join(',');
+  if (target.includes('externalRef')) {
+    return new ConflictError('An order already exists for this externalRef');
+  }
+  if (target.includes('quoteId')) {
+    return new ConflictError('Quote has already been used for another order');
+  }
+  return error;
+};
+
+/**
+ * Ensure external references aren't already used by another of the partner's orders
+ */
+const assertExternalRefsAvailable = async (partnerId: string, externalRefs: (string | undefined)[]) => {
+  const refs = externalRefs.filter((ref): ref is string => !!ref);
+  if (refs.length === 0) return;
+
+  const existing = await prisma.order.findMany({
+    where: { partnerId, externalRef: { in: refs } },
+    select: { externalRef: true },
+  });
+
+  if (existing.length > 0) {
+    throw new ConflictError(`Orders already exist for externalRef: ${existing.map((order) => order.externalRef).join(', ')}`);
+  }
+};
+
+/**
+ * Order fields returned by the external partner API
+ */
+const EXTERNAL_ORDER_SELECT = {
+  id: true,
+  externalRef: true,
+  status: true,
+  pickupLat: true,
+  pickupLng: true,
+  dropLat: true,
+  dropLng: true,
+  payoutAmount: true,
+  surgeMultiplier: true,
+  priority: true,
+  estimatedDuration: true,
+  actualDuration: true,
+  assignedAt: true,
+  pickedUpAt: true,
+  deliveredAt: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  createdAt: true,
+  updatedAt: true,
+  agent: {
+    select: {
+      id: true,
+      vehicleType: true,
+      rating: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+          phone: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.OrderSelect;
+
+const formatExternalOrder = (order: Prisma.OrderGetPayload<{ select: typeof EXTERNAL_ORDER_SELECT }>) => ({
+  id: order.id,
+  externalRef: order.externalRef,
+  trackingNumber: order.id.substring(0, 8).toUpperCase(),
+  status: order.status,
+  pickup: {
+    latitude: order.pickupLat,
+    longitude: order.pickupLng,
+  },
+  dropoff: {
+    latitude: order.dropLat,
+    longitude: order.dropLng,
+  },
+  payout: order.payoutAmount,
+  surgeMultiplier: order.surgeMultiplier ?? 1,
+  priority: order.priority,
+  estimatedDuration: order.estimatedDuration,
+  actualDuration: order.actualDuration,
+  assignedAt: order.assignedAt?.toISOString(),
+  pickedUpAt: order.pickedUpAt?.toISOString(),
+  deliveredAt: order.deliveredAt?.toISOString(),
+  cancelledAt: order.cancelledAt?.toISOString(),
+  cancellationReason: order.cancellationReason,
+  createdAt: order.createdAt.toISOString(),
+  updatedAt: order.updatedAt.toISOString(),
+  agent: order.agent ? {
+    name: order.agent.user.name,
+    phone: order.agent.user.phone,
+    vehicleType: order.agent.vehicleType,
+  } : null,
+});
+
 export const partnerController = {
   // GET /api/partner/profile
   async getProfile(req: Request, res: Response, next: NextFunction) {
@@ -44,11 +158,15 @@ export const partnerController = {
         return res.status(404).json({ error: 'Partner not found' });
       }
 
+      // Keys are stored hashed, so only their metadata (name, prefix, scopes) is returned
+      const apiKeys = await apiKeyService.listKeys(partnerId);
+
       const response = {
         id: partner.id,
         companyName: partner.companyName,
-        apiKey: partner.apiKey,
+        apiKeys,
         webhookUrl: partner.webhookUrl,
+        webhookSecret: partner.webhookSecret,
         isActive: partner.isActive,
         user: partner.user,
       };
@@ -77,12 +195,19 @@ export const partnerController = {
         data: { webhookUrl },
       });
 
+      // Make sure a signing secret exists once a webhook is configured
+      const { webhookService } = await import('../services/webhook.service');
+      const webhookSecret = partner.webhookUrl
+        ? await webhookService.getOrCreateSecret(partnerId)
+        : partner.webhookSecret;
+
       // Invalidate cache
       await cacheService.invalidate(cacheKeys.partner.profile(partnerId));
 
       res.json({
         id: partner.id,
         webhookUrl: partner.webhookUrl,
+        webhookSecret,
       });
     } catch (error) {
       next(error);
@@ -97,12 +222,12 @@ export const partnerController = {
         return res.status(404).json({ error: 'Partner profile not found' });
       }
 
-      // Generate new API key using the same format as registration
-      const newApiKey = `pk_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+      // Issue a new full-access key; existing keys keep working for the grace period
+      const gracePeriodHours = req.body?.gracePeriodHours;
+      const key = await apiKeyService.rotateAllKeys(partnerId, gracePeriodHours);
 
-      const partner = await prisma.partner.update({
+      const partner = await prisma.partner.findUniqueOrThrow({
         where: { id: partnerId },
-        data: { apiKey: newApiKey },
         include: {
           user: {
             select: {
@@ -128,8 +253,15 @@ export const partnerController = {
 
       res.json({
         id: partner.id,
-        apiKey: partner.apiKey,
-        message: 'API key regenerated successfully. Please update your integrations with the new key.',
+        apiKey: key.apiKey,
+        key: {
+          id: key.id,
+          name: key.name,
+          prefix: key.prefix,
+          scopes: key.scopes,
+        },
+        previousKeysExpireAt: key.previousKeysExpireAt,
+        message: 'API key regenerated successfully. Previous keys keep working until previousKeysExpireAt - please update your integrations with the new key.',
       });
     } catch (error) {
       next(error);
@@ -176,6 +308,8 @@ export const partnerController = {
         customerEmail,
         customerAddress,
         productType,
+        externalRef, // Partner's own order number
+        quoteId, // Optional - locks the price of an earlier quote
         payoutAmount, // Optional - will be calculated if not provided
         orderAmount, // Optional - will be calculated if not provided
         paymentType = 'PREPAID', // PREPAID or COD
@@ -185,6 +319,10 @@ export const partnerController = {
         estimatedDuration,
         pickupWindow, // Scheduled pickup time (for E-commerce)
         isSurge = false, // Whether surge pricing applies
+        vehicleType, // Vehicle to price for (rate card)
+        packageWeightKg,
+        packageVolumeLiters,
+        waitingMinutes, // Expected loading/unloading wait
       } = req.body;
 
       // Extract coordinates from warehouses/restaurants if IDs are provided
@@ -252,17 +390,32 @@ export const partnerController = {
         console.warn('[Partner Controller] Wallet check failed:', walletError?.message);
       }
 
+      // A quote locks the quoted price (throws if expired, used or for other coordinates)
+      const quote = quoteId
+        ? await quoteService.resolveForOrder(partnerId, quoteId, {
+            pickupLat: finalPickupLat,
+            pickupLng: finalPickupLng,
+            dropLat: finalDropLat,
+            dropLng: finalDropLng,
+          })
+        : null;
+
       let pricing;
       let pricingProfile;
       try {
         pricingProfile = await pricingService.getPricingProfile(partnerId);
-        pricing = await pricingService.calculateOrderPricing({
+        pricing = quote ? toPricingCalculation(quote) : await pricingService.calculateOrderPricing({
           partnerId,
           pickupLat: finalPickupLat,
           pickupLng: finalPickupLng,
           dropLat: finalDropLat,
           dropLng: finalDropLng,
           isSurge,
+          vehicleType,
+          packageWeightKg,
+          packageVolumeLiters,
+          waitingMinutes,
+          pickupAt: pickupWindow,
         });
       } catch (error: any) {
         return res.status(400).json({ 
@@ -270,13 +423,13 @@ export const partnerController = {
         });
       }
 
-      // Use provided amounts if given, otherwise use calculated pricing
-      const finalPartnerPayment = orderAmount || pricing.partnerPayment;
-      const finalPayoutAmount = payoutAmount || pricing.agentPayout;
+      // Quoted prices are locked; otherwise use provided amounts if given, else calculated pricing
+      const finalPartnerPayment = quote ? pricing.partnerPayment : (orderAmount || pricing.partnerPayment);
+      const finalPayoutAmount = quote ? pricing.agentPayout : (payoutAmount || pricing.agentPayout);
       const finalAdminCommission = pricing.adminCommission;
 
-      // Get SLA priority based on partner category
-      const slaPriority = pricingService.getSLAPriority(partner.category);
+      // Get SLA priority from the quote, or based on partner category
+      const slaPriority = quote?.slaPriority || pricingService.getSLAPriority(partner.category);
 
       // For Quick Commerce, default priority to HIGH if not specified
       const finalPriority = partner.category === PartnerCategory.QUICK_COMMERCE && priority === 'NORMAL' 
@@ -336,6 +489,8 @@ export const partnerController = {
         }
       }
 
+      await assertExternalRefsAvailable(partnerId, [externalRef]);
+
       // Generate order ID
       const { generateId } = await import('../utils/id-generator.util');
       const orderId = await generateId('ORD');
@@ -369,17 +524,26 @@ export const partnerController = {
             adminCommission: finalAdminCommission,
             partnerCategory: partner.category,
             distanceKm: pricing.distanceKm,
+            surgeMultiplier: pricing.surgeMultiplier,
+            surgeZone: pricing.surgeZone,
+            vehicleType: pricing.vehicleType,
+            packageWeightKg: quote ? quote.packageWeightKg : packageWeightKg,
+            packageVolumeLiters: quote ? quote.packageVolumeLiters : packageVolumeLiters,
+            waitingMinutes: quote ? quote.waitingMinutes : waitingMinutes,
+            pricingLines: pricing.lines.map((line) => ({ ...line })),
             slaPriority,
             pickupWindow: pickupWindow ? new Date(pickupWindow) : null,
             orderType: orderType as 'ON_DEMAND' | 'B2B_BULK',
             commissionRate: typeof pricingProfile.agentSharePct === 'number' ? (100 - pricingProfile.agentSharePct) : 30,
             priority: finalPriority,
-            estimatedDuration,
+            estimatedDuration: estimatedDuration ?? quote?.etaMinutes,
             customerName: customerName || undefined,
             customerPhone: customerPhone || undefined,
             customerEmail: customerEmail || undefined,
             customerAddress: customerAddress || undefined,
             productType: productType || undefined,
+            externalRef: externalRef || undefined,
+            quoteId: quote?.id,
             orderAmount: finalPartnerPayment, // Always set orderAmount (validated above)
             paymentType: paymentType || 'PREPAID',
             transitLegs: transitLegs ? (Array.isArray(transitLegs) ? transitLegs : undefined) : undefined, // For multi-leg logistics flow
@@ -442,6 +606,7 @@ export const partnerController = {
                 customerEmail: customerEmail || undefined,
                 customerAddress: customerAddress || undefined,
                 productType: productType || undefined,
+                externalRef: externalRef || undefined,
                 orderAmount: orderAmount || undefined,
                 paymentType: paymentType || 'PREPAID',
                 status: 'SEARCHING_AGENT',
@@ -496,6 +661,7 @@ export const partnerController = {
                   customerEmail: customerEmail || undefined,
                   customerAddress: customerAddress || undefined,
                   productType: productType || undefined,
+                  externalRef: externalRef || undefined,
                   orderAmount: orderAmount || undefined,
                   paymentType: paymentType || 'PREPAID',
                   status: 'SEARCHING_AGENT',
@@ -524,15 +690,23 @@ export const partnerController = {
               });
             } else {
               // Re-throw if it's a different error
-              throw fallbackError;
+              throw toOrderConflict(fallbackError);
             }
           }
         } else {
           // Re-throw if it's a different error
-          throw createError;
+          throw toOrderConflict(createError);
         }
       }
 
+      await orderStateService.recordTransition({
+        orderId: order.id,
+        from: null,
+        to: OrderStatus.SEARCHING_AGENT,
+        actor: { type: ActorType.PARTNER, id: getUserId(req) },
+        reason: 'Order created',
+      });
+
       // Generate and assign barcode/QR code after order creation
       try {
         const { barcodeService } = await import('../services/barcode.service');
@@ -698,6 +872,7 @@ export const partnerController = {
 
       res.status(201).json({
         id: finalOrder.id,
+        externalRef: externalRef || null,
         trackingNumber: order.id.substring(0, 8).toUpperCase(),
         status: order.status,
         pickup: {
@@ -727,7 +902,8 @@ export const partnerController = {
         return res.status(404).json({ error: 'Partner profile not found' });
       }
 
-      const { status, limit = 50, offset = 0 } = req.query;
+      const { status } = req.query;
+      const { limit, offset } = getPagination(req.query);
 
       const where: any = { partnerId };
       if (status) {
@@ -749,6 +925,7 @@ export const partnerController = {
           where,
           select: {
             id: true,
+            externalRef: true,
             status: true,
             pickupLat: true,
             pickupLng: true,
@@ -779,8 +956,8 @@ export const partnerController = {
           orderBy: {
             createdAt: 'desc',
           },
-          take: Number(limit),
-          skip: Number(offset),
+          take: limit,
+          skip: offset,
         }),
         prisma.order.count({ where }),
       ]);
@@ -797,6 +974,7 @@ export const partnerController = {
           
           return {
             id: order.id,
+            externalRef: order.externalRef,
             trackingNumber: order.id.substring(0, 8).toUpperCase(),
             status: order.status,
             pickup: {
@@ -832,9 +1010,53 @@ export const partnerController = {
           };
         }),
         total,
-        limit: Number(limit),
-        offset: Number(offset),
+        limit,
+        offset,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/orders/:id/proof-of-delivery - Delivery photo / signature and capture geotag
+  async getProofOfDelivery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const { proofOfDelivery, ...order } = await deliveryVerificationService.getProofOfDelivery(req.params.id, partnerId);
+      if (!proofOfDelivery) {
+        return res.status(404).json({ error: 'No proof of delivery captured for this order' });
+      }
+
+      res.json({ ...order, proofOfDelivery });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/orders/:id/status-history - Status transitions of an order, oldest first
+  async getOrderStatusHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const order = await prisma.order.findFirst({
+        where: { id: req.params.id, partnerId },
+        select: { id: true, status: true },
       });
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const history = await orderStateService.getHistory(order.id);
+
+      res.json({ orderId: order.id, status: order.status, history });
     } catch (error) {
       next(error);
     }
@@ -957,6 +1179,7 @@ export const partnerController = {
         },
         select: {
           id: true,
+          externalRef: true,
           status: true,
           pickupLat: true,
           pickupLng: true,
@@ -1101,6 +1324,7 @@ export const partnerController = {
 
       res.json({
         id: order.id,
+        externalRef: order.externalRef,
         trackingNumber: order.id.substring(0, 8).toUpperCase(),
         status: refreshedOrder?.status || order.status,
         pickup: {
@@ -1181,20 +1405,36 @@ export const partnerController = {
         estimatedDuration,
         pickupWindow, // Scheduled pickup time (for E-commerce)
         isSurge = false, // Whether surge pricing applies
+        vehicleType, // Vehicle to price for (rate card)
+        packageWeightKg,
+        packageVolumeLiters,
+        waitingMinutes, // Expected loading/unloading wait
+        externalRef, // Partner's own order number
+        quoteId, // Optional - locks the price of an earlier quote
       } = req.body;
 
       // Calculate pricing using pricing service (category-aware)
+      // A quote locks the quoted price (throws if expired, used or for other coordinates)
+      const quote = quoteId
+        ? await quoteService.resolveForOrder(partner.partnerId, quoteId, { pickupLat, pickupLng, dropLat, dropLng })
+        : null;
+
       let pricing;
       let pricingProfile;
       try {
         pricingProfile = await pricingService.getPricingProfile(partner.partnerId);
-        pricing = await pricingService.calculateOrderPricing({
+        pricing = quote ? toPricingCalculation(quote) : await pricingService.calculateOrderPricing({
           partnerId: partner.partnerId,
           pickupLat,
           pickupLng,
           dropLat,
           dropLng,
           isSurge,
+          vehicleType,
+          packageWeightKg,
+          packageVolumeLiters,
+          waitingMinutes,
+          pickupAt: pickupWindow,
         });
       } catch (error: any) {
         return res.status(400).json({ 
@@ -1202,9 +1442,9 @@ export const partnerController = {
         });
       }
 
-      // Use provided amounts if given, otherwise use calculated pricing
-      const finalPartnerPayment = orderAmount || pricing.partnerPayment;
-      const finalPayoutAmount = payoutAmount || pricing.agentPayout;
+      // Quoted prices are locked; otherwise use provided amounts if given, else calculated pricing
+      const finalPartnerPayment = quote ? pricing.partnerPayment : (orderAmount || pricing.partnerPayment);
+      const finalPayoutAmount = quote ? pricing.agentPayout : (payoutAmount || pricing.agentPayout);
       const finalAdminCommission = pricing.adminCommission;
 
       // Validate that orderAmount is set (required for revenue calculations)
@@ -1215,14 +1455,16 @@ export const partnerController = {
         });
       }
 
-      // Get SLA priority based on partner category
-      const slaPriority = pricingService.getSLAPriority(partnerDetails.category);
+      // Get SLA priority from the quote, or based on partner category
+      const slaPriority = quote?.slaPriority || pricingService.getSLAPriority(partnerDetails.category);
 
       // For Quick Commerce, default priority to HIGH if not specified
       const finalPriority = partnerDetails.category === PartnerCategory.QUICK_COMMERCE && priority === 'NORMAL' 
         ? 'HIGH' 
         : priority;
 
+      await assertExternalRefsAvailable(partner.partnerId, [externalRef]);
+
       // Generate order ID
       const { generateId } = await import('../utils/id-generator.util');
       const orderId = await generateId('ORD');
@@ -1235,6 +1477,8 @@ export const partnerController = {
           data: {
             id: orderId,
             partnerId: partner.partnerId,
+            externalRef: externalRef || undefined,
+            quoteId: quote?.id,
             pickupLat,
             pickupLng,
             dropLat,
@@ -1246,12 +1490,19 @@ export const partnerController = {
             adminCommission: finalAdminCommission,
             partnerCategory: partnerDetails.category,
             distanceKm: pricing.distanceKm,
+            surgeMultiplier: pricing.surgeMultiplier,
+            surgeZone: pricing.surgeZone,
+            vehicleType: pricing.vehicleType,
+            packageWeightKg: quote ? quote.packageWeightKg : packageWeightKg,
+            packageVolumeLiters: quote ? quote.packageVolumeLiters : packageVolumeLiters,
+            waitingMinutes: quote ? quote.waitingMinutes : waitingMinutes,
+            pricingLines: pricing.lines.map((line) => ({ ...line })),
             slaPriority,
             pickupWindow: pickupWindow ? new Date(pickupWindow) : null,
             orderType: orderType as 'ON_DEMAND' | 'B2B_BULK',
             commissionRate: typeof pricingProfile.agentSharePct === 'number' ? (100 - pricingProfile.agentSharePct) : 30,
             priority: finalPriority,
-            estimatedDuration,
+            estimatedDuration: estimatedDuration ?? quote?.etaMinutes,
             status: 'SEARCHING_AGENT',
           },
         });
@@ -1269,6 +1520,7 @@ export const partnerController = {
               data: {
                 id: orderId,
                 partnerId: partner.partnerId,
+                externalRef: externalRef || undefined,
                 pickupLat,
                 pickupLng,
                 dropLat,
@@ -1290,6 +1542,7 @@ export const partnerController = {
                 data: {
                   id: orderId,
                   partnerId: partner.partnerId,
+                  externalRef: externalRef || undefined,
                   pickupLat,
                   pickupLng,
                   dropLat,
@@ -1300,15 +1553,23 @@ export const partnerController = {
               });
             } else {
               // Re-throw if it's a different error
-              throw fallbackError;
+              throw toOrderConflict(fallbackError);
             }
           }
         } else {
           // Re-throw if it's a different error
-          throw createError;
+          throw toOrderConflict(createError);
         }
       }
 
+      await orderStateService.recordTransition({
+        orderId: order.id,
+        from: null,
+        to: OrderStatus.SEARCHING_AGENT,
+        actor: { type: ActorType.PARTNER, id: getUserId(req) },
+        reason: 'Order created',
+      });
+
       // Generate and assign barcode/QR code after order creation
       const { barcodeService } = await import('../services/barcode.service');
       await barcodeService.assignBarcodeToOrder(order.id);
@@ -1345,6 +1606,8 @@ export const partnerController = {
 
       res.status(201).json({
         id: order.id,
+        externalRef: order.externalRef,
+        quoteId: order.quoteId,
         trackingNumber: order.id.substring(0, 8).toUpperCase(),
         status: order.status,
         pickup: {
@@ -1380,74 +1643,42 @@ export const partnerController = {
           id: orderId,
           partnerId: partner.partnerId, // Ensure partner owns this order
         },
-        select: {
-          id: true,
-          status: true,
-          pickupLat: true,
-          pickupLng: true,
-          dropLat: true,
-          dropLng: true,
-          payoutAmount: true,
-          priority: true,
-          estimatedDuration: true,
-          actualDuration: true,
-          assignedAt: true,
-          pickedUpAt: true,
-          deliveredAt: true,
-          cancelledAt: true,
-          cancellationReason: true,
-          createdAt: true,
-          updatedAt: true,
-          agent: {
-            select: {
-              id: true,
-              vehicleType: true,
-              rating: true,
-              user: {
-                select: {
-                  name: true,
-                  email: true,
-                  phone: true,
-                },
-              },
-            },
-          },
-        },
+        select: EXTERNAL_ORDER_SELECT,
       });
 
       if (!order) {
         return res.status(404).json({ error: 'Order not found' });
       }
 
-      res.json({
-        id: order.id,
-        trackingNumber: order.id.substring(0, 8).toUpperCase(),
-        status: order.status,
-        pickup: {
-          latitude: order.pickupLat,
-          longitude: order.pickupLng,
-        },
-        dropoff: {
-          latitude: order.dropLat,
-          longitude: order.dropLng,
+      res.json(formatExternalOrder(order));
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner-api/orders/by-ref/:ref - Get order details by the partner's external reference
+  async getOrderByRefExternal(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partner = req.partner;
+      if (!partner) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const order = await prisma.order.findUnique({
+        where: {
+          partnerId_externalRef: {
+            partnerId: partner.partnerId,
+            externalRef: req.params.ref,
+          },
         },
-        payout: order.payoutAmount,
-        priority: order.priority,
-        estimatedDuration: order.estimatedDuration,
-        actualDuration: order.actualDuration,
-        assignedAt: order.assignedAt?.toISOString(),
-        pickedUpAt: order.pickedUpAt?.toISOString(),
-        deliveredAt: order.deliveredAt?.toISOString(),
-        cancelledAt: order.cancelledAt?.toISOString(),
-        cancellationReason: order.cancellationReason,
-        createdAt: order.createdAt.toISOString(),
-        updatedAt: order.updatedAt.toISOString(),
-        agent: order.agent ? {
-          name: order.agent.user.name,
-          phone: order.agent.user.phone,
-          vehicleType: order.agent.vehicleType,
-        } : null,
+        select: EXTERNAL_ORDER_SELECT,
       });
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      res.json(formatExternalOrder(order));
     } catch (error) {
       next(error);
     }
@@ -1491,7 +1722,7 @@ export const partnerController = {
 
       // Only allow editing if order is still searching for an agent (not assigned yet)
       if (existingOrder.status !== 'SEARCHING_AGENT') {
-        return res.status(403).json({ 
+        return res.status(409).json({ 
           error: 'Cannot edit order. Order has already been assigned to an agent.' 
         });
       }
@@ -1520,6 +1751,7 @@ export const partnerController = {
           payoutAmount: true,
           priority: true,
           estimatedDuration: true,
+          externalRef: true,
           createdAt: true,
           updatedAt: true,
           partner: {
@@ -1549,6 +1781,7 @@ export const partnerController = {
 
       res.json({
         id: updatedOrder.id,
+        externalRef: updatedOrder.externalRef,
         trackingNumber: updatedOrder.id.substring(0, 8).toUpperCase(),
         status: updatedOrder.status,
         pickup: {
@@ -1598,6 +1831,7 @@ export const partnerController = {
         activeOrders,
         cancelledOrders,
         totalCompletedOrders,
+        apiUsage,
       ] = await Promise.all([
         // Today's orders
         prisma.order.count({
@@ -1652,6 +1886,8 @@ export const partnerController = {
             status: OrderStatus.DELIVERED,
           },
         }),
+        // Partner API requests today
+        rateLimitService.getDailyUsage(partnerId, 1),
       ]);
 
       // Calculate trends
@@ -1666,6 +1902,8 @@ export const partnerController = {
         activeOrders,
         deliveryIssues: cancelledOrders,
         totalDeliveries: totalCompletedOrders,
+        apiRequestsToday: apiUsage[0].requests,
+        apiRequestsThrottledToday: apiUsage[0].throttled,
       };
 
       // Cache the response (2 minutes TTL)
@@ -2118,6 +2356,8 @@ export const partnerController = {
         return res.status(400).json({ error: 'Maximum 100 orders per bulk request' });
       }
 
+      await assertExternalRefsAvailable(partnerId, orders.map((order: any) => order.externalRef));
+
       const { generateId } = await import('../utils/id-generator.util');
       
       // Get pricing profile once (partner doesn't change in bulk orders)
@@ -2144,6 +2384,11 @@ export const partnerController = {
           estimatedDuration,
           pickupWindow,
           isSurge = false,
+          vehicleType,
+          packageWeightKg,
+          packageVolumeLiters,
+          waitingMinutes,
+          externalRef,
         } = orderData;
 
         // Calculate pricing
@@ -2156,6 +2401,11 @@ export const partnerController = {
             dropLat,
             dropLng,
             isSurge,
+            vehicleType,
+            packageWeightKg,
+            packageVolumeLiters,
+            waitingMinutes,
+            pickupAt: pickupWindow,
           });
         } catch (error: any) {
           console.error(`[Bulk Orders] Pricing calculation failed for order:`, error.message);
@@ -2180,6 +2430,7 @@ export const partnerController = {
             data: {
               id: orderId,
               partnerId,
+              externalRef: externalRef || undefined,
               pickupLat,
               pickupLng,
               dropLat,
@@ -2191,6 +2442,13 @@ export const partnerController = {
               adminCommission: finalAdminCommission,
             partnerCategory: partner.category,
             distanceKm: pricing.distanceKm,
+            surgeMultiplier: pricing.surgeMultiplier,
+            surgeZone: pricing.surgeZone,
+            vehicleType: pricing.vehicleType,
+            packageWeightKg,
+            packageVolumeLiters,
+            waitingMinutes,
+            pricingLines: pricing.lines.map((line) => ({ ...line })),
             slaPriority,
             pickupWindow: pickupWindow ? new Date(pickupWindow) : null,
             orderType: 'ON_DEMAND',
@@ -2201,6 +2459,14 @@ export const partnerController = {
           },
         });
 
+          await orderStateService.recordTransition({
+            orderId: order.id,
+            from: null,
+            to: OrderStatus.SEARCHING_AGENT,
+            actor: { type: ActorType.PARTNER, id: getUserId(req) },
+            reason: 'Order created (bulk)',
+          });
+
           // Generate barcode/QR code
           try {
             const { barcodeService } = await import('../services/barcode.service');
@@ -2226,6 +2492,7 @@ export const partnerController = {
 
           createdOrders.push({
             id: order.id,
+            externalRef: order.externalRef,
             trackingNumber: order.id.substring(0, 8).toUpperCase(),
             status: order.status,
           });
@@ -2310,6 +2577,7 @@ export const partnerController = {
 
       const orderId = req.params.id;
       const { reason } = req.body;
+      const actor = { type: ActorType.PARTNER, id: getUserId(req) };
 
       const order = await prisma.$transaction(async (tx) => {
         const currentOrder = await tx.order.findFirst({
@@ -2331,18 +2599,20 @@ export const partnerController = {
         });
 
         if (!currentOrder) {
-          throw new Error('Order not found or you do not have permission to cancel it');
+          throw new NotFoundError('Order not found or you do not have permission to cancel it');
         }
 
         // Don't allow cancellation if already delivered or cancelled
         if (currentOrder.status === 'DELIVERED') {
-          throw new Error('Cannot cancel an order that has already been delivered');
+          throw new ConflictError('Cannot cancel an order that has already been delivered');
         }
 
         if (currentOrder.status === 'CANCELLED') {
-          throw new Error('Order is already cancelled');
+          throw new ConflictError('Order is already cancelled');
         }
 
+        const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.CANCELLED, actor, tx);
+
         // EDGE CASE 3: Customer cancels after Leg 2 (order at destination warehouse)
         // Convert to RTO flow - reverse logistics via provider
         const transitLegs = currentOrder.transitLegs as any;
@@ -2398,12 +2668,13 @@ export const partnerController = {
         const updatedOrder = await tx.order.update({
           where: { id: orderId },
           data: {
-            status: 'CANCELLED',
+            ...orderStateService.getStatusData(fromStatus, OrderStatus.CANCELLED),
             cancelledAt: new Date(),
             cancellationReason: reason || 'Cancelled by partner',
           },
           select: {
             id: true,
+            externalRef: true,
             status: true,
             partnerId: true,
             agentId: true,
@@ -2412,6 +2683,11 @@ export const partnerController = {
           },
         });
 
+        await orderStateService.recordTransition(
+          { orderId, from: fromStatus, to: OrderStatus.CANCELLED, actor, reason: reason || 'Cancelled by partner' },
+          tx
+        );
+
         return updatedOrder;
       });
 
@@ -2429,6 +2705,14 @@ export const partnerController = {
         console.error('[Partner] Failed to send cancellation webhook:', err);
       });
 
+      // Skip the order's trip stops (a batched trip moves on without it)
+      try {
+        const { tripService } = await import('../services/trip.service');
+        await tripService.syncOrderStatus(orderId);
+      } catch (tripError: any) {
+        console.error('[Partner] Error updating trip stops:', tripError?.message);
+      }
+
       // Notify partner via WebSocket for real-time updates
       await notifyPartnerOrderStatusUpdate(
         order.partnerId,
@@ -2458,10 +2742,8 @@ export const partnerController = {
         order,
       });
     } catch (error: any) {
-      if (error.message === 'Order not found or you do not have permission to cancel it' ||
-          error.message === 'Cannot cancel an order that has already been delivered' ||
-          error.message === 'Order is already cancelled') {
-        return res.status(400).json({ error: error.message });
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
       }
       next(error);
     }
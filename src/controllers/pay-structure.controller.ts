@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import { payStructureService, PAY_TYPES } from '../services/pay-structure.service';
+
+export const payStructureController = {
+  // GET /api/admin/pay-structures - List pay structures with assigned agent counts
+  async getStructures(req: Request, res: Response, next: NextFunction) {
+    try {
+      const structures = await payStructureService.listStructures();
+
+      res.json({
+        structures: structures.map(({ _count, ...structure }) => ({
+          ...structure,
+          agentCount: _count.agents,
+        })),
+        payTypes: PAY_TYPES,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/pay-structures - Create a pay structure
+  async createStructure(req: Request, res: Response, next: NextFunction) {
+    try {
+      const structure = await payStructureService.createStructure(req.body);
+
+      res.status(201).json({ message: 'Pay structure created successfully', structure });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // PUT /api/admin/pay-structures/:id - Update a pay structure (set isActive: false to retire it)
+  async updateStructure(req: Request, res: Response, next: NextFunction) {
+    try {
+      const structure = await payStructureService.updateStructure(req.params.id, req.body);
+
+      res.json({ message: 'Pay structure updated successfully', structure });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/pay-structures/assign - Assign a structure to agents (payStructureId: null reverts to the default share)
+  async assignStructure(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { agentIds, payStructureId } = req.body;
+
+      const result = await payStructureService.assignToAgents(agentIds, payStructureId ?? null);
+
+      res.json({
+        message: payStructureId
+          ? `Pay structure assigned to ${result.updated} agent(s)`
+          : `${result.updated} agent(s) reverted to the default agent share`,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -0,0 +1,173 @@
+import { Request, Response, NextFunction } from 'express';
+import { PartnerCategory, VehicleType } from '@prisma/client';
+import { pricingRuleService } from '../services/pricing-rule.service';
+import { pricingService } from '../services/pricing.service';
+
+export const pricingRuleController = {
+  // GET /api/admin/pricing-rules - List pricing rules (optional ?pricingProfileId=)
+  async getRules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rules = await pricingRuleService.listRules(req.query.pricingProfileId as string | undefined);
+
+      res.json({ rules });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/pricing-rules - Create a pricing rule
+  async createRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rule = await pricingRuleService.createRule(req.body);
+
+      res.status(201).json({ message: 'Pricing rule created successfully', rule });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // PUT /api/admin/pricing-rules/:id - Update a pricing rule
+  async updateRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rule = await pricingRuleService.updateRule(req.params.id, req.body);
+
+      res.json({ message: 'Pricing rule updated successfully', rule });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // DELETE /api/admin/pricing-rules/:id - Delete a pricing rule
+  async deleteRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      await pricingRuleService.deleteRule(req.params.id);
+
+      res.json({ success: true, message: 'Pricing rule deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/pricing-rules/preview - Price a pickup/drop/time and show which rules fired
+  async previewPricing(req: Request, res: Response, next: NextFunction) {
+    try {
+      const {
+        partnerId,
+        category,
+        pickupLat,
+        pickupLng,
+        dropLat,
+        dropLng,
+        pickupAt,
+        vehicleType,
+        packageWeightKg,
+        packageVolumeLiters,
+        waitingMinutes,
+        isSurge,
+      } = req.body;
+
+      if (!partnerId && !category) {
+        return res.status(400).json({ error: 'partnerId or category is required' });
+      }
+
+      if (category && !Object.values(PartnerCategory).includes(category)) {
+        return res.status(400).json({ error: `category must be one of ${Object.values(PartnerCategory).join(', ')}` });
+      }
+
+      if (vehicleType && !Object.values(VehicleType).includes(vehicleType)) {
+        return res.status(400).json({ error: `vehicleType must be one of ${Object.values(VehicleType).join(', ')}` });
+      }
+
+      const coordinates = { pickupLat, pickupLng, dropLat, dropLng };
+      for (const [field, value] of Object.entries(coordinates)) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return res.status(400).json({ error: `${field} must be a number` });
+        }
+      }
+
+      if (pickupAt && isNaN(new Date(pickupAt).getTime())) {
+        return res.status(400).json({ error: 'pickupAt must be a valid date' });
+      }
+
+      const preview = await pricingService.previewPricing({
+        partnerId,
+        category,
+        pickupLat,
+        pickupLng,
+        dropLat,
+        dropLng,
+        pickupAt,
+        vehicleType,
+        packageWeightKg,
+        packageVolumeLiters,
+        waitingMinutes,
+        isSurge,
+      });
+
+      res.json({
+        profile: preview.profile,
+        price: {
+          total: preview.pricing.partnerPayment,
+          currency: 'INR',
+          lines: preview.pricing.lines,
+          agentPayout: preview.pricing.agentPayout,
+          adminCommission: preview.pricing.adminCommission,
+          surgeMultiplier: preview.pricing.surgeMultiplier,
+        },
+        distanceKm: preview.pricing.distanceKm,
+        localTime: preview.rules.localTime,
+        holiday: preview.rules.holiday,
+        rules: preview.rules.trace,
+      });
+    } catch (error: any) {
+      if (error?.message?.includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      next(error);
+    }
+  },
+
+  // GET /api/admin/holiday-calendars - List holiday calendars with their dates
+  async getCalendars(req: Request, res: Response, next: NextFunction) {
+    try {
+      const calendars = await pricingRuleService.listCalendars();
+
+      res.json({ calendars });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/holiday-calendars - Create a holiday calendar (optionally with holidays)
+  async createCalendar(req: Request, res: Response, next: NextFunction) {
+    try {
+      const calendar = await pricingRuleService.createCalendar(req.body);
+
+      res.status(201).json({ message: 'Holiday calendar created successfully', calendar });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/holiday-calendars/:id/holidays - Add or rename holidays
+  async addHolidays(req: Request, res: Response, next: NextFunction) {
+    try {
+      const holidays = await pricingRuleService.addHolidays(req.params.id, req.body.holidays);
+
+      res.json({ message: 'Holidays saved successfully', holidays });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // DELETE /api/admin/holiday-calendars/:id/holidays/:holidayId - Remove a holiday
+  async deleteHoliday(req: Request, res: Response, next: NextFunction) {
+    try {
+      await pricingRuleService.deleteHoliday(req.params.id, req.params.holidayId);
+
+      res.json({ success: true, message: 'Holiday deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
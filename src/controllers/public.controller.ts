@@ -1,7 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { mailService } from '../services/mail.service';
-import axios from 'axios';
+import { DirectionsResult, geoService } from '../services/geo.service';
+
+/**
+ * Google Directions fields that existing clients read (routes[].legs, overview_polyline),
+ * returned next to the provider-neutral fields
+ */
+const toLegacyRoutes = (directions: DirectionsResult) => {
+  if (directions.status !== 'OK') {
+    return [];
+  }
+
+  const km = directions.distanceMeters / 1000;
+  const minutes = Math.max(1, Math.round(directions.durationSeconds / 60));
+
+  return [
+    {
+      legs: [
+        {
+          distance: { value: directions.distanceMeters, text: km < 1 ? `${Math.round(directions.distanceMeters)} m` : `${km.toFixed(1)} km` },
+          duration: { value: directions.durationSeconds, text: `${minutes} min${minutes === 1 ? '' : 's'}` },
+          start_location: { lat: directions.origin.latitude, lng: directions.origin.longitude },
+          end_location: { lat: directions.destination.latitude, lng: directions.destination.longitude },
+        },
+      ],
+      overview_polyline: { points: directions.polyline || '' },
+    },
+  ];
+};
 
 export const publicController = {
   // GET /api/public/orders/:id/track - Public order tracking (no auth required)
@@ -104,80 +131,30 @@ export const publicController = {
     }
   },
 
-  // GET /api/public/directions - Proxy for Google Directions API (no auth required)
+  // GET /api/public/directions - Route between two points via the configured geo provider (no auth required)
   async getDirections(req: Request, res: Response, next: NextFunction) {
     try {
       const { origin, destination } = req.query;
 
-      if (!origin || !destination) {
+      if (!origin || !destination || typeof origin !== 'string' || typeof destination !== 'string') {
         return res.status(400).json({ error: 'Origin and destination are required' });
       }
 
-      // Check both environment variable names for flexibility
-      const googleApiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
-      if (!googleApiKey) {
-        return res.status(500).json({ 
-          error: 'Google Maps API key is not configured',
-          message: 'Please set GOOGLE_MAPS_API_KEY or NEXT_PUBLIC_GOOGLE_MAPS_API_KEY in your backend .env file'
-        });
-      }
+      // origin/destination are "lat,lng" or an address
+      const directions = await geoService.directions(origin, destination);
 
-      const url = `https://maps.googleapis.com/maps/api/directions/json`;
-      const response = await axios.get(url, {
-        params: {
-          origin: origin,
-          destination: destination,
-          key: googleApiKey,
-        },
-        timeout: 10000, // 10 second timeout
-      });
-
-      // Handle different Google Maps API response statuses
-      if (response.data.status === 'OK') {
-        // Success - return the data
-      } else if (response.data.status === 'ZERO_RESULTS') {
+      if (directions.status === 'ZERO_RESULTS') {
         // No route found - this is a valid response, not an error
         return res.status(200).json({
-          status: 'ZERO_RESULTS',
+          ...directions,
+          routes: toLegacyRoutes(directions),
           message: 'No route found between the specified locations',
-          routes: [],
-        });
-      } else if (response.data.status === 'NOT_FOUND') {
-        return res.status(404).json({
-          error: 'Location not found',
-          message: response.data.error_message || 'One or both locations could not be found',
-        });
-      } else if (response.data.status === 'INVALID_REQUEST') {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: response.data.error_message || 'The request was invalid',
-        });
-      } else {
-        // Other errors (OVER_QUERY_LIMIT, REQUEST_DENIED, UNKNOWN_ERROR)
-        return res.status(400).json({
-          error: `Directions API error: ${response.data.status}`,
-          message: response.data.error_message || 'An error occurred while fetching directions',
         });
       }
 
-      res.json(response.data);
-    } catch (error: any) {
-      if (error.response) {
-        // API returned an error response
-        return res.status(error.response.status).json({
-          error: 'Directions API error',
-          message: error.response.data?.error_message || error.message,
-        });
-      } else if (error.request) {
-        // Request was made but no response received
-        return res.status(504).json({
-          error: 'Directions API timeout',
-          message: 'The request to Google Directions API timed out',
-        });
-      } else {
-        // Something else happened
-        next(error);
-      }
+      res.json({ ...directions, routes: toLegacyRoutes(directions) });
+    } catch (error) {
+      next(error);
     }
   },
 
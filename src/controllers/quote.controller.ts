@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { getPartnerId } from '../utils/role.util';
+import { quoteService, QUOTE_TTL_MINUTES } from '../services/quote.service';
+
+export const quoteController = {
+  // POST /api/partner-api/quotes - Price a delivery before creating the order
+  async createQuote(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const quote = await quoteService.createQuote(partnerId, req.body);
+
+      res.status(201).json({
+        ...quote,
+        message: `Pass quoteId when creating the order within ${QUOTE_TTL_MINUTES} minutes to lock this price.`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner-api/quotes/:id - Get a quote
+  async getQuote(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const quote = await quoteService.getQuote(partnerId, req.params.id);
+
+      res.json(quote);
+    } catch (error) {
+      next(error);
+    }
+  },
+};
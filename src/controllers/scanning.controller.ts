@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
+import { ActorType, OrderStatus } from '@prisma/client';
 import { barcodeService } from '../services/barcode.service';
+import { orderStateService } from '../services/order-state.service';
 import { prisma } from '../lib/prisma';
 import { AppError } from '../utils/errors.util';
-import { getAgentId } from '../utils/role.util';
+import { getAgentId, getUserId } from '../utils/role.util';
 
 export const scanningController = {
   // POST /api/agent/scan/barcode - Scan barcode
@@ -250,25 +252,39 @@ export const scanningController = {
         throw new AppError('Invalid OTP. Please check the 4-digit code and try again.', 400);
       }
 
-      // Verify order is in correct status (ASSIGNED or SEARCHING_AGENT)
-      if (order.status !== 'ASSIGNED' && order.status !== 'SEARCHING_AGENT') {
-        throw new AppError(`Order cannot be picked up. Current status: ${order.status}`, 400);
-      }
+      // Verify order can be picked up (ASSIGNED or SEARCHING_AGENT) and the agent is at the pickup
+      const actor = { type: ActorType.AGENT, id: getUserId(req), agentId };
+      const updatedOrder = await prisma.$transaction(async (tx) => {
+        const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.PICKED_UP, actor, tx);
+
+        // Update order status to PICKED_UP
+        const pickedUpOrder = await tx.order.update({
+          where: { id: orderId },
+          data: {
+            ...orderStateService.getStatusData(fromStatus, OrderStatus.PICKED_UP),
+            pickedUpAt: new Date(),
+            // Clear pickup OTP after successful verification
+            pickupOtp: null,
+          },
+          select: {
+            id: true,
+            status: true,
+            pickedUpAt: true,
+          },
+        });
 
-      // Update order status to PICKED_UP
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'PICKED_UP',
-          pickedUpAt: new Date(),
-          // Clear pickup OTP after successful verification
-          pickupOtp: null,
-        },
-        select: {
-          id: true,
-          status: true,
-          pickedUpAt: true,
-        },
+        await orderStateService.recordTransition(
+          {
+            orderId,
+            from: fromStatus,
+            to: OrderStatus.PICKED_UP,
+            actor,
+            reason: 'Pickup OTP verified',
+          },
+          tx
+        );
+
+        return pickedUpOrder;
       });
 
       res.json({
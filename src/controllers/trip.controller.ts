@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import { ActorType, TripStatus } from '@prisma/client';
+import { tripService } from '../services/trip.service';
+import { routeService } from '../services/route.service';
+import { getAgentId, getUserId } from '../utils/role.util';
+
+export const tripController = {
+  // GET /api/admin/trips - List batched trips (optional ?status=&agentId=)
+  async getTrips(req: Request, res: Response, next: NextFunction) {
+    try {
+      const status = req.query.status as TripStatus | undefined;
+
+      if (status && !Object.values(TripStatus).includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${Object.values(TripStatus).join(', ')}` });
+      }
+
+      const trips = await tripService.listTrips({
+        status,
+        agentId: req.query.agentId as string | undefined,
+      });
+
+      res.json({ trips });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/admin/trips/:id - Trip with its stop sequence
+  async getTrip(req: Request, res: Response, next: NextFunction) {
+    try {
+      const trip = await tripService.getTrip(req.params.id);
+
+      res.json({ trip });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/trips - Batch specific orders into a trip
+  async createTrip(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { orderIds } = req.body;
+
+      if (!Array.isArray(orderIds) || orderIds.some((id) => typeof id !== 'string')) {
+        return res.status(400).json({ error: 'orderIds must be an array of order IDs' });
+      }
+
+      const trip = await tripService.createTrip(orderIds);
+
+      res.status(201).json({ message: 'Trip created successfully', trip });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/trips/batch - Group waiting orders into trips now
+  async batchOrders(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await tripService.batchPendingOrders();
+
+      res.json({ message: `Batched ${result.orders} order(s) into ${result.trips} trip(s)`, ...result });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/trips/:id/assign - Assign a planned trip to an agent
+  async assignTrip(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { agentId } = req.body;
+
+      if (!agentId || typeof agentId !== 'string') {
+        return res.status(400).json({ error: 'agentId is required' });
+      }
+
+      const trip = await tripService.assignTrip(req.params.id, agentId, { type: ActorType.ADMIN, id: getUserId(req) });
+
+      res.json({ message: 'Trip assigned successfully', trip });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/admin/trips/:id/cancel - Ungroup a planned trip (orders are dispatched individually)
+  async cancelTrip(req: Request, res: Response, next: NextFunction) {
+    try {
+      const trip = await tripService.cancelTrip(req.params.id);
+
+      res.json({ message: 'Trip cancelled successfully', trip });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/agent/trips/current - The agent's active trip with its stop sequence
+  async getCurrentTrip(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const trip = await tripService.getAgentActiveTrip(agentId);
+
+      res.json({ trip });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/agent/route - Optimized stop order with ETAs across the agent's active orders
+  async getRoute(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const result = await routeService.getAgentRoute(agentId);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/agent/trips/:id/stops/:stopId/arrive - Mark arrival at a stop
+  async arriveAtStop(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        return res.status(404).json({ error: 'Agent profile not found' });
+      }
+
+      const stop = await tripService.markStopArrived(agentId, req.params.id, req.params.stopId);
+
+      res.json({ message: 'Arrival recorded', stop });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -1,7 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import { ActorType } from '@prisma/client';
 import { deliveryVerificationService } from '../services/delivery-verification.service';
+import { codService } from '../services/cod.service';
+import { incentiveService } from '../services/incentive.service';
 import { AppError } from '../utils/errors.util';
-import { getAgentId } from '../utils/role.util';
+import { getAgentId, getUserId } from '../utils/role.util';
+import { notifyPartner } from '../lib/webhook';
+
+/**
+ * Remove uploaded proof of delivery files (request rejected)
+ */
+const removeUploadedFiles = (files: Express.Multer.File[]) => {
+  for (const file of files) {
+    try {
+      fs.unlinkSync(file.path);
+    } catch (unlinkError) {
+      console.error('Error deleting file:', unlinkError);
+    }
+  }
+};
 
 export const verificationController = {
   // POST /api/agent/orders/:id/generate-verification - Generate delivery verification codes
@@ -48,7 +66,7 @@ export const verificationController = {
   async verifyWithOTP(req: Request, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const { otp } = req.body;
+      const { otp, codCollected } = req.body;
       const agentId = getAgentId(req);
       if (!agentId) {
         throw new AppError('Agent ID not found', 401);
@@ -72,7 +90,31 @@ export const verificationController = {
         throw new AppError('Order not assigned to you', 403);
       }
 
-      const verifiedOrder = await deliveryVerificationService.verifyDeliveryWithOTP(id, otp);
+      // COD: cash collected (defaults to the order amount)
+      const codAmount = codService.resolveCollectionAmount(order, codCollected);
+
+      const verifiedOrder = await deliveryVerificationService.verifyDeliveryWithOTP(
+        id,
+        otp,
+        { type: ActorType.AGENT, id: getUserId(req), agentId },
+        codAmount
+      );
+
+      // Update incentive campaign progress (credits count-target rewards)
+      try {
+        await incentiveService.recordDelivery(agentId);
+      } catch (incentiveError: any) {
+        console.error('[Verification Controller] Error updating incentive progress:', incentiveError?.message);
+      }
+
+      // COD: prompt a deposit once the agent's cash in hand reaches their limit
+      if (codAmount !== null) {
+        try {
+          await codService.promptDepositIfOverLimit(agentId);
+        } catch (codError: any) {
+          console.error('[Verification Controller] Error checking COD cash limit:', codError?.message);
+        }
+      }
 
       res.json({
         success: true,
@@ -82,6 +124,7 @@ export const verificationController = {
           status: verifiedOrder.status,
           verifiedAt: verifiedOrder.verifiedAt,
           verificationMethod: verifiedOrder.verificationMethod,
+          codCollected: codAmount,
         },
       });
     } catch (error: any) {
@@ -93,7 +136,7 @@ export const verificationController = {
   async verifyWithQR(req: Request, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const { qrCode } = req.body;
+      const { qrCode, codCollected } = req.body;
       const agentId = getAgentId(req);
       if (!agentId) {
         throw new AppError('Agent ID not found', 401);
@@ -103,6 +146,81 @@ export const verificationController = {
         throw new AppError('QR code is required', 400);
       }
 
+      // The COD collected is recorded against the QR code's order, so it must be this one
+      if (!String(qrCode).startsWith(`DELIVERY:${id}:`)) {
+        throw new AppError('QR code is not for this order', 400);
+      }
+
+      // Verify order is assigned to agent
+      const { prisma } = await import('../lib/prisma');
+      const order = await prisma.order.findUnique({
+        where: { id },
+      });
+
+      if (!order) {
+        throw new AppError('Order not found', 404);
+      }
+
+      if (order.agentId !== agentId) {
+        throw new AppError('Order not assigned to you', 403);
+      }
+
+      // COD: cash collected (defaults to the order amount)
+      const codAmount = codService.resolveCollectionAmount(order, codCollected);
+
+      const verifiedOrder = await deliveryVerificationService.verifyDeliveryWithQR(
+        qrCode,
+        { type: ActorType.AGENT, id: getUserId(req), agentId },
+        codAmount
+      );
+
+      // Update incentive campaign progress (credits count-target rewards)
+      try {
+        await incentiveService.recordDelivery(agentId);
+      } catch (incentiveError: any) {
+        console.error('[Verification Controller] Error updating incentive progress:', incentiveError?.message);
+      }
+
+      // COD: prompt a deposit once the agent's cash in hand reaches their limit
+      if (codAmount !== null) {
+        try {
+          await codService.promptDepositIfOverLimit(agentId);
+        } catch (codError: any) {
+          console.error('[Verification Controller] Error checking COD cash limit:', codError?.message);
+        }
+      }
+
+      res.json({
+        success: true,
+        message: 'Delivery verified successfully',
+        order: {
+          id: verifiedOrder.id,
+          status: verifiedOrder.status,
+          verifiedAt: verifiedOrder.verifiedAt,
+          verificationMethod: verifiedOrder.verificationMethod,
+          codCollected: codAmount,
+        },
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  },
+
+  // POST /api/agent/orders/:id/verify-pod - Verify delivery with a geotagged photo and/or signature (multipart)
+  async verifyWithProof(req: Request, res: Response, next: NextFunction) {
+    const files = (req.files || {}) as { [field: string]: Express.Multer.File[] };
+    const photo = files.photo?.[0];
+    const signature = files.signature?.[0];
+    let delivered = false; // Once the proof is stored the files are kept, whatever fails afterwards
+
+    try {
+      const { id } = req.params;
+      const { latitude, longitude, accuracy, capturedAt, recipientName, notes, codCollected } = req.body;
+      const agentId = getAgentId(req);
+      if (!agentId) {
+        throw new AppError('Agent ID not found', 401);
+      }
+
       // Verify order is assigned to agent
       const { prisma } = await import('../lib/prisma');
       const order = await prisma.order.findUnique({
@@ -117,7 +235,64 @@ export const verificationController = {
         throw new AppError('Order not assigned to you', 403);
       }
 
-      const verifiedOrder = await deliveryVerificationService.verifyDeliveryWithQR(qrCode);
+      // COD: cash collected (defaults to the order amount; multipart fields arrive as strings)
+      const codAmount = codService.resolveCollectionAmount(
+        order,
+        codCollected === undefined || codCollected === '' ? undefined : Number(codCollected)
+      );
+
+      const { order: verifiedOrder, proof } = await deliveryVerificationService.verifyDeliveryWithProof(
+        id,
+        agentId,
+        {
+          photoUrl: photo ? `/uploads/pod/${photo.filename}` : null,
+          signatureUrl: signature ? `/uploads/pod/${signature.filename}` : null,
+          latitude,
+          longitude,
+          accuracy,
+          capturedAt,
+          recipientName,
+          notes,
+        },
+        { type: ActorType.AGENT, id: getUserId(req), agentId },
+        codAmount
+      );
+      delivered = true;
+
+      // Update incentive campaign progress (credits count-target rewards)
+      try {
+        await incentiveService.recordDelivery(agentId);
+      } catch (incentiveError: any) {
+        console.error('[Verification Controller] Error updating incentive progress:', incentiveError?.message);
+      }
+
+      // COD: prompt a deposit once the agent's cash in hand reaches their limit
+      if (codAmount !== null) {
+        try {
+          await codService.promptDepositIfOverLimit(agentId);
+        } catch (codError: any) {
+          console.error('[Verification Controller] Error checking COD cash limit:', codError?.message);
+        }
+      }
+
+      // Notify partner via webhook
+      try {
+        await notifyPartner(order.partnerId, 'ORDER_POD_CAPTURED', id, verifiedOrder.status, {
+          verificationMethod: verifiedOrder.verificationMethod,
+          deliveredAt: verifiedOrder.deliveredAt,
+          proofOfDelivery: {
+            photoUrl: proof.photoUrl,
+            signatureUrl: proof.signatureUrl,
+            recipientName: proof.recipientName,
+            latitude: proof.latitude,
+            longitude: proof.longitude,
+            capturedAt: proof.capturedAt,
+            distanceFromDrop: proof.distanceFromDrop,
+          },
+        });
+      } catch (webhookError: any) {
+        console.error('[Verification Controller] Error notifying partner of proof of delivery:', webhookError?.message);
+      }
 
       res.json({
         success: true,
@@ -127,9 +302,14 @@ export const verificationController = {
           status: verifiedOrder.status,
           verifiedAt: verifiedOrder.verifiedAt,
           verificationMethod: verifiedOrder.verificationMethod,
+          codCollected: codAmount,
         },
+        proofOfDelivery: proof,
       });
     } catch (error: any) {
+      if (!delivered) {
+        removeUploadedFiles([photo, signature].filter((file): file is Express.Multer.File => !!file));
+      }
       next(error);
     }
   },
@@ -0,0 +1,193 @@
+import { Request, Response, NextFunction } from 'express';
+import { getPartnerId } from '../utils/role.util';
+import { webhookService, WebhookDeliveryStatus } from '../services/webhook.service';
+import { cacheService, cacheKeys } from '../services/cache.service';
+import { AppError } from '../utils/errors.util';
+import { getPagination } from '../utils/pagination.util';
+import { WEBHOOK_EVENTS } from '../lib/webhook';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED'];
+
+export const webhookController = {
+  // GET /api/partner/webhook/deliveries - List webhook deliveries
+  async getDeliveries(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const { status, event, orderId, endpointId } = req.query;
+      const { limit, offset } = getPagination(req.query);
+
+      if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        throw new AppError(`status must be one of ${DELIVERY_STATUSES.join(', ')}`, 400);
+      }
+
+      const result = await webhookService.listDeliveries({ partnerId }, {
+        status: status as WebhookDeliveryStatus | undefined,
+        event: event as string | undefined,
+        orderId: orderId as string | undefined,
+        endpointId: endpointId as string | undefined,
+        limit,
+        offset,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/webhook/deliveries/:id - Inspect a delivery (payload and last response)
+  async getDelivery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const delivery = await webhookService.getDelivery({ partnerId }, req.params.id);
+
+      res.json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/partner/webhook/deliveries/:id/redeliver - Manually redeliver a webhook
+  async redeliver(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const delivery = await webhookService.redeliver({ partnerId }, req.params.id);
+
+      res.json({
+        success: delivery.status === 'SUCCEEDED',
+        delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/partner/webhook/secret/rotate - Rotate the webhook signing secret
+  async rotateSecret(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const webhookSecret = await webhookService.rotateSecret(partnerId);
+
+      // Invalidate cache
+      await cacheService.invalidate(cacheKeys.partner.profile(partnerId));
+
+      res.json({
+        webhookSecret,
+        message: 'Webhook secret rotated successfully. Please update your signature verification with the new secret.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/webhook/events - List subscribable webhook events
+  async getEvents(req: Request, res: Response, next: NextFunction) {
+    try {
+      res.json({
+        events: WEBHOOK_EVENTS,
+        wildcards: ['*', 'ORDER_*'],
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // GET /api/partner/webhook/endpoints - List registered webhook endpoints
+  async getEndpoints(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const endpoints = await webhookService.listEndpoints(partnerId);
+
+      res.json({ endpoints });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/partner/webhook/endpoints - Register a webhook endpoint
+  async createEndpoint(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const endpoint = await webhookService.createEndpoint(partnerId, req.body);
+
+      res.status(201).json(endpoint);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // PUT /api/partner/webhook/endpoints/:id - Update URL, event filters or enable/disable
+  async updateEndpoint(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const endpoint = await webhookService.updateEndpoint(partnerId, req.params.id, req.body);
+
+      res.json(endpoint);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // DELETE /api/partner/webhook/endpoints/:id - Remove a webhook endpoint
+  async deleteEndpoint(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      await webhookService.deleteEndpoint(partnerId, req.params.id);
+
+      res.json({ success: true, message: 'Webhook endpoint deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  // POST /api/partner/webhook/endpoints/:id/test - Send a test event to an endpoint
+  async sendTestEvent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerId = getPartnerId(req);
+      if (!partnerId) {
+        return res.status(404).json({ error: 'Partner profile not found' });
+      }
+
+      const delivery = await webhookService.sendTestEvent(partnerId, req.params.id);
+
+      res.json({
+        success: delivery.status === 'SUCCEEDED',
+        delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
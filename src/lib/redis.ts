@@ -161,7 +161,13 @@ export const redisGeo = {
     try {
       const client = getRedisClient();
       if (!client) return null;
-      return await client.geoadd('agents_locations', longitude, latitude, agentId);
+      // The GEO set has no timestamps; keep when each position was reported alongside it
+      const [geoadd] = (await client
+        .multi()
+        .geoadd('agents_locations', longitude, latitude, agentId)
+        .hset('agents_locations_updated_at', agentId, Date.now().toString())
+        .exec()) || [];
+      return geoadd ? geoadd[1] : null;
     } catch (error) {
       console.error('Error adding agent location to Redis:', error);
       return null;
@@ -200,6 +206,33 @@ export const redisGeo = {
     }
   },
 
+  // Get an agent's latest location (null when unknown or Redis is unavailable)
+  // updatedAt is null for positions stored before report times were kept
+  getAgentLocation: async (
+    agentId: string
+  ): Promise<{ latitude: number; longitude: number; updatedAt: Date | null } | null> => {
+    if (!isRedisConnected()) {
+      return null;
+    }
+    try {
+      const client = getRedisClient();
+      if (!client) return null;
+      const [[position], updatedAt] = await Promise.all([
+        client.geopos('agents_locations', agentId),
+        client.hget('agents_locations_updated_at', agentId),
+      ]);
+      if (!position) return null;
+      return {
+        longitude: parseFloat(position[0] as string),
+        latitude: parseFloat(position[1] as string),
+        updatedAt: updatedAt ? new Date(parseInt(updatedAt, 10)) : null,
+      };
+    } catch (error) {
+      console.error('Error getting agent location from Redis:', error);
+      return null;
+    }
+  },
+
   // Remove agent location
   removeAgentLocation: async (agentId: string) => {
     if (!isRedisConnected()) {
@@ -209,6 +242,7 @@ export const redisGeo = {
     try {
       const client = getRedisClient();
       if (!client) return null;
+      await client.hdel('agents_locations_updated_at', agentId);
       return await client.zrem('agents_locations', agentId);
     } catch (error) {
       console.error('Error removing agent location from Redis:', error);
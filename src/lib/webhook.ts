@@ -1,28 +1,145 @@
 import axios from 'axios';
+import crypto from 'crypto';
+import { OrderStatus } from '@prisma/client';
 
 export interface WebhookPayload {
   event: string;
-  orderId: string;
-  status: string;
+  orderId?: string; // Set for order events
+  externalRef?: string | null; // Partner's own reference for the order (order events)
+  status?: string; // Order status for order events
   timestamp: string;
   data?: any;
 }
 
+/**
+ * Events partners can subscribe webhook endpoints to
+ * Order status events follow the `ORDER_${status}` convention
+ */
+export const WEBHOOK_EVENTS: string[] = [
+  'ORDER_CREATED',
+  'ORDER_UPDATED',
+  ...Object.values(OrderStatus).map((status) => `ORDER_${status}`),
+  'ORDER_POD_CAPTURED',
+  'INVOICE_GENERATED',
+  'WALLET_LOW_BALANCE',
+  'RTO_CREATED',
+  'WEBHOOK_TEST',
+];
+
+/**
+ * Events sent to logistics providers for Leg 2 (warehouse) handoffs
+ */
+export const LOGISTICS_PROVIDER_WEBHOOK_EVENTS: string[] = [
+  'ORDER_AT_ORIGIN_WAREHOUSE',
+  'ORDER_AT_WAREHOUSE',
+  'DESTINATION_WAREHOUSE_CHANGED',
+  'RTO_CREATED',
+];
+
+/**
+ * Check whether an endpoint's event filters match an event
+ * Supports "*" (all events) and prefix wildcards such as "ORDER_*"
+ */
+export const matchesWebhookEvent = (filters: string[], event: string): boolean => {
+  return filters.some((filter) => {
+    if (filter === '*') return true;
+    if (filter.endsWith('*')) return event.startsWith(filter.slice(0, -1));
+    return filter === event;
+  });
+};
+
+/**
+ * Check whether an event filter is valid (known event or wildcard)
+ */
+export const isValidWebhookEventFilter = (filter: string): boolean => {
+  if (filter === '*') return true;
+  if (filter.endsWith('*')) {
+    const prefix = filter.slice(0, -1);
+    return WEBHOOK_EVENTS.some((event) => event.startsWith(prefix));
+  }
+  return WEBHOOK_EVENTS.includes(filter);
+};
+
+export interface WebhookSendOptions {
+  secret?: string | null; // HMAC secret used to sign the body
+  deliveryId?: string; // Delivery record ID (sent as a header for deduplication)
+}
+
+export interface WebhookSendResult {
+  success: boolean;
+  statusCode?: number;
+  responseBody?: string;
+  error?: string;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Delivio-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Delivio-Timestamp';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Delivio-Delivery-Id';
+export const WEBHOOK_EVENT_HEADER = 'X-Delivio-Event';
+
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/**
+ * Sign a webhook body
+ * Signature = HMAC-SHA256(secret, `${timestamp}.${body}`) as hex
+ * Partners verify by recomputing it from the timestamp header and raw body
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+): string => {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+};
+
 /**
  * Send webhook notification to partner
+ * Never throws - the outcome is returned so callers can record and retry it
  */
 export const sendWebhook = async (
   webhookUrl: string,
-  payload: WebhookPayload
-): Promise<void> => {
+  payload: WebhookPayload,
+  options: WebhookSendOptions = {}
+): Promise<WebhookSendResult> => {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'DeliveryNetwork/1.0',
+    [WEBHOOK_EVENT_HEADER]: payload.event,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  };
+
+  if (options.secret) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${signWebhookPayload(options.secret, timestamp, body)}`;
+  }
+  if (options.deliveryId) {
+    headers[WEBHOOK_DELIVERY_HEADER] = options.deliveryId;
+  }
+
   try {
-    await axios.post(webhookUrl, payload, {
+    const response = await axios.post(webhookUrl, body, {
       timeout: 5000, // 5 second timeout
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'DeliveryNetwork/1.0',
-      },
+      headers,
+      // Treat every HTTP status as a response so non-2xx can be recorded
+      validateStatus: () => true,
+      // Body is already serialized (it must match the signature byte for byte)
+      transformRequest: [(data) => data],
     });
+
+    const responseBody = typeof response.data === 'string'
+      ? response.data
+      : JSON.stringify(response.data ?? '');
+
+    return {
+      success: response.status >= 200 && response.status < 300,
+      statusCode: response.status,
+      responseBody: responseBody.substring(0, MAX_RESPONSE_BODY_LENGTH),
+    };
   } catch (error: any) {
     // Log error but don't throw - webhook failures shouldn't break the flow
     console.error('Webhook delivery failed:', {
@@ -30,11 +147,16 @@ export const sendWebhook = async (
       event: payload.event,
       error: error.message,
     });
+    return {
+      success: false,
+      error: error.message,
+    };
   }
 };
 
 /**
  * Notify partner about order status change
+ * The notification is persisted as a webhook delivery and retried with backoff on failure
  */
 export const notifyPartner = async (
   partnerId: string,
@@ -44,16 +166,7 @@ export const notifyPartner = async (
   additionalData?: any
 ): Promise<void> => {
   try {
-    const { prisma } = await import('./prisma');
-    
-    const partner = await prisma.partner.findUnique({
-      where: { id: partnerId },
-      select: { webhookUrl: true },
-    });
-
-    if (!partner || !partner.webhookUrl) {
-      return; // No webhook configured
-    }
+    const { webhookService } = await import('../services/webhook.service');
 
     const payload: WebhookPayload = {
       event,
@@ -63,34 +176,57 @@ export const notifyPartner = async (
       data: additionalData,
     };
 
-    await sendWebhook(partner.webhookUrl, payload);
+    await webhookService.dispatch(partnerId, payload);
   } catch (error) {
     console.error('Failed to notify partner:', error);
   }
 };
 
+/**
+ * Notify partner about a non-order event (invoices, wallet, etc.)
+ */
+export const notifyPartnerEvent = async (
+  partnerId: string,
+  event: string,
+  data?: any,
+  orderId?: string
+): Promise<void> => {
+  try {
+    const { webhookService } = await import('../services/webhook.service');
 
+    await webhookService.dispatch(partnerId, {
+      event,
+      orderId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+  } catch (error) {
+    console.error('Failed to notify partner:', error);
+  }
+};
 
+/**
+ * Notify logistics provider about a Leg 2 handoff (order at warehouse, destination change, RTO)
+ * Delivered to the provider's webhookUrl, signed with its own secret and retried like partner webhooks
+ */
+export const notifyLogisticsProvider = async (
+  logisticsProviderId: string,
+  event: string,
+  orderId: string,
+  status: string,
+  additionalData?: any
+): Promise<void> => {
+  try {
+    const { webhookService } = await import('../services/webhook.service');
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+    await webhookService.dispatchToProvider(logisticsProviderId, {
+      event,
+      orderId,
+      status,
+      timestamp: new Date().toISOString(),
+      data: additionalData,
+    });
+  } catch (error) {
+    console.error('Failed to notify logistics provider:', error);
+  }
+};
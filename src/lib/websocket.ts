@@ -120,6 +120,13 @@ export function initializeWebSocket(httpServer: HTTPServer): SocketIOServer {
       }
 
       console.log(`[WebSocket] Agent ${agentId} rejecting order ${data.orderId}`);
+
+      try {
+        const { offerService } = await import('../services/offer.service');
+        await offerService.reject(data.orderId, agentId);
+      } catch (error) {
+        console.error(`[WebSocket] Failed to record rejection of order ${data.orderId}:`, error);
+      }
     });
 
     // Handle agent location updates via WebSocket (more efficient than HTTP)
@@ -220,6 +227,20 @@ export async function sendOrderOfferToAgent(agentId: string, orderData: any): Pr
   console.log(`[WebSocket] Order offer sent to agent ${agentId}`);
 }
 
+/**
+ * Tell an agent their offer is no longer open (expired, or withdrawn because the order was taken)
+ */
+export async function sendOrderOfferClosedToAgent(agentId: string, offerData: any): Promise<void> {
+  if (!io) {
+    return;
+  }
+
+  io.to(`agent:${agentId}`).emit('order:offer-closed', {
+    offer: offerData,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 /**
  * Broadcast order assignment to partner
  */
@@ -269,3 +290,33 @@ export async function notifyAgentOrderStatusUpdate(agentId: string, orderData: a
 }
 
 
+
+/**
+ * Prompt an agent to deposit COD cash (cash in hand at or over their limit)
+ */
+export async function sendCashDepositPromptToAgent(agentId: string, cashData: any): Promise<void> {
+  if (!io) {
+    return;
+  }
+
+  io.to(`agent:${agentId}`).emit('cod:deposit-required', {
+    cod: cashData,
+    timestamp: new Date().toISOString(),
+  });
+
+  console.log(`[WebSocket] COD deposit prompt sent to agent ${agentId}`);
+}
+
+/**
+ * Tell an agent a geofence override was approved, rejected or granted
+ */
+export async function sendGeofenceOverrideUpdateToAgent(agentId: string, overrideData: any): Promise<void> {
+  if (!io) {
+    return;
+  }
+
+  io.to(`agent:${agentId}`).emit('geofence:override-updated', {
+    override: overrideData,
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
-import { prisma } from '../lib/prisma';
-import { UnauthorizedError } from '../utils/errors.util';
+import { PartnerCategory } from '@prisma/client';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors.util';
+import { apiKeyService, ApiKeyScope } from '../services/api-key.service';
 
 declare global {
   namespace Express {
@@ -10,6 +11,9 @@ declare global {
         partnerId: string;
         companyName: string;
         isActive: boolean;
+        category: PartnerCategory;
+        apiKeyId: string;
+        scopes: string[];
       };
     }
   }
@@ -36,23 +40,9 @@ export const authenticateApiKey = async (
       return next(new UnauthorizedError('API key is required'));
     }
 
-    // Find partner by API key
-    const partner = await prisma.partner.findUnique({
-      where: { apiKey },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    });
-
-    if (!partner) {
-      return next(new UnauthorizedError('Invalid API key'));
-    }
+    // Find partner by API key (rejects unknown, revoked and expired keys)
+    const key = await apiKeyService.authenticate(apiKey);
+    const partner = key.partner;
 
     if (!partner.isActive) {
       return next(new UnauthorizedError('Partner account is not active'));
@@ -64,6 +54,9 @@ export const authenticateApiKey = async (
       partnerId: partner.id,
       companyName: partner.companyName,
       isActive: partner.isActive,
+      category: partner.category,
+      apiKeyId: key.id,
+      scopes: key.scopes,
     };
 
     next();
@@ -72,6 +65,25 @@ export const authenticateApiKey = async (
   }
 };
 
+/**
+ * Middleware to require API key scopes on a partner API route
+ * Must run after authenticateApiKey
+ */
+export const requireApiScope = (...scopes: ApiKeyScope[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.partner) {
+      return next(new UnauthorizedError('API key is required'));
+    }
+
+    const missing = scopes.filter((scope) => !req.partner!.scopes.includes(scope));
+    if (missing.length > 0) {
+      return next(new ForbiddenError(`API key is missing required scope: ${missing.join(', ')}`));
+    }
+
+    next();
+  };
+};
+
 
 
 
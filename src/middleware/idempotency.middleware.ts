@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { getPartnerId } from '../utils/role.util';
+import { ValidationError } from '../utils/errors.util';
+import {
+  idempotencyService,
+  hashIdempotentRequest,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from '../services/idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Middleware to honor the Idempotency-Key header on partner order mutations
+ * Must run after authentication (JWT or API key) and before body validation,
+ * so the raw request body is what gets compared between repeats
+ * Requests without the header are processed normally
+ */
+export const idempotent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const key = req.header(IDEMPOTENCY_KEY_HEADER);
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return next(new ValidationError(`${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`));
+    }
+
+    // API key requests carry req.partner, dashboard requests carry req.user
+    const partnerId = req.partner?.partnerId || getPartnerId(req);
+    if (!partnerId) {
+      return next();
+    }
+
+    const path = req.originalUrl.split('?')[0];
+    const requestHash = hashIdempotentRequest(req.method, path, req.body);
+    const claim = await idempotencyService.claim(partnerId, key, requestHash);
+
+    if (claim.replay) {
+      res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return res.status(claim.replay.statusCode).json(claim.replay.body);
+    }
+
+    const recordId = claim.recordId!;
+    let responseBody: any;
+
+    // Capture the body the handler (or error middleware) sends
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    let settled = false;
+    const settle = (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+
+      // Server errors and aborted requests release the key so the client can retry
+      const store = finished && res.statusCode < 500 && responseBody !== undefined;
+      const operation = store
+        ? idempotencyService.complete(recordId, res.statusCode, responseBody)
+        : idempotencyService.release(recordId);
+
+      operation.catch((error) => {
+        console.error('[Idempotency] Failed to record response:', error);
+      });
+    };
+
+    res.on('finish', () => settle(true));
+    res.on('close', () => settle(res.writableFinished));
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { TooManyRequestsError, UnauthorizedError } from '../utils/errors.util';
+import {
+  rateLimitService,
+  getRateLimitForCategory,
+  RATE_LIMIT_WINDOW_SECONDS,
+} from '../services/rate-limit.service';
+
+/**
+ * Middleware to rate limit partner API requests per API key and route
+ * Must run after authenticateApiKey and be attached to individual routes,
+ * so the matched route pattern (e.g. /orders/:id) is used as the bucket key
+ * Sets the RateLimit-* headers on every response and counts daily usage
+ */
+export const rateLimitApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.partner) {
+      return next(new UnauthorizedError('API key is required'));
+    }
+
+    const route = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+    const limit = getRateLimitForCategory(req.partner.category);
+    const result = await rateLimitService.consume(req.partner.apiKeyId, route, limit);
+
+    res.setHeader('RateLimit-Limit', result.limit);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+    res.setHeader('RateLimit-Reset', result.resetSeconds);
+    res.setHeader('RateLimit-Policy', `${result.limit};w=${RATE_LIMIT_WINDOW_SECONDS}`);
+
+    rateLimitService.recordUsage(req.partner.partnerId, !result.allowed).catch((error) => {
+      console.error('[Rate Limit] Failed to record usage:', error);
+    });
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', result.retryAfterSeconds);
+      return next(new TooManyRequestsError(
+        `Rate limit of ${result.limit} requests per minute exceeded for this API key and route. Retry in ${result.retryAfterSeconds}s.`
+      ));
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
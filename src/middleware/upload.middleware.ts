@@ -99,6 +99,51 @@ export const profileUpload = multer({
 // Single file upload middleware for profile pictures
 export const uploadProfilePicture = profileUpload.single('file');
 
+// Proof of delivery upload configuration (delivery photo and recipient signature)
+const podUploadsDir = path.join(process.cwd(), 'uploads', 'pod');
+if (!fs.existsSync(podUploadsDir)) {
+  fs.mkdirSync(podUploadsDir, { recursive: true });
+}
 
+const podStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, podUploadsDir);
+  },
+  filename: (req, file, cb) => {
+    // Generate unique filename: fieldname-timestamp-random.ext
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+    const ext = path.extname(file.originalname);
+    cb(null, `${file.fieldname}-${uniqueSuffix}${ext}`);
+  },
+});
 
+// File filter for proof of delivery - only images
+const podFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedMimes = [
+    'image/jpeg',
+    'image/jpg',
+    'image/png',
+    'image/webp',
+  ];
+
+  if (allowedMimes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only JPEG, PNG, and WebP images are allowed.'));
+  }
+};
+
+// Configure multer for proof of delivery
+export const podUpload = multer({
+  storage: podStorage,
+  fileFilter: podFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max file size
+  },
+});
 
+// Proof of delivery middleware: "photo" and/or "signature" image fields
+export const uploadProofOfDelivery = podUpload.fields([
+  { name: 'photo', maxCount: 1 },
+  { name: 'signature', maxCount: 1 },
+]);
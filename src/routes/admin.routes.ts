@@ -5,6 +5,12 @@ import { adminController } from '../controllers/admin.controller';
 import { billingController } from '../controllers/billing.controller';
 import { revenueController } from '../controllers/revenue.controller';
 import { walletController } from '../controllers/wallet.controller';
+import { pricingRuleController } from '../controllers/pricing-rule.controller';
+import { payStructureController } from '../controllers/pay-structure.controller';
+import { incentiveController } from '../controllers/incentive.controller';
+import { tripController } from '../controllers/trip.controller';
+import { codController } from '../controllers/cod.controller';
+import { geofenceController } from '../controllers/geofence.controller';
 
 const router = Router();
 
@@ -16,12 +22,47 @@ router.use(requireAdmin);
 router.get('/metrics/overview', adminController.getOverview);
 router.get('/metrics/orders', adminController.getOrderMetrics);
 router.get('/metrics/agents', adminController.getAgentMetrics);
+router.get('/metrics/surge', adminController.getSurgeMetrics);
 router.get('/metrics/partners', adminController.getPartnerMetrics);
 router.get('/metrics', adminController.getMetricsByCategory); // Supports ?byCategory=true
 router.get('/activity', adminController.getRecentActivity);
 
 // ==================== PRICING PROFILES ====================
 router.get('/pricing-profiles', adminController.getPricingProfiles);
+router.put('/pricing-profiles/:id', adminController.updatePricingProfile);
+router.put('/pricing-profiles/:id/rate-cards/:vehicleType', adminController.upsertRateCard);
+router.delete('/pricing-profiles/:id/rate-cards/:vehicleType', adminController.deleteRateCard);
+
+// ==================== PRICING RULES ====================
+router.get('/pricing-rules', pricingRuleController.getRules);
+router.post('/pricing-rules', pricingRuleController.createRule);
+router.post('/pricing-rules/preview', pricingRuleController.previewPricing);
+router.put('/pricing-rules/:id', pricingRuleController.updateRule);
+router.delete('/pricing-rules/:id', pricingRuleController.deleteRule);
+router.get('/holiday-calendars', pricingRuleController.getCalendars);
+router.post('/holiday-calendars', pricingRuleController.createCalendar);
+router.post('/holiday-calendars/:id/holidays', pricingRuleController.addHolidays);
+router.delete('/holiday-calendars/:id/holidays/:holidayId', pricingRuleController.deleteHoliday);
+
+// ==================== PAY STRUCTURES ====================
+router.get('/pay-structures', payStructureController.getStructures);
+router.post('/pay-structures', payStructureController.createStructure);
+router.post('/pay-structures/assign', payStructureController.assignStructure);
+router.put('/pay-structures/:id', payStructureController.updateStructure);
+
+// ==================== INCENTIVE CAMPAIGNS ====================
+router.get('/incentives', incentiveController.getCampaigns);
+router.post('/incentives', incentiveController.createCampaign);
+router.put('/incentives/:id', incentiveController.updateCampaign);
+router.get('/incentives/:id/progress', incentiveController.getCampaignProgress);
+
+// ==================== BATCHED TRIPS ====================
+router.get('/trips', tripController.getTrips);
+router.post('/trips', tripController.createTrip);
+router.post('/trips/batch', tripController.batchOrders);
+router.get('/trips/:id', tripController.getTrip);
+router.post('/trips/:id/assign', tripController.assignTrip);
+router.post('/trips/:id/cancel', tripController.cancelTrip);
 
 // ==================== AGENT MANAGEMENT ====================
 router.get('/agents', adminController.getAgents);
@@ -52,6 +93,11 @@ router.post('/orders/stop-all-timers', adminController.stopAllDeliveryTimers);
 // Generic order routes must come after specific routes
 router.get('/orders/:id', adminController.getOrderDetails);
 router.post('/orders/:id/reassign', adminController.reassignOrder);
+router.post('/orders/:id/assignment-dry-run', adminController.assignmentDryRun);
+router.get('/orders/:id/offers', adminController.getOrderOffers);
+router.get('/orders/:id/status-history', adminController.getOrderStatusHistory);
+router.post('/orders/:id/geofence-overrides', geofenceController.grantOverride);
+router.put('/orders/:id/destination-warehouse', adminController.updateDestinationWarehouse);
 router.post('/orders/:id/cancel', adminController.cancelOrder);
 
 // ==================== KYC VERIFICATION ====================
@@ -85,6 +131,20 @@ router.post('/payouts/process', walletController.processPayout);
 router.post('/payouts/process-all-weekly', walletController.processAllWeeklyPayouts);
 router.post('/payouts/process-all-monthly', walletController.processAllMonthlyPayouts);
 
+// ==================== COD RECONCILIATION ====================
+router.get('/cod/agents', codController.getCashInHand);
+router.get('/cod/over-limit', codController.getOverLimit);
+router.get('/cod/agents/:id', codController.getAgentCod);
+router.put('/cod/agents/:id/limit', codController.setAgentLimit);
+router.post('/cod/agents/:id/deposits', codController.recordDeposit);
+router.post('/cod/agents/:id/adjustments', codController.recordAdjustment);
+router.get('/cod/ledger', codController.getLedger);
+
+// ==================== GEOFENCE OVERRIDES ====================
+router.get('/geofence-overrides', geofenceController.getOverrides);
+router.post('/geofence-overrides/:id/approve', geofenceController.approveOverride);
+router.post('/geofence-overrides/:id/reject', geofenceController.rejectOverride);
+
 // ==================== SETTINGS ====================
 router.get('/settings', adminController.getSettings);
 router.put('/settings', adminController.updateSettings);
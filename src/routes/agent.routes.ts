@@ -7,7 +7,11 @@ import { scanningController } from '../controllers/scanning.controller';
 import { verificationController } from '../controllers/verification.controller';
 import { scheduleController } from '../controllers/schedule.controller';
 import { walletController } from '../controllers/wallet.controller';
-import { uploadSingle } from '../middleware/upload.middleware';
+import { incentiveController } from '../controllers/incentive.controller';
+import { tripController } from '../controllers/trip.controller';
+import { codController } from '../controllers/cod.controller';
+import { geofenceController } from '../controllers/geofence.controller';
+import { uploadSingle, uploadProofOfDelivery } from '../middleware/upload.middleware';
 import {
   updateLocationSchema,
   updateStatusSchema,
@@ -44,7 +48,9 @@ router.get('/my-orders', requireAgent, agentController.getMyOrders);
 router.get('/orders/:id', requireAgent, agentController.getOrderDetails);
 router.post('/orders/:id/accept', requireAgent, agentController.acceptOrder);
 router.post('/orders/:id/reject', requireAgent, agentController.rejectOrder);
+router.get('/offers', requireAgent, agentController.getOffers);
 router.put('/orders/:id/status', requireAgent, validate(updateOrderStatusSchema), agentController.updateOrderStatus);
+router.post('/orders/:id/geofence-overrides', requireAgent, geofenceController.requestOverride);
 
 // Agent document management
 router.get('/documents', requireAgent, agentController.getDocuments);
@@ -75,6 +81,18 @@ router.post('/scan/pickup-otp', requireAgent, scanningController.verifyPickupWit
 router.post('/orders/:id/generate-verification', requireAgent, verificationController.generateVerification);
 router.post('/orders/:id/verify-otp', requireAgent, verificationController.verifyWithOTP);
 router.post('/orders/:id/verify-qr', requireAgent, verificationController.verifyWithQR);
+router.post('/orders/:id/verify-pod', requireAgent, (req, res, next) => {
+  uploadProofOfDelivery(req, res, (err) => {
+    if (err) {
+      // Handle multer errors
+      if (err instanceof Error) {
+        return res.status(400).json({ error: err.message });
+      }
+      return res.status(400).json({ error: 'File upload error' });
+    }
+    next();
+  });
+}, verificationController.verifyWithProof);
 router.get('/orders/:id/verification', requireAgent, verificationController.getVerification);
 
 // Payments & Payroll - REMOVED: Agents now see earnings directly in wallet
@@ -89,5 +107,14 @@ router.get('/orders/:id/verification', requireAgent, verificationController.getV
     router.get('/wallet', requireAgent, walletController.getAgentWallet);
     router.get('/wallet/transactions', requireAgent, walletController.getAgentWalletTransactions);
     router.get('/payouts', requireAgent, walletController.getAgentPayouts);
+    router.get('/cod', requireAgent, codController.getMyCod);
+
+    // Incentive campaigns
+    router.get('/incentives', requireAgent, incentiveController.getMyCampaigns);
+
+    // Batched trips
+    router.get('/trips/current', requireAgent, tripController.getCurrentTrip);
+    router.post('/trips/:id/stops/:stopId/arrive', requireAgent, tripController.arriveAtStop);
+    router.get('/route', requireAgent, tripController.getRoute);
 
     export default router;
\ No newline at end of file
@@ -3,7 +3,7 @@ import { logisticsProviderController } from '../controllers/logistics-provider.c
 import { authenticate } from '../middleware/auth.middleware';
 import { requireLogisticsProvider } from '../middleware/role.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { createWarehouseSchema, updateWarehouseSchema, createLogisticsAgentSchema, updateLogisticsAgentSchema, updateTransitStatusSchema, markReadyForPickupSchema } from '../utils/validation.schemas';
+import { createWarehouseSchema, updateWarehouseSchema, createLogisticsAgentSchema, updateLogisticsAgentSchema, updateTransitStatusSchema, markReadyForPickupSchema, updateWebhookSchema } from '../utils/validation.schemas';
 
 const router = Router();
 
@@ -17,6 +17,13 @@ router.use(requireLogisticsProvider);
 // Profile
 router.get('/profile', logisticsProviderController.getProfile);
 
+// Webhooks (Leg 2 handoff events)
+router.put('/webhook', validate(updateWebhookSchema), logisticsProviderController.updateWebhook);
+router.post('/webhook/secret/rotate', logisticsProviderController.rotateWebhookSecret);
+router.get('/webhook/deliveries', logisticsProviderController.getWebhookDeliveries);
+router.get('/webhook/deliveries/:id', logisticsProviderController.getWebhookDelivery);
+router.post('/webhook/deliveries/:id/redeliver', logisticsProviderController.redeliverWebhook);
+
 // Dashboard
 router.get('/dashboard', logisticsProviderController.getDashboard);
 
@@ -35,6 +42,7 @@ router.get('/agents', logisticsProviderController.getAgents);
 router.post('/agents', validate(createLogisticsAgentSchema), logisticsProviderController.createAgent);
 router.put('/agents/:id', validate(updateLogisticsAgentSchema), logisticsProviderController.updateAgent);
 router.put('/agents/:id/status', logisticsProviderController.updateAgentStatus);
+router.get('/agents/:id/route', logisticsProviderController.getAgentRoute);
 router.delete('/agents/:id', logisticsProviderController.deleteAgent);
 
 // Scanning
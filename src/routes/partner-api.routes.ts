@@ -1,20 +1,52 @@
 import { Router } from 'express';
-import { authenticateApiKey } from '../middleware/apiKey.middleware';
+import { authenticateApiKey, requireApiScope } from '../middleware/apiKey.middleware';
 import { validate } from '../middleware/validation.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
+import { rateLimitApiKey } from '../middleware/rateLimit.middleware';
 import { partnerController } from '../controllers/partner.controller';
-import { createOrderSchema } from '../utils/validation.schemas';
+import { warehouseController } from '../controllers/warehouse.controller';
+import { restaurantController } from '../controllers/restaurant.controller';
+import { billingController } from '../controllers/billing.controller';
+import { quoteController } from '../controllers/quote.controller';
+import { createOrderSchema, updateOrderSchema, bulkOrderSchema, createQuoteSchema } from '../utils/validation.schemas';
 
 const router = Router();
 
 // External API routes - use API key authentication instead of JWT
 // These routes are for partners to integrate programmatically
 
-// All routes require API key authentication
+// All routes require API key authentication; each route is rate limited per key
+// (see rateLimit.middleware) and requires a key scope
 router.use(authenticateApiKey);
 
-// External order creation endpoint
-router.post('/orders', validate(createOrderSchema), partnerController.createOrderExternal);
-router.get('/orders/:id', partnerController.getOrderDetailsExternal);
+// Quotes (pass quoteId at order creation to lock the quoted price)
+router.post('/quotes', rateLimitApiKey, requireApiScope('orders:write'), validate(createQuoteSchema), quoteController.createQuote);
+router.get('/quotes/:id', rateLimitApiKey, requireApiScope('orders:read'), quoteController.getQuote);
+
+// Orders
+// Specific routes must come before generic /orders/:id routes
+// Create, bulk create and cancel honor the Idempotency-Key header
+router.post('/orders', rateLimitApiKey, requireApiScope('orders:write'), idempotent, validate(createOrderSchema), partnerController.createOrderExternal);
+router.post('/orders/bulk', rateLimitApiKey, requireApiScope('orders:write'), idempotent, validate(bulkOrderSchema), partnerController.createBulkOrders);
+router.get('/orders', rateLimitApiKey, requireApiScope('orders:read'), partnerController.getOrders);
+router.get('/orders/by-ref/:ref', rateLimitApiKey, requireApiScope('orders:read'), partnerController.getOrderByRefExternal);
+// Generic order routes must come after specific routes
+router.get('/orders/:id', rateLimitApiKey, requireApiScope('orders:read'), partnerController.getOrderDetailsExternal);
+router.get('/orders/:id/agent-location', rateLimitApiKey, requireApiScope('orders:read'), partnerController.getOrderAgentLocation);
+router.get('/orders/:id/proof-of-delivery', rateLimitApiKey, requireApiScope('orders:read'), partnerController.getProofOfDelivery);
+router.get('/orders/:id/status-history', rateLimitApiKey, requireApiScope('orders:read'), partnerController.getOrderStatusHistory);
+router.put('/orders/:id', rateLimitApiKey, requireApiScope('orders:write'), validate(updateOrderSchema), partnerController.updateOrder);
+router.post('/orders/:id/cancel', rateLimitApiKey, requireApiScope('orders:write'), idempotent, partnerController.cancelOrder);
+
+// Pickup/drop locations
+router.get('/warehouses', rateLimitApiKey, requireApiScope('orders:read'), warehouseController.getMyWarehouses);
+router.get('/warehouses/available-for-drop', rateLimitApiKey, requireApiScope('orders:read'), warehouseController.getAvailableDropWarehouses);
+router.get('/restaurants', rateLimitApiKey, requireApiScope('orders:read'), restaurantController.getMyRestaurants);
+router.get('/restaurants/available-for-pickup', rateLimitApiKey, requireApiScope('orders:read'), restaurantController.getAvailableRestaurants);
+
+// Invoices
+router.get('/invoices', rateLimitApiKey, requireApiScope('billing:read'), billingController.getPartnerInvoices);
+router.get('/invoices/:id', rateLimitApiKey, requireApiScope('billing:read'), billingController.getPartnerInvoice);
 
 export default router;
 
@@ -2,12 +2,17 @@ import { Router } from 'express';
 import { authenticate } from '../middleware/auth.middleware';
 import { requirePartner } from '../middleware/role.middleware';
 import { validate } from '../middleware/validation.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
 import { partnerController } from '../controllers/partner.controller';
 import { partnerPayoutController } from '../controllers/partner-payout.controller';
 import { warehouseController } from '../controllers/warehouse.controller';
 import { restaurantController } from '../controllers/restaurant.controller';
 import { billingController } from '../controllers/billing.controller';
-import { updateWebhookSchema, createOrderSchema, updateOrderSchema, bulkOrderSchema, deleteBulkOrdersSchema, createWarehouseSchema, updateWarehouseSchema, createRestaurantSchema, updateRestaurantSchema } from '../utils/validation.schemas';
+import { webhookController } from '../controllers/webhook.controller';
+import { apiKeyController } from '../controllers/api-key.controller';
+import { quoteController } from '../controllers/quote.controller';
+import { codController } from '../controllers/cod.controller';
+import { createQuoteSchema, createApiKeySchema, rotateApiKeySchema, updateWebhookSchema, createWebhookEndpointSchema, updateWebhookEndpointSchema, createOrderSchema, updateOrderSchema, bulkOrderSchema, deleteBulkOrdersSchema, createWarehouseSchema, updateWarehouseSchema, createRestaurantSchema, updateRestaurantSchema } from '../utils/validation.schemas';
 
 const router = Router();
 
@@ -19,19 +24,41 @@ router.use(requirePartner);
 router.get('/profile', partnerController.getProfile);
 router.get('/logistics-providers', partnerController.getLogisticsProviders);
 router.put('/webhook', validate(updateWebhookSchema), partnerController.updateWebhook);
-router.post('/regenerate-api-key', partnerController.regenerateApiKey);
+router.post('/webhook/secret/rotate', webhookController.rotateSecret);
+router.get('/webhook/deliveries', webhookController.getDeliveries);
+router.get('/webhook/deliveries/:id', webhookController.getDelivery);
+router.post('/webhook/deliveries/:id/redeliver', webhookController.redeliver);
+router.get('/webhook/events', webhookController.getEvents);
+router.get('/webhook/endpoints', webhookController.getEndpoints);
+router.post('/webhook/endpoints', validate(createWebhookEndpointSchema), webhookController.createEndpoint);
+router.put('/webhook/endpoints/:id', validate(updateWebhookEndpointSchema), webhookController.updateEndpoint);
+router.delete('/webhook/endpoints/:id', webhookController.deleteEndpoint);
+router.post('/webhook/endpoints/:id/test', webhookController.sendTestEvent);
+router.post('/regenerate-api-key', validate(rotateApiKeySchema), partnerController.regenerateApiKey);
+router.get('/api-keys', apiKeyController.getKeys);
+router.get('/api-keys/usage', apiKeyController.getUsage);
+router.post('/api-keys', validate(createApiKeySchema), apiKeyController.createKey);
+router.post('/api-keys/:id/rotate', validate(rotateApiKeySchema), apiKeyController.rotateKey);
+router.delete('/api-keys/:id', apiKeyController.revokeKey);
+
+// Price quotes (pass quoteId at order creation to lock the quoted price)
+router.post('/quotes', validate(createQuoteSchema), quoteController.createQuote);
+router.get('/quotes/:id', quoteController.getQuote);
 
 // Partner order routes
 // Specific routes must come before generic /orders/:id routes
-router.post('/orders', validate(createOrderSchema), partnerController.createOrder);
-router.post('/orders/bulk', validate(bulkOrderSchema), partnerController.createBulkOrders);
+// Create, bulk create and cancel honor the Idempotency-Key header
+router.post('/orders', idempotent, validate(createOrderSchema), partnerController.createOrder);
+router.post('/orders/bulk', idempotent, validate(bulkOrderSchema), partnerController.createBulkOrders);
 router.delete('/orders/bulk', validate(deleteBulkOrdersSchema), partnerController.deleteBulkOrders);
 router.get('/orders', partnerController.getOrders);
 // Generic order routes must come after specific routes
 router.get('/orders/:id', partnerController.getOrderDetails);
 router.get('/orders/:id/agent-location', partnerController.getOrderAgentLocation);
+router.get('/orders/:id/proof-of-delivery', partnerController.getProofOfDelivery);
+router.get('/orders/:id/status-history', partnerController.getOrderStatusHistory);
 router.put('/orders/:id', validate(updateOrderSchema), partnerController.updateOrder);
-router.post('/orders/:id/cancel', partnerController.cancelOrder);
+router.post('/orders/:id/cancel', idempotent, partnerController.cancelOrder);
 
 // Partner dashboard and analytics
 router.get('/dashboard', partnerController.getDashboardMetrics);
@@ -53,6 +80,7 @@ router.get('/invoices', billingController.getPartnerInvoices);
 router.get('/invoices/:id', billingController.getPartnerInvoice);
 router.post('/invoices/:id/acknowledge', billingController.acknowledgeInvoice);
 router.post('/invoices/:id/dispute', billingController.disputeInvoice);
+router.get('/cod/summary', codController.getPartnerSummary);
 
 // Wallet routes (for LOCAL_STORE partners)
 router.get('/wallet/balance', billingController.getWalletBalance);
@@ -44,7 +44,7 @@ async function migrateLogisticsProviders() {
           userId: partner.userId,
           companyName: partner.companyName,
           businessName: partner.businessName || partner.companyName,
-          apiKey: partner.apiKey,
+          apiKey: partner.apiKey || `lgp_${Date.now()}_${Math.random().toString(36).substring(7)}`,
           webhookUrl: partner.webhookUrl,
           isActive: partner.isActive,
           address: partner.address,
@@ -168,6 +168,7 @@ async function testAgentScoring() {
     console.log(`      Rating: ${scored.agent.rating || 'N/A'}`);
     console.log(`      Total Orders: ${scored.agent.totalOrders}`);
     console.log(`      Current Order: ${scored.agent.currentOrderId ? 'Yes' : 'No'}`);
+    console.log(`      Shift: ${scored.schedule.reason}`);
     console.log('');
   }
 
@@ -112,7 +112,8 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'Idempotent-Replayed'],
 };
 
 // Middleware
@@ -422,6 +423,104 @@ if (process.env.NODE_ENV === 'production' || process.env.ENABLE_DELAY_CHECKER ==
   }, 60000); // Check every minute
 }
 
+// Initialize periodic webhook retry worker (runs every 30 seconds)
+if (process.env.NODE_ENV === 'production' || process.env.ENABLE_WEBHOOK_RETRY === 'true') {
+  let webhookRetryRunning = false; // A slow run is not overlapped by the next tick
+  setInterval(() => {
+    if (webhookRetryRunning) {
+      return;
+    }
+    webhookRetryRunning = true;
+    (async () => {
+      try {
+        const { webhookService } = await import('./services/webhook.service');
+        await webhookService.processDueRetries();
+      } catch (error) {
+        console.error('[Server] Error in periodic webhook retry:', error);
+      } finally {
+        webhookRetryRunning = false;
+      }
+    })();
+  }, 30000); // Check every 30 seconds
+}
+
+// Initialize periodic cleanup of expired idempotency keys (runs every hour)
+if (process.env.NODE_ENV === 'production' || process.env.ENABLE_IDEMPOTENCY_CLEANUP === 'true') {
+  setInterval(() => {
+    (async () => {
+      try {
+        const { idempotencyService } = await import('./services/idempotency.service');
+        await idempotencyService.purgeExpired();
+      } catch (error) {
+        console.error('[Server] Error in periodic idempotency key cleanup:', error);
+      }
+    })();
+  }, 60 * 60 * 1000); // Check every hour
+}
+
+// Initialize periodic cleanup of expired, unused price quotes (runs every hour)
+if (process.env.NODE_ENV === 'production' || process.env.ENABLE_QUOTE_CLEANUP === 'true') {
+  setInterval(() => {
+    (async () => {
+      try {
+        const { quoteService } = await import('./services/quote.service');
+        await quoteService.purgeExpired();
+      } catch (error) {
+        console.error('[Server] Error in periodic quote cleanup:', error);
+      }
+    })();
+  }, 60 * 60 * 1000); // Check every hour
+}
+
+// Initialize periodic offer expiry - expired offers cascade to the next agents (runs every 10 seconds)
+if (process.env.NODE_ENV === 'production' || process.env.ENABLE_OFFER_EXPIRY === 'true') {
+  let offerExpiryRunning = false; // A slow run is not overlapped by the next tick
+  setInterval(() => {
+    if (offerExpiryRunning) {
+      return;
+    }
+    offerExpiryRunning = true;
+    (async () => {
+      try {
+        const { offerService } = await import('./services/offer.service');
+        await offerService.expireDueOffers();
+      } catch (error) {
+        console.error('[Server] Error in periodic offer expiry:', error);
+      } finally {
+        offerExpiryRunning = false;
+      }
+    })();
+  }, 10000); // Check every 10 seconds
+}
+
+// Initialize periodic order batching - nearby waiting orders become trips (runs every minute)
+if (process.env.NODE_ENV === 'production' || process.env.ENABLE_ORDER_BATCHING === 'true') {
+  setInterval(() => {
+    (async () => {
+      try {
+        const { tripService } = await import('./services/trip.service');
+        await tripService.batchPendingOrders();
+      } catch (error) {
+        console.error('[Server] Error in periodic order batching:', error);
+      }
+    })();
+  }, 60000); // Check every minute
+}
+
+// Initialize periodic settlement of ended incentive campaigns (runs every 15 minutes)
+if (process.env.NODE_ENV === 'production' || process.env.ENABLE_INCENTIVE_SETTLEMENT === 'true') {
+  setInterval(() => {
+    (async () => {
+      try {
+        const { incentiveService } = await import('./services/incentive.service');
+        await incentiveService.settleEndedCampaigns();
+      } catch (error) {
+        console.error('[Server] Error in periodic incentive settlement:', error);
+      }
+    })();
+  }, 15 * 60 * 1000); // Check every 15 minutes
+}
+
 // Initialize WebSocket server (skip on Vercel - not supported)
 if (!isVercel && httpServer) {
   initializeWebSocket(httpServer);
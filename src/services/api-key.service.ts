@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors.util';
+
+/**
+ * API Key Service - Named, scoped and rotatable partner API keys
+ *
+ * KEY RULES:
+ * - Only a SHA-256 hash of each key is stored; the key itself is returned once on creation
+ * - Each key carries scopes that the partner API enforces per route
+ * - Rotating a key issues a new one and lets the old one keep working for a grace period
+ * - Legacy plaintext Partner.apiKey values are moved to a hashed key the first time they are used
+ */
+
+export const API_KEY_SCOPES = ['orders:read', 'orders:write', 'billing:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const MAX_API_KEYS_PER_PARTNER = 10;
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+const API_KEY_PREFIX_LENGTH = 12;
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000; // Don't write lastUsedAt more than once a minute
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | Date | null;
+}
+
+// Fields safe to return to the partner (never the hash)
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Generate a new partner API key
+ */
+export const generateApiKey = (): string => {
+  return `pk_${crypto.randomBytes(24).toString('hex')}`;
+};
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export const hashApiKey = (apiKey: string): string => {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+};
+
+/**
+ * Look up a key (with its partner) by hash
+ */
+const findKeyByHash = (keyHash: string) => {
+  return prisma.partnerApiKey.findUnique({
+    where: { keyHash },
+    include: {
+      partner: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      },
+    },
+  });
+};
+
+/**
+ * Store a new key and return it with the full key (only time it is available)
+ */
+const insertKey = async (partnerId: string, input: ApiKeyInput) => {
+  const apiKey = generateApiKey();
+  const key = await prisma.partnerApiKey.create({
+    data: {
+      partnerId,
+      name: input.name,
+      prefix: apiKey.substring(0, API_KEY_PREFIX_LENGTH),
+      keyHash: hashApiKey(apiKey),
+      scopes: input.scopes,
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+    },
+    select: API_KEY_SELECT,
+  });
+
+  return { ...key, apiKey };
+};
+
+export const apiKeyService = {
+  /**
+   * Resolve the partner and key for an API key presented on a request
+   * Throws UnauthorizedError for unknown, revoked or expired keys
+   */
+  async authenticate(apiKey: string) {
+    const keyHash = hashApiKey(apiKey);
+
+    let key = await findKeyByHash(keyHash);
+
+    if (!key) {
+      // Legacy plaintext key - move it to hashed storage with full access
+      const legacyPartner = await prisma.partner.findUnique({
+        where: { apiKey },
+        select: { id: true },
+      });
+
+      if (legacyPartner) {
+        await this.migrateLegacyKey(legacyPartner.id, apiKey);
+        key = await findKeyByHash(keyHash);
+      }
+    }
+
+    if (!key) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    if (key.revokedAt) {
+      throw new UnauthorizedError('API key has been revoked');
+    }
+
+    if (key.expiresAt && key.expiresAt <= new Date()) {
+      throw new UnauthorizedError('API key has expired');
+    }
+
+    if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      prisma.partnerApiKey
+        .update({ where: { id: key.id }, data: { lastUsedAt: new Date() } })
+        .catch((error) => console.error('[API Keys] Failed to update lastUsedAt:', error));
+    }
+
+    return key;
+  },
+
+  /**
+   * Move a partner's legacy plaintext key into hashed storage
+   */
+  async migrateLegacyKey(partnerId: string, apiKey: string, expiresAt: Date | null = null) {
+    await prisma.$transaction([
+      prisma.partnerApiKey.upsert({
+        where: { keyHash: hashApiKey(apiKey) },
+        create: {
+          partnerId,
+          name: 'Default key',
+          prefix: apiKey.substring(0, API_KEY_PREFIX_LENGTH),
+          keyHash: hashApiKey(apiKey),
+          scopes: [...API_KEY_SCOPES],
+          expiresAt,
+        },
+        update: {},
+      }),
+      prisma.partner.update({
+        where: { id: partnerId },
+        data: { apiKey: null },
+      }),
+    ]);
+  },
+
+  /**
+   * List a partner's API keys (newest first)
+   */
+  async listKeys(partnerId: string) {
+    return prisma.partnerApiKey.findMany({
+      where: { partnerId },
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * Create an API key
+   * The returned apiKey is the only time the full key is available
+   */
+  async createKey(partnerId: string, input: ApiKeyInput) {
+    const activeKeys = await prisma.partnerApiKey.count({
+      where: {
+        partnerId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    if (activeKeys >= MAX_API_KEYS_PER_PARTNER) {
+      throw new ValidationError(`A partner can have at most ${MAX_API_KEYS_PER_PARTNER} active API keys`);
+    }
+
+    return insertKey(partnerId, input);
+  },
+
+  /**
+   * Issue a replacement for a key with the same name and scopes
+   * The old key keeps working until the grace period ends
+   */
+  async rotateKey(partnerId: string, keyId: string, gracePeriodHours: number = DEFAULT_ROTATION_GRACE_HOURS) {
+    const existing = await prisma.partnerApiKey.findFirst({
+      where: { id: keyId, partnerId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('API key not found');
+    }
+
+    if (existing.revokedAt || (existing.expiresAt && existing.expiresAt <= new Date())) {
+      throw new ValidationError('Only active API keys can be rotated');
+    }
+
+    const graceEndsAt = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000);
+    // Never extend an earlier expiry
+    const previousKeyExpiresAt = existing.expiresAt && existing.expiresAt < graceEndsAt
+      ? existing.expiresAt
+      : graceEndsAt;
+
+    const key = await insertKey(partnerId, {
+      name: existing.name,
+      scopes: existing.scopes as ApiKeyScope[],
+    });
+
+    await prisma.partnerApiKey.update({
+      where: { id: existing.id },
+      data: { expiresAt: previousKeyExpiresAt },
+    });
+
+    return { ...key, previousKeyExpiresAt };
+  },
+
+  /**
+   * Replace all of a partner's keys with a new full-access key
+   * Existing keys (including a legacy plaintext key) keep working for the grace period
+   */
+  async rotateAllKeys(partnerId: string, gracePeriodHours: number = DEFAULT_ROTATION_GRACE_HOURS) {
+    const graceEndsAt = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000);
+
+    const partner = await prisma.partner.findUnique({
+      where: { id: partnerId },
+      select: { apiKey: true },
+    });
+
+    if (!partner) {
+      throw new NotFoundError('Partner not found');
+    }
+
+    if (partner.apiKey) {
+      await this.migrateLegacyKey(partnerId, partner.apiKey, graceEndsAt);
+    }
+
+    await prisma.partnerApiKey.updateMany({
+      where: {
+        partnerId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: graceEndsAt } }],
+      },
+      data: { expiresAt: graceEndsAt },
+    });
+
+    const key = await insertKey(partnerId, {
+      name: 'Default key',
+      scopes: [...API_KEY_SCOPES],
+    });
+
+    return { ...key, previousKeysExpireAt: graceEndsAt };
+  },
+
+  /**
+   * Revoke an API key immediately
+   */
+  async revokeKey(partnerId: string, keyId: string) {
+    const existing = await prisma.partnerApiKey.findFirst({
+      where: { id: keyId, partnerId },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('API key not found');
+    }
+
+    if (existing.revokedAt) {
+      return prisma.partnerApiKey.findUniqueOrThrow({
+        where: { id: keyId },
+        select: API_KEY_SELECT,
+      });
+    }
+
+    return prisma.partnerApiKey.update({
+      where: { id: keyId },
+      data: { revokedAt: new Date() },
+      select: API_KEY_SELECT,
+    });
+  },
+};
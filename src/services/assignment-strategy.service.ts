@@ -0,0 +1,425 @@
+import { AssignmentStrategy, PartnerCategory, Prisma, VehicleType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ValidationError } from '../utils/errors.util';
+import { pricingService } from './pricing.service';
+
+/**
+ * Assignment Strategy Service - How nearby agents are ranked for an order
+ *
+ * RULES:
+ * - Every agent starts at 100 points; each weighted factor (scored 0-100) adds value * weight
+ * - priorityBoost is added for HIGH priority orders, busyPenalty is subtracted when the agent has a current order
+ * - The strategy comes from the partner's assignmentStrategy, else SystemSettings.assignmentStrategies
+ *   for the partner category, else the category default below
+ * - SystemSettings.assignmentWeights overrides individual weights per strategy
+ */
+
+export const ASSIGNMENT_FACTORS = [
+  'distance', // 0-1000m = 100 points, 50m = 1 point deduction
+  'acceptance', // Agent acceptance rate (0-100)
+  'rating', // Rating normalized to 0-100 (50 when unrated)
+  'experience', // 10 orders = 100 points
+  'payout', // $0.20 = 1 point, capped at 100
+  'partnerAffinity', // Deliveries for the same partner in the last 7 days, 5 = 100 points
+  'arrivalFit', // How close the agent's arrival is to the food being ready
+] as const;
+
+export const ASSIGNMENT_ADJUSTMENTS = ['priorityBoost', 'busyPenalty'] as const;
+
+export type AssignmentFactor = typeof ASSIGNMENT_FACTORS[number];
+export type AssignmentWeights = Partial<Record<AssignmentFactor | typeof ASSIGNMENT_ADJUSTMENTS[number], number>>;
+
+const PARTNER_AFFINITY_DAYS = 7;
+const DEFAULT_PREP_MINUTES = 15;
+const ARRIVAL_MISMATCH_POINTS_PER_MINUTE = 5;
+
+const STRATEGY_WEIGHTS: Record<AssignmentStrategy, AssignmentWeights> = {
+  BALANCED: { distance: 0.3, acceptance: 0.2, rating: 0.15, experience: 0.1, payout: 0.1, priorityBoost: 20, busyPenalty: 30 },
+  NEAREST: { distance: 1, busyPenalty: 30 },
+  BATCHING: {
+    distance: 0.2,
+    acceptance: 0.15,
+    rating: 0.1,
+    experience: 0.1,
+    payout: 0.05,
+    partnerAffinity: 0.4,
+    priorityBoost: 20,
+    busyPenalty: 30,
+  },
+  PREP_AWARE: { arrivalFit: 0.4, acceptance: 0.2, rating: 0.15, experience: 0.1, payout: 0.1, priorityBoost: 20, busyPenalty: 30 },
+};
+
+const STRATEGY_DESCRIPTIONS: Record<AssignmentStrategy, string> = {
+  BALANCED: 'Weighted distance, acceptance rate, rating, experience and payout',
+  NEAREST: 'Closest available agent',
+  BATCHING: 'Prefers agents who regularly pick up from the same partner',
+  PREP_AWARE: 'Prefers agents who arrive at the restaurant when the food is ready',
+};
+
+const CATEGORY_STRATEGIES: Partial<Record<PartnerCategory, AssignmentStrategy>> = {
+  QUICK_COMMERCE: AssignmentStrategy.NEAREST,
+  ECOMMERCE: AssignmentStrategy.BATCHING,
+  FOOD_DELIVERY: AssignmentStrategy.PREP_AWARE,
+};
+
+export interface CandidateAgent {
+  id: string;
+  acceptanceRate: number;
+  rating: number | null;
+  totalOrders: number;
+  currentOrderId: string | null;
+}
+
+export interface AssignmentContext {
+  pickupLat: number;
+  pickupLng: number;
+  payoutAmount: number;
+  priority: 'HIGH' | 'NORMAL' | 'LOW';
+  partnerId?: string | null;
+  vehicleType?: VehicleType | null;
+  readyAt?: Date | null; // When the order can be picked up (food prep)
+}
+
+export interface ResolvedAssignmentStrategy {
+  strategy: AssignmentStrategy;
+  source: 'REQUEST' | 'PARTNER' | 'SETTINGS' | 'DEFAULT';
+  weights: AssignmentWeights;
+}
+
+export interface FactorScore {
+  factor: string;
+  value: number; // 0-100 for factors, 0/1 for adjustments
+  weight: number;
+  points: number;
+}
+
+export interface StrategyScore {
+  score: number;
+  factors: FactorScore[];
+}
+
+interface AssignmentSettings {
+  strategies: Partial<Record<PartnerCategory, AssignmentStrategy>>;
+  weights: Partial<Record<AssignmentStrategy, AssignmentWeights>>;
+}
+
+const isStrategy = (value: unknown): value is AssignmentStrategy =>
+  typeof value === 'string' && Object.values(AssignmentStrategy).includes(value as AssignmentStrategy);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read assignment settings (empty when the settings row or columns are missing)
+ */
+const getAssignmentSettings = async (): Promise<AssignmentSettings> => {
+  try {
+    const settings = await prisma.systemSettings.findUnique({
+      where: { id: 'system' },
+      select: { assignmentStrategies: true, assignmentWeights: true },
+    });
+
+    return {
+      strategies: (settings?.assignmentStrategies as AssignmentSettings['strategies'] | null) || {},
+      weights: (settings?.assignmentWeights as AssignmentSettings['weights'] | null) || {},
+    };
+  } catch (error: any) {
+    if (error?.code === 'P2021' || error?.code === 'P2022' || error?.message?.includes('does not exist')) {
+      console.warn('[Assignment] Assignment settings not available - using default strategies');
+      return { strategies: {}, weights: {} };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Score one factor (0-100)
+ */
+const scoreFactor = (
+  factor: AssignmentFactor,
+  agent: CandidateAgent,
+  distance: number,
+  context: AssignmentContext,
+  partnerDeliveries: number
+): number => {
+  switch (factor) {
+    case 'distance':
+      return Math.max(0, 100 - distance / 50);
+    case 'acceptance':
+      return agent.acceptanceRate;
+    case 'rating':
+      return agent.rating ? (agent.rating / 5) * 100 : 50;
+    case 'experience':
+      return Math.min(100, (agent.totalOrders / 10) * 10);
+    case 'payout':
+      return Math.min(100, context.payoutAmount / 0.2);
+    case 'partnerAffinity':
+      return Math.min(100, partnerDeliveries * 20);
+    case 'arrivalFit': {
+      if (!context.readyAt) {
+        return 50;
+      }
+      const travelMinutes = pricingService.estimateEta(distance / 1000, context.vehicleType || undefined).travelMinutes;
+      const minutesUntilReady = Math.max(0, (context.readyAt.getTime() - Date.now()) / 60000);
+      return Math.max(0, 100 - Math.abs(travelMinutes - minutesUntilReady) * ARRIVAL_MISMATCH_POINTS_PER_MINUTE);
+    }
+  }
+};
+
+/**
+ * Validate weights for one strategy (factor or adjustment name -> non-negative number)
+ */
+const validateWeights = (strategy: string, weights: unknown): AssignmentWeights => {
+  if (!isPlainObject(weights)) {
+    throw new ValidationError(`assignment weights for ${strategy} must be an object`);
+  }
+
+  const names: string[] = [...ASSIGNMENT_FACTORS, ...ASSIGNMENT_ADJUSTMENTS];
+  for (const [name, weight] of Object.entries(weights)) {
+    if (!names.includes(name)) {
+      throw new ValidationError(`Unknown assignment weight ${name} (expected one of ${names.join(', ')})`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new ValidationError(`assignment weight ${strategy}.${name} must be a non-negative number`);
+    }
+  }
+
+  return weights as AssignmentWeights;
+};
+
+export const assignmentStrategyService = {
+  /**
+   * Strategies with their default weights
+   */
+  listStrategies() {
+    return Object.values(AssignmentStrategy).map((strategy) => ({
+      strategy,
+      description: STRATEGY_DESCRIPTIONS[strategy],
+      defaultWeights: STRATEGY_WEIGHTS[strategy],
+    }));
+  },
+
+  /**
+   * Effective assignment configuration: strategy per category and weights per strategy
+   */
+  async getConfig() {
+    const settings = await getAssignmentSettings();
+
+    const strategies = Object.fromEntries(
+      Object.values(PartnerCategory).map((category) => [
+        category,
+        settings.strategies[category] || CATEGORY_STRATEGIES[category] || AssignmentStrategy.BALANCED,
+      ])
+    ) as Record<PartnerCategory, AssignmentStrategy>;
+
+    const weights = Object.fromEntries(
+      Object.values(AssignmentStrategy).map((strategy) => [
+        strategy,
+        { ...STRATEGY_WEIGHTS[strategy], ...settings.weights[strategy] },
+      ])
+    ) as Record<AssignmentStrategy, AssignmentWeights>;
+
+    return { strategies, weights };
+  },
+
+  /**
+   * Validate an assignment settings update ({ strategies, weights }) into SystemSettings columns
+   * null clears the stored overrides; omitted keys are left unchanged
+   */
+  parseSettingsUpdate(input: unknown): {
+    assignmentStrategies?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+    assignmentWeights?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  } {
+    if (input === undefined) {
+      return {};
+    }
+    if (!isPlainObject(input)) {
+      throw new ValidationError('assignment must be an object');
+    }
+
+    const data: ReturnType<typeof assignmentStrategyService.parseSettingsUpdate> = {};
+
+    if (input.strategies === null) {
+      data.assignmentStrategies = Prisma.DbNull;
+    } else if (input.strategies !== undefined) {
+      if (!isPlainObject(input.strategies)) {
+        throw new ValidationError('assignment.strategies must be an object of category -> strategy');
+      }
+      for (const [category, strategy] of Object.entries(input.strategies)) {
+        if (!Object.values(PartnerCategory).includes(category as PartnerCategory)) {
+          throw new ValidationError(`Unknown partner category ${category}`);
+        }
+        if (!isStrategy(strategy)) {
+          throw new ValidationError(`assignment strategy must be one of ${Object.values(AssignmentStrategy).join(', ')}`);
+        }
+      }
+      data.assignmentStrategies = input.strategies as Prisma.InputJsonValue;
+    }
+
+    if (input.weights === null) {
+      data.assignmentWeights = Prisma.DbNull;
+    } else if (input.weights !== undefined) {
+      if (!isPlainObject(input.weights)) {
+        throw new ValidationError('assignment.weights must be an object of strategy -> weights');
+      }
+      for (const [strategy, weights] of Object.entries(input.weights)) {
+        if (!isStrategy(strategy)) {
+          throw new ValidationError(`assignment strategy must be one of ${Object.values(AssignmentStrategy).join(', ')}`);
+        }
+        validateWeights(strategy, weights);
+      }
+      data.assignmentWeights = input.weights as Prisma.InputJsonValue;
+    }
+
+    return data;
+  },
+
+  /**
+   * Resolve the strategy and weights for a partner / category
+   * requested (e.g. from an admin dry run) wins over the partner and category configuration
+   */
+  async resolve(
+    target: { partnerId?: string | null; category?: PartnerCategory | null },
+    requested?: AssignmentStrategy
+  ): Promise<ResolvedAssignmentStrategy> {
+    const settings = await getAssignmentSettings();
+
+    let strategy: AssignmentStrategy = AssignmentStrategy.BALANCED;
+    let source: ResolvedAssignmentStrategy['source'] = 'DEFAULT';
+
+    const partner = !requested && target.partnerId
+      ? await prisma.partner.findUnique({
+          where: { id: target.partnerId },
+          select: { assignmentStrategy: true, category: true },
+        })
+      : null;
+    const category = target.category || partner?.category;
+
+    if (requested) {
+      strategy = requested;
+      source = 'REQUEST';
+    } else if (partner?.assignmentStrategy) {
+      strategy = partner.assignmentStrategy;
+      source = 'PARTNER';
+    } else if (category && isStrategy(settings.strategies[category])) {
+      strategy = settings.strategies[category] as AssignmentStrategy;
+      source = 'SETTINGS';
+    } else if (category && CATEGORY_STRATEGIES[category]) {
+      strategy = CATEGORY_STRATEGIES[category] as AssignmentStrategy;
+    }
+
+    return {
+      strategy,
+      source,
+      weights: { ...STRATEGY_WEIGHTS[strategy], ...settings.weights[strategy] },
+    };
+  },
+
+  /**
+   * Default strategy when an order has no partner configuration (BALANCED with stored weights)
+   */
+  async resolveDefault(): Promise<ResolvedAssignmentStrategy> {
+    return this.resolve({});
+  },
+
+  /**
+   * Score candidate agents with a resolved strategy
+   */
+  async scoreCandidates(
+    candidates: Array<{ agent: CandidateAgent; distance: number }>,
+    context: AssignmentContext,
+    resolved: ResolvedAssignmentStrategy
+  ): Promise<Map<string, StrategyScore>> {
+    const { weights } = resolved;
+
+    // Partner affinity needs each agent's recent deliveries for the partner
+    const partnerDeliveries = new Map<string, number>();
+    if (weights.partnerAffinity && context.partnerId && candidates.length > 0) {
+      const since = new Date(Date.now() - PARTNER_AFFINITY_DAYS * 24 * 60 * 60 * 1000);
+      const counts = await prisma.order.groupBy({
+        by: ['agentId'],
+        where: {
+          partnerId: context.partnerId,
+          agentId: { in: candidates.map(({ agent }) => agent.id) },
+          status: 'DELIVERED',
+          deliveredAt: { gte: since },
+        },
+        _count: { _all: true },
+      });
+      for (const row of counts) {
+        if (row.agentId) {
+          partnerDeliveries.set(row.agentId, row._count._all);
+        }
+      }
+    }
+
+    const scores = new Map<string, StrategyScore>();
+    for (const { agent, distance } of candidates) {
+      const factors: FactorScore[] = [];
+
+      for (const factor of ASSIGNMENT_FACTORS) {
+        const weight = weights[factor];
+        if (!weight) {
+          continue;
+        }
+        const value = scoreFactor(factor, agent, distance, context, partnerDeliveries.get(agent.id) || 0);
+        factors.push({ factor, value: round(value), weight, points: round(value * weight) });
+      }
+
+      if (weights.priorityBoost && context.priority === 'HIGH') {
+        factors.push({ factor: 'priorityBoost', value: 1, weight: weights.priorityBoost, points: weights.priorityBoost });
+      }
+      if (weights.busyPenalty && agent.currentOrderId) {
+        factors.push({ factor: 'busyPenalty', value: 1, weight: weights.busyPenalty, points: -weights.busyPenalty });
+      }
+
+      const score = 100 + factors.reduce((sum, factor) => sum + factor.points, 0);
+      scores.set(agent.id, { score: Math.max(0, score), factors });
+    }
+
+    return scores;
+  },
+
+  /**
+   * Resolve the strategy for an order and build the order-specific scoring context
+   * Food orders are ready at the pickup window, else createdAt + the restaurant's prepTimeMinutes
+   */
+  async resolveForOrder(orderId: string, requested?: AssignmentStrategy) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        partnerId: true,
+        partnerCategory: true,
+        vehicleType: true,
+        pickupWindow: true,
+        createdAt: true,
+        pickupRestaurant: { select: { metadata: true } },
+      },
+    });
+
+    const resolved = await this.resolve(
+      { partnerId: order?.partnerId, category: order?.partnerCategory },
+      requested
+    );
+
+    let readyAt: Date | null = null;
+    if (order?.pickupWindow) {
+      readyAt = order.pickupWindow;
+    } else if (order?.pickupRestaurant) {
+      const metadata = order.pickupRestaurant.metadata as { prepTimeMinutes?: unknown } | null;
+      const prepMinutes = typeof metadata?.prepTimeMinutes === 'number' ? metadata.prepTimeMinutes : DEFAULT_PREP_MINUTES;
+      readyAt = new Date(order.createdAt.getTime() + prepMinutes * 60000);
+    }
+
+    return {
+      ...resolved,
+      context: {
+        partnerId: order?.partnerId ?? null,
+        vehicleType: order?.vehicleType ?? null,
+        readyAt,
+      },
+    };
+  },
+};
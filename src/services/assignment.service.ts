@@ -3,6 +3,31 @@ import { redisGeo } from '../lib/redis';
 import { notifyPartner } from '../lib/webhook';
 import { sendOrderOfferToAgent, notifyPartnerOrderAssigned } from '../lib/websocket';
 import { sendOrderOfferNotification, sendOrderAssignedNotification } from './fcm.service';
+import { getShiftCoverage, ShiftCoverage } from './schedule.service';
+import { pricingService } from './pricing.service';
+import { haversineDistance } from './geo.service';
+import {
+  assignmentStrategyService,
+  AssignmentContext,
+  CandidateAgent,
+  FactorScore,
+  ResolvedAssignmentStrategy,
+} from './assignment-strategy.service';
+import { ActorType, AssignmentStrategy, OrderStatus } from '@prisma/client';
+import { NotFoundError } from '../utils/errors.util';
+import { offerService } from './offer.service';
+import { codService, CashLimitStatus } from './cod.service';
+import { orderStateService } from './order-state.service';
+
+// Score bonus for agents whose declared shift covers the whole delivery
+const SHIFT_COVERAGE_BONUS = 15;
+
+// Offer cascade: widen the search by this factor when nobody new is in range, up to the max radius (meters)
+const RADIUS_EXPANSION_FACTOR = 2;
+const MAX_CASCADE_RADIUS = 20000;
+
+// Order statuses an agent can still be offered
+const ASSIGNABLE_STATUSES: string[] = ['SEARCHING_AGENT', 'AT_WAREHOUSE', 'READY_FOR_PICKUP'];
 
 /**
  * Agent scoring interface
@@ -11,13 +36,39 @@ interface AgentScore {
   agentId: string;
   distance: number; // in meters
   score: number; // calculated score (higher is better)
-  agent: {
-    id: string;
-    acceptanceRate: number;
-    rating: number | null;
-    totalOrders: number;
-    currentOrderId: string | null;
-  };
+  agent: CandidateAgent;
+  schedule: ShiftCoverage;
+  factors: FactorScore[]; // per-factor points from the assignment strategy
+}
+
+/**
+ * Agent in range that was not scored, and why (assignment debug output)
+ */
+interface AssignmentExclusion {
+  agentId: string;
+  distance: number; // in meters
+  reason: string;
+  schedule?: ShiftCoverage;
+}
+
+/**
+ * Assignment debug output: who was considered, how they scored, and who was left out
+ */
+interface AssignmentDebug {
+  strategy: AssignmentStrategy;
+  estimatedMinutes: number;
+  candidates: Array<{ agentId: string; distance: number; score: number; schedule: string }>;
+  excluded: AssignmentExclusion[];
+}
+
+/**
+ * Scoring options for findAndScoreAgents
+ */
+interface ScoringOptions {
+  estimatedMinutes?: number; // Delivery estimate checked against shift windows
+  excluded?: AssignmentExclusion[]; // Collects agents left out, with the reason
+  codAmount?: number | null; // COD to collect: agents at (or pushed over) their cash limit are left out
+  strategy?: ResolvedAssignmentStrategy & { context?: Partial<AssignmentContext> }; // Defaults to BALANCED
 }
 
 /**
@@ -29,96 +80,70 @@ interface AssignmentOptions {
   pickupLng: number;
   payoutAmount: number;
   priority?: 'HIGH' | 'NORMAL' | 'LOW';
-  maxRadius?: number; // in meters, default 5000 (5km)
-  maxAgentsToOffer?: number; // default 5
-  offerTimeout?: number; // in seconds, default 30
+  estimatedDuration?: number; // in minutes; defaults to the order's estimate (shift coverage)
+  maxRadius?: number; // in meters, defaults to SystemSettings.maxRadius (5000)
+  maxAgentsToOffer?: number; // agents per offer round, defaults to SystemSettings.maxAgentsToOffer (5)
+  offerTimeout?: number; // in seconds, defaults to SystemSettings.offerTimeout (30)
 }
 
 /**
- * Calculate agent score based on multiple factors
+ * Distance between two coordinates in meters (straight line)
  */
-function calculateAgentScore(
-  agent: {
-    acceptanceRate: number;
-    rating: number | null;
-    totalOrders: number;
-    currentOrderId: string | null;
-  },
-  distance: number, // in meters
-  payoutAmount: number,
-  priority: 'HIGH' | 'NORMAL' | 'LOW'
-): number {
-  // Base score starts at 100
-  let score = 100;
-
-  // Distance factor (shorter distance = higher score)
-  // Normalize distance: 0-1000m = 100 points, 1000-5000m = 50-100 points
-  const distanceScore = Math.max(0, 100 - (distance / 50)); // 50m = 1 point deduction
-  score += distanceScore * 0.3; // 30% weight on distance
-
-  // Acceptance rate factor (higher = better)
-  // acceptanceRate is a percentage (0-100)
-  score += agent.acceptanceRate * 0.2; // 20% weight
-
-  // Rating factor (higher = better, normalized to 0-100)
-  const ratingScore = agent.rating ? (agent.rating / 5) * 100 : 50; // Default to 50 if no rating
-  score += ratingScore * 0.15; // 15% weight
-
-  // Experience factor (more orders = slightly better, but diminishing returns)
-  const experienceScore = Math.min(100, (agent.totalOrders / 10) * 10); // 10 orders = 100 points
-  score += experienceScore * 0.1; // 10% weight
-
-  // Payout preference (higher payout = slightly higher score)
-  // Normalize payout: $5 = 50 points, $20+ = 100 points
-  const payoutScore = Math.min(100, (payoutAmount / 0.2)); // $0.20 = 1 point
-  score += payoutScore * 0.1; // 10% weight
-
-  // Priority boost (HIGH priority orders get distance bonus)
-  if (priority === 'HIGH') {
-    score += 20; // Boost for high priority
+const calculateDistance = haversineDistance;
+
+/**
+ * Estimated minutes to deliver an order (the order's estimate, or one from its distance)
+ */
+async function estimateDeliveryMinutes(orderId: string): Promise<number> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      estimatedDuration: true,
+      distanceKm: true,
+      pickupLat: true,
+      pickupLng: true,
+      dropLat: true,
+      dropLng: true,
+      vehicleType: true,
+      slaPriority: true,
+    },
+  });
+
+  if (!order) {
+    return 0;
   }
 
-  // Penalty if agent has current order (but still allow if no other options)
-  if (agent.currentOrderId) {
-    score -= 30; // Penalty for having current order
+  if (order.estimatedDuration) {
+    return order.estimatedDuration;
   }
 
-  return Math.max(0, score); // Ensure non-negative
-}
+  const distanceKm = order.distanceKm
+    ?? calculateDistance(order.pickupLat, order.pickupLng, order.dropLat, order.dropLng) / 1000;
 
-/**
- * Calculate distance between two coordinates using Haversine formula
- * Returns distance in meters
- */
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371000; // Earth's radius in meters
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+  return pricingService.estimateEta(
+    distanceKm,
+    order.vehicleType || undefined,
+    order.slaPriority || undefined
+  ).totalMinutes;
 }
 
 /**
- * Find and score nearby agents for an order
+ * Find and score nearby agents for an order with the order's assignment strategy
+ * Agents whose declared shift is off, or ends before estimatedMinutes, are left out
+ * (pass excluded to collect them with the reason); agents whose shift covers the delivery are preferred
+ * For COD orders (codAmount), agents over their COD cash limit are left out too
  */
 async function findAndScoreAgents(
   pickupLat: number,
   pickupLng: number,
   payoutAmount: number,
   priority: 'HIGH' | 'NORMAL' | 'LOW',
-  maxRadius: number = 5000
+  maxRadius: number = 5000,
+  options: ScoringOptions = {}
 ): Promise<AgentScore[]> {
+  const { estimatedMinutes = 0, excluded = [] } = options;
+  const strategy: NonNullable<ScoringOptions['strategy']> = options.strategy || await assignmentStrategyService.resolveDefault();
+
   // Get nearby agents from Redis GEO
   const nearbyAgents = await redisGeo.getNearbyAgents(
     pickupLng,
@@ -127,6 +152,8 @@ async function findAndScoreAgents(
     'm'
   );
 
+  let candidates: Array<{ agent: CandidateAgent; distance: number }>;
+
   // If Redis returns no agents, fallback to database query
   if (!nearbyAgents || nearbyAgents.length === 0) {
     // Fallback: Get all online, approved agents and calculate distance
@@ -147,7 +174,7 @@ async function findAndScoreAgents(
     });
 
     // Filter agents by distance using their last known location
-    const agentsWithDistance = allAgents
+    candidates = allAgents
       .map((agent) => {
         const lastLocation = agent.locationHistory[0];
         if (!lastLocation) {
@@ -166,31 +193,6 @@ async function findAndScoreAgents(
         }
 
         return {
-          agent,
-          distance,
-        };
-      })
-      .filter((item): item is { agent: typeof allAgents[0]; distance: number } => item !== null);
-
-    // Convert to AgentScore format
-    const scoredAgents: AgentScore[] = agentsWithDistance
-      .map(({ agent, distance }) => {
-        const score = calculateAgentScore(
-          {
-            acceptanceRate: agent.acceptanceRate,
-            rating: agent.rating,
-            totalOrders: agent.totalOrders,
-            currentOrderId: agent.currentOrderId,
-          },
-          distance,
-          payoutAmount,
-          priority
-        );
-
-        return {
-          agentId: agent.id,
-          distance,
-          score,
           agent: {
             id: agent.id,
             acceptanceRate: agent.acceptanceRate,
@@ -198,102 +200,159 @@ async function findAndScoreAgents(
             totalOrders: agent.totalOrders,
             currentOrderId: agent.currentOrderId,
           },
+          distance,
         };
       })
-      .filter((scored) => scored.score > 0)
-      .sort((a, b) => b.score - a.score);
-
-    return scoredAgents;
-  }
-
-  // Parse Redis GEO response
-  // Format with WITHDIST and WITHCOORD: [[agentId, distance, [lng, lat]], ...]
-  // Or flat format: [agentId, distance, [lng, lat], agentId, distance, [lng, lat], ...]
-  const agentIds: string[] = [];
-  const distances: Map<string, number> = new Map();
-
-  // Check if response is nested array format
-  if (nearbyAgents.length > 0 && Array.isArray(nearbyAgents[0])) {
-    // Nested format: [[agentId, distance, [lng, lat]], ...]
-    for (const item of nearbyAgents as any[]) {
-      if (Array.isArray(item) && item.length >= 2) {
-        const agentId = item[0] as string;
-        const distance = parseFloat(item[1] as string);
-        agentIds.push(agentId);
-        distances.set(agentId, distance);
-      }
-    }
+      .filter((item): item is { agent: CandidateAgent; distance: number } => item !== null);
   } else {
-    // Flat format: [agentId, distance, [lng, lat], agentId, distance, [lng, lat], ...]
-    for (let i = 0; i < nearbyAgents.length; i += 3) {
-      if (i + 1 < nearbyAgents.length) {
-        const agentId = nearbyAgents[i] as string;
-        const distance = parseFloat(nearbyAgents[i + 1] as string);
-        agentIds.push(agentId);
-        distances.set(agentId, distance);
+    // Parse Redis GEO response
+    // Format with WITHDIST and WITHCOORD: [[agentId, distance, [lng, lat]], ...]
+    // Or flat format: [agentId, distance, [lng, lat], agentId, distance, [lng, lat], ...]
+    const agentIds: string[] = [];
+    const distances: Map<string, number> = new Map();
+
+    // Check if response is nested array format
+    if (nearbyAgents.length > 0 && Array.isArray(nearbyAgents[0])) {
+      // Nested format: [[agentId, distance, [lng, lat]], ...]
+      for (const item of nearbyAgents as any[]) {
+        if (Array.isArray(item) && item.length >= 2) {
+          const agentId = item[0] as string;
+          const distance = parseFloat(item[1] as string);
+          agentIds.push(agentId);
+          distances.set(agentId, distance);
+        }
+      }
+    } else {
+      // Flat format: [agentId, distance, [lng, lat], agentId, distance, [lng, lat], ...]
+      for (let i = 0; i < nearbyAgents.length; i += 3) {
+        if (i + 1 < nearbyAgents.length) {
+          const agentId = nearbyAgents[i] as string;
+          const distance = parseFloat(nearbyAgents[i + 1] as string);
+          agentIds.push(agentId);
+          distances.set(agentId, distance);
+        }
       }
     }
+
+    // Fetch agent details from database
+    const agents = await prisma.agent.findMany({
+      where: {
+        id: { in: agentIds },
+        status: 'ONLINE', // Only online agents
+        isApproved: true, // Only approved agents
+        isBlocked: false, // Not blocked
+      },
+      select: {
+        id: true,
+        acceptanceRate: true,
+        rating: true,
+        totalOrders: true,
+        currentOrderId: true,
+      },
+    });
+
+    candidates = agents.map((agent) => ({
+      agent,
+      distance: distances.get(agent.id) || Infinity,
+    }));
   }
 
-  // Fetch agent details from database
-  const agents = await prisma.agent.findMany({
-    where: {
-      id: { in: agentIds },
-      status: 'ONLINE', // Only online agents
-      isApproved: true, // Only approved agents
-      isBlocked: false, // Not blocked
-    },
-    select: {
-      id: true,
-      acceptanceRate: true,
-      rating: true,
-      totalOrders: true,
-      currentOrderId: true,
-    },
-  });
+  // Respect declared shifts, and COD cash limits for COD orders
+  const coverage = await getShiftCoverage(candidates.map(({ agent }) => agent.id), estimatedMinutes);
+  const codAmount = options.codAmount ?? null;
+  const cashLimits = codAmount !== null
+    ? await codService.getCashLimitStatus(candidates.map(({ agent }) => agent.id))
+    : new Map<string, CashLimitStatus>();
+  const overCashLimit = (agentId: string) =>
+    codAmount !== null && codService.exceedsCashLimit(cashLimits.get(agentId), codAmount);
+
+  const strategyScores = await assignmentStrategyService.scoreCandidates(
+    candidates.filter(({ agent }) => coverage.get(agent.id)?.eligible && !overCashLimit(agent.id)),
+    { ...strategy.context, pickupLat, pickupLng, payoutAmount, priority },
+    strategy
+  );
 
   // Calculate scores for each agent
-  const scoredAgents: AgentScore[] = agents
-    .map((agent) => {
-      const distance = distances.get(agent.id) || Infinity;
-      const score = calculateAgentScore(
-        {
-          acceptanceRate: agent.acceptanceRate,
-          rating: agent.rating,
-          totalOrders: agent.totalOrders,
-          currentOrderId: agent.currentOrderId,
-        },
-        distance,
-        payoutAmount,
-        priority
-      );
-
-      return {
+  const scoredAgents: AgentScore[] = [];
+  for (const { agent, distance } of candidates) {
+    const schedule = coverage.get(agent.id) as ShiftCoverage;
+    if (!schedule.eligible) {
+      excluded.push({ agentId: agent.id, distance, reason: schedule.reason, schedule });
+      continue;
+    }
+    if (overCashLimit(agent.id)) {
+      const cash = cashLimits.get(agent.id) as CashLimitStatus;
+      excluded.push({
         agentId: agent.id,
         distance,
-        score,
-        agent,
-      };
-    })
-    .filter((scored) => scored.score > 0) // Filter out negative scores
-    .sort((a, b) => b.score - a.score); // Sort by score (highest first)
+        reason: `COD cash in hand ${cash.cashInHand} (+${codAmount} for this order) exceeds the limit ${cash.limit}`,
+        schedule,
+      });
+      continue;
+    }
 
-  return scoredAgents;
+    const { factors } = strategyScores.get(agent.id) as { factors: FactorScore[] };
+    if (schedule.status === 'IN_SHIFT') {
+      factors.push({ factor: 'shiftCoverage', value: 1, weight: SHIFT_COVERAGE_BONUS, points: SHIFT_COVERAGE_BONUS });
+    }
+    const score = Math.max(0, 100 + factors.reduce((sum, factor) => sum + factor.points, 0));
+
+    if (score <= 0) {
+      excluded.push({ agentId: agent.id, distance, reason: 'Score is zero', schedule });
+      continue;
+    }
+
+    scoredAgents.push({
+      agentId: agent.id,
+      distance,
+      score,
+      agent,
+      schedule,
+      factors,
+    });
+  }
+
+  // Sort by score (highest first)
+  return scoredAgents.sort((a, b) => b.score - a.score);
 }
 
 /**
- * Offer order to top N agents
- * Returns the list of agent IDs that received the offer
+ * Build the assignment debug output (logged when ASSIGNMENT_DEBUG=true)
+ */
+function buildAssignmentDebug(
+  orderId: string,
+  strategy: AssignmentStrategy,
+  estimatedMinutes: number,
+  scoredAgents: AgentScore[],
+  excluded: AssignmentExclusion[]
+): AssignmentDebug {
+  const debug: AssignmentDebug = {
+    strategy,
+    estimatedMinutes,
+    candidates: scoredAgents.map((scored) => ({
+      agentId: scored.agentId,
+      distance: Math.round(scored.distance),
+      score: Math.round(scored.score * 100) / 100,
+      schedule: scored.schedule.reason,
+    })),
+    excluded,
+  };
+
+  if (process.env.ASSIGNMENT_DEBUG === 'true') {
+    console.log(`[Assignment] Order ${orderId} debug:`, JSON.stringify(debug, null, 2));
+  }
+
+  return debug;
+}
+
+/**
+ * Offer order to a round of agents
+ * Persists an OFFERED offer per agent and returns the agent IDs that received it
  */
 async function offerOrderToAgents(
   orderId: string,
-  agentIds: string[],
-  orderData: {
-    pickupAddress?: string;
-    dropAddress?: string;
-    payoutAmount: number;
-    distance?: number;
-  },
+  agents: AgentScore[],
+  cascade: { attempt: number; round: number; radius: number },
   offerTimeout: number = 30
 ): Promise<string[]> {
   // Get order details for notifications
@@ -307,6 +366,7 @@ async function offerOrderToAgents(
       dropLat: true,
       dropLng: true,
       priority: true,
+      tripId: true,
     },
   });
 
@@ -315,54 +375,167 @@ async function offerOrderToAgents(
     return [];
   }
 
-  // Send notifications to each agent
-  for (const agentId of agentIds) {
-    // Get agent's distance from order
-    const agentLocation = await redisGeo.getNearbyAgents(
-      order.pickupLng,
-      order.pickupLat,
-      5000,
-      'm'
-    );
-
-    let distance: number | undefined;
-    // Find this agent's distance
-    // Redis GEORADIUS with WITHDIST returns: [agentId, distance, ...] or [[agentId, distance], ...]
-    for (let i = 0; i < agentLocation.length; i += 3) {
-      const item = agentLocation[i];
-      if (Array.isArray(item)) {
-        // Nested format: [[agentId, distance], ...]
-        const nestedItem = item as unknown[];
-        if (nestedItem[0] === agentId) {
-          distance = parseFloat(String(nestedItem[1]));
-          break;
-        }
-      } else if (item === agentId) {
-        // Flat format: [agentId, distance, ...]
-        const nextItem = agentLocation[i + 1];
-        if (nextItem !== undefined) {
-          distance = parseFloat(String(nextItem));
-          break;
-        }
-      }
-    }
+  const offers = await offerService.createOffers(
+    orderId,
+    agents.map((scored) => ({ agentId: scored.agentId, distance: scored.distance, score: scored.score })),
+    { ...cascade, timeoutSeconds: offerTimeout }
+  );
 
+  // Send notifications to each agent
+  for (const offer of offers) {
     // Send WebSocket notification
-    await sendOrderOfferToAgent(agentId, {
+    await sendOrderOfferToAgent(offer.agentId, {
       id: order.id,
+      offerId: offer.id,
+      expiresAt: offer.expiresAt.toISOString(),
       payoutAmount: order.payoutAmount,
-      distance,
+      distance: offer.distance ?? undefined,
       priority: order.priority,
+      tripId: order.tripId ?? undefined, // Accepting a batched order accepts the whole trip
     });
 
     // Send FCM push notification - DISABLED
-    // await sendOrderOfferNotification(agentId, orderId, {
+    // await sendOrderOfferNotification(offer.agentId, orderId, {
     //   payoutAmount: order.payoutAmount,
-    //   distance,
+    //   distance: offer.distance,
     // });
   }
 
-  return agentIds;
+  return offers.map((offer) => offer.agentId);
+}
+
+/**
+ * Offer the next round of a cascade to agents not yet offered in this attempt
+ * Widens the radius (up to MAX_CASCADE_RADIUS) while nobody new is in range
+ * Does nothing (claimed: false) when another caller already offered the round
+ */
+async function offerNextRound(
+  orderId: string,
+  order: { pickupLat: number; pickupLng: number; payoutAmount: number; priority: 'HIGH' | 'NORMAL' | 'LOW' },
+  round: {
+    attempt: number;
+    round: number;
+    radius: number;
+    maxAgentsToOffer: number;
+    offerTimeout: number;
+    offeredAgentIds: string[];
+    estimatedMinutes: number;
+    strategy: ScoringOptions['strategy'];
+    codAmount: number | null;
+  }
+): Promise<{
+  offered: number;
+  radius: number;
+  scoredAgents: AgentScore[];
+  excluded: AssignmentExclusion[];
+  claimed: boolean;
+}> {
+  let radius = round.radius;
+
+  if (!(await offerService.claimRound(orderId, round.attempt, round.round))) {
+    return { offered: 0, radius, scoredAgents: [], excluded: [], claimed: false };
+  }
+
+  while (true) {
+    const excluded: AssignmentExclusion[] = [];
+    const scoredAgents = await findAndScoreAgents(
+      order.pickupLat,
+      order.pickupLng,
+      order.payoutAmount,
+      order.priority,
+      radius,
+      { estimatedMinutes: round.estimatedMinutes, excluded, strategy: round.strategy, codAmount: round.codAmount }
+    );
+    const fresh = scoredAgents.filter((scored) => !round.offeredAgentIds.includes(scored.agentId));
+
+    if (fresh.length > 0 || radius >= MAX_CASCADE_RADIUS) {
+      const agentIds = await offerOrderToAgents(
+        orderId,
+        fresh.slice(0, round.maxAgentsToOffer),
+        { attempt: round.attempt, round: round.round, radius },
+        round.offerTimeout
+      );
+
+      return { offered: agentIds.length, radius, scoredAgents, excluded, claimed: true };
+    }
+
+    radius = Math.min(radius * RADIUS_EXPANSION_FACTOR, MAX_CASCADE_RADIUS);
+    console.log(`[Assignment] No new agents for order ${orderId}, expanding search radius to ${radius}m`);
+  }
+}
+
+/**
+ * Move an order's offer cascade to its next round
+ * Called when an offer is rejected or expires; does nothing while the current round still has open offers
+ */
+export async function advanceCascade(orderId: string): Promise<{
+  offered: number;
+  radius?: number;
+  exhausted?: boolean;
+}> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      status: true,
+      agentId: true,
+      pickupLat: true,
+      pickupLng: true,
+      payoutAmount: true,
+      priority: true,
+    },
+  });
+
+  if (!order) {
+    return { offered: 0 };
+  }
+
+  if (order.agentId || !ASSIGNABLE_STATUSES.includes(order.status)) {
+    await offerService.withdrawOpenOffers(orderId, 'Order is no longer available');
+    return { offered: 0 };
+  }
+
+  const attempt = await offerService.getCurrentAttempt(orderId);
+  if (attempt === 0) {
+    return { offered: 0 };
+  }
+
+  const offers = await offerService.getAttemptOffers(orderId, attempt);
+  if (offers.length === 0 || offers.some((offer) => offer.status === 'OFFERED' || offer.status === 'ACCEPTED')) {
+    return { offered: 0 };
+  }
+
+  const settings = await offerService.getOfferSettings();
+  const next = await offerNextRound(
+    orderId,
+    {
+      pickupLat: order.pickupLat,
+      pickupLng: order.pickupLng,
+      payoutAmount: order.payoutAmount,
+      priority: (order.priority as 'HIGH' | 'NORMAL' | 'LOW') || 'NORMAL',
+    },
+    {
+      attempt,
+      round: offers[0].round + 1,
+      radius: offers[0].radius,
+      maxAgentsToOffer: settings.maxAgentsToOffer,
+      offerTimeout: settings.offerTimeout,
+      offeredAgentIds: offers.map((offer) => offer.agentId),
+      estimatedMinutes: await estimateDeliveryMinutes(orderId),
+      strategy: await assignmentStrategyService.resolveForOrder(orderId),
+      codAmount: await codService.getOrderCodAmount(orderId),
+    }
+  );
+
+  if (!next.claimed) {
+    return { offered: 0 };
+  }
+
+  if (next.offered === 0) {
+    console.log(`[Assignment] Offer cascade for order ${orderId} exhausted at ${next.radius}m - order stays open`);
+    return { offered: 0, radius: next.radius, exhausted: true };
+  }
+
+  return { offered: next.offered, radius: next.radius };
 }
 
 /**
@@ -393,7 +566,7 @@ async function assignOrderToAgent(
         throw new Error('Order not found');
       }
 
-      if (order.status !== 'SEARCHING_AGENT' && order.status !== 'AT_WAREHOUSE' && order.status !== 'READY_FOR_PICKUP') {
+      if (!ASSIGNABLE_STATUSES.includes(order.status)) {
         throw new Error(`Order is no longer available (status: ${order.status})`);
       }
 
@@ -418,6 +591,9 @@ async function assignOrderToAgent(
         throw new Error('Agent is not available');
       }
 
+      const actor = { type: ActorType.SYSTEM };
+      const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.ASSIGNED, actor, tx);
+
       // Update order
       const updatedOrder = await tx.order.update({
         where: { id: orderId },
@@ -460,9 +636,17 @@ async function assignOrderToAgent(
         },
       });
 
+      await orderStateService.recordTransition(
+        { orderId, from: fromStatus, to: OrderStatus.ASSIGNED, actor, reason: 'Auto-assigned', metadata: { agentId } },
+        tx
+      );
+
       return updatedOrder;
     });
 
+    // Close the offer cascade
+    await offerService.markAccepted(orderId, agentId);
+
     // Notify partner via webhook
     await notifyPartner(
       result.partner.id,
@@ -517,8 +701,10 @@ export async function assignOrder(options: AssignmentOptions): Promise<{
   success: boolean;
   assigned?: boolean;
   agentsOffered?: number;
+  radius?: number; // Search radius of the first offer round, in meters
   agentId?: string;
   error?: string;
+  debug?: AssignmentDebug;
 }> {
   const {
     orderId,
@@ -526,59 +712,64 @@ export async function assignOrder(options: AssignmentOptions): Promise<{
     pickupLng,
     payoutAmount,
     priority = 'NORMAL',
-    maxRadius = 5000,
-    maxAgentsToOffer = 5,
-    offerTimeout = 30,
   } = options;
 
   try {
-    // Step 1: Find and score nearby agents
-    const scoredAgents = await findAndScoreAgents(
-      pickupLat,
-      pickupLng,
-      payoutAmount,
-      priority,
-      maxRadius
+    const settings = await offerService.getOfferSettings();
+    const maxRadius = options.maxRadius ?? settings.maxRadius;
+    const maxAgentsToOffer = options.maxAgentsToOffer ?? settings.maxAgentsToOffer;
+    const offerTimeout = options.offerTimeout ?? settings.offerTimeout;
+
+    // Step 1: Start a new cascade attempt (offers still open from an earlier attempt are withdrawn)
+    await offerService.withdrawOpenOffers(orderId, 'Order re-dispatched');
+    const attempt = (await offerService.getCurrentAttempt(orderId)) + 1;
+
+    // Step 2: Score nearby agents whose shift covers the delivery and offer the top N
+    // (the radius widens while nobody is in range)
+    const estimatedMinutes = options.estimatedDuration ?? await estimateDeliveryMinutes(orderId);
+    const strategy = await assignmentStrategyService.resolveForOrder(orderId);
+    const round = await offerNextRound(
+      orderId,
+      { pickupLat, pickupLng, payoutAmount, priority },
+      {
+        attempt,
+        round: 1,
+        radius: maxRadius,
+        maxAgentsToOffer,
+        offerTimeout,
+        offeredAgentIds: [],
+        estimatedMinutes,
+        strategy,
+        codAmount: await codService.getOrderCodAmount(orderId),
+      }
     );
+    if (!round.claimed) {
+      return { success: true, assigned: false, agentsOffered: 0, error: 'Order is already being offered' };
+    }
 
-    if (scoredAgents.length === 0) {
+    const debug = buildAssignmentDebug(orderId, strategy.strategy, estimatedMinutes, round.scoredAgents, round.excluded);
+
+    if (round.offered === 0) {
       return {
         success: true,
         assigned: false,
         agentsOffered: 0,
-        error: 'No available agents found within range',
+        error: round.excluded.length > 0
+          ? 'No agents in range are eligible (shift does not cover this delivery, or COD cash limit reached)'
+          : 'No available agents found within range',
+        debug,
       };
     }
 
-    // Step 2: Select top N agents
-    const topAgents = scoredAgents.slice(0, maxAgentsToOffer);
-    const agentIds = topAgents.map((a) => a.agentId);
-
-    // Step 3: Offer order to agents via WebSocket + FCM
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-      select: {
-        payoutAmount: true,
-      },
-    });
-
-    await offerOrderToAgents(
-      orderId,
-      agentIds,
-      {
-        payoutAmount: order?.payoutAmount || payoutAmount,
-      },
-      offerTimeout
-    );
-
-    // Step 4: For now, we'll wait for agents to accept via the existing API endpoint
-    // In Phase 5.2, we'll implement real-time acceptance via WebSocket
-    // The assignment will happen when agent calls POST /api/agent/orders/:id/accept
+    // Step 3: The assignment happens when an agent calls POST /api/agent/orders/:id/accept;
+    // rejections and expired offers cascade to the next round (advanceCascade)
 
     return {
       success: true,
       assigned: false, // Will be assigned when agent accepts
-      agentsOffered: agentIds.length,
+      agentsOffered: round.offered,
+      radius: round.radius,
+      debug,
     };
   } catch (error: any) {
     console.error('[Assignment] Error in assignOrder:', error);
@@ -604,22 +795,29 @@ export async function autoAssignOrder(
   assigned: boolean;
   agentId?: string;
   error?: string;
+  debug?: AssignmentDebug;
 }> {
   try {
-    // Find and score agents
+    // Find and score agents whose shift covers the delivery
+    const estimatedMinutes = await estimateDeliveryMinutes(orderId);
+    const strategy = await assignmentStrategyService.resolveForOrder(orderId);
+    const excluded: AssignmentExclusion[] = [];
     const scoredAgents = await findAndScoreAgents(
       pickupLat,
       pickupLng,
       payoutAmount,
       priority,
-      5000
+      5000,
+      { estimatedMinutes, excluded, strategy, codAmount: await codService.getOrderCodAmount(orderId) }
     );
+    const debug = buildAssignmentDebug(orderId, strategy.strategy, estimatedMinutes, scoredAgents, excluded);
 
     if (scoredAgents.length === 0) {
       return {
         success: true,
         assigned: false,
         error: 'No available agents found',
+        debug,
       };
     }
 
@@ -632,6 +830,7 @@ export async function autoAssignOrder(
         success: true,
         assigned: true,
         agentId: topAgent.agentId,
+        debug,
       };
     }
 
@@ -650,6 +849,72 @@ export async function autoAssignOrder(
   }
 }
 
+/**
+ * Rank agents for an order without offering it (admin dry run)
+ * strategy overrides the order's configured strategy to compare alternatives
+ */
+export async function dryRunAssignment(
+  orderId: string,
+  options: { strategy?: AssignmentStrategy; maxRadius?: number } = {}
+) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      status: true,
+      partnerCategory: true,
+      pickupLat: true,
+      pickupLng: true,
+      payoutAmount: true,
+      priority: true,
+    },
+  });
+
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+
+  const priority = (order.priority as 'HIGH' | 'NORMAL' | 'LOW') || 'NORMAL';
+  const estimatedMinutes = await estimateDeliveryMinutes(orderId);
+  const strategy = await assignmentStrategyService.resolveForOrder(orderId, options.strategy);
+  const excluded: AssignmentExclusion[] = [];
+
+  const scoredAgents = await findAndScoreAgents(
+    order.pickupLat,
+    order.pickupLng,
+    order.payoutAmount,
+    priority,
+    options.maxRadius || 5000,
+    { estimatedMinutes, excluded, strategy, codAmount: await codService.getOrderCodAmount(orderId) }
+  );
+
+  const agents = await prisma.agent.findMany({
+    where: { id: { in: scoredAgents.map((scored) => scored.agentId) } },
+    select: { id: true, user: { select: { name: true } } },
+  });
+  const names = new Map(agents.map((agent) => [agent.id, agent.user.name]));
+
+  return {
+    order,
+    strategy: strategy.strategy,
+    source: strategy.source,
+    weights: strategy.weights,
+    readyAt: strategy.context.readyAt,
+    estimatedMinutes,
+    ranked: scoredAgents.map((scored, index) => ({
+      rank: index + 1,
+      agentId: scored.agentId,
+      name: names.get(scored.agentId) || null,
+      distance: Math.round(scored.distance),
+      score: Math.round(scored.score * 100) / 100,
+      factors: scored.factors,
+      schedule: scored.schedule.reason,
+    })),
+    excluded,
+  };
+}
+
 // Export helper functions for testing
-export { calculateAgentScore, findAndScoreAgents, assignOrderToAgent };
+export { findAndScoreAgents, assignOrderToAgent, estimateDeliveryMinutes, calculateDistance };
+export type { AgentScore, AssignmentDebug, AssignmentExclusion };
 
@@ -130,9 +130,8 @@ export const authService = {
 
     // Create role-specific records if needed
     if (data.role === UserRole.PARTNER) {
-      // Generate API key
-      const apiKey = `pk_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-      
+      // API keys are created from the dashboard (POST /api/partner/api-keys) and stored hashed
+
       // Generate partner ID
       const partnerId = await generateId('PRT');
       
@@ -152,7 +151,6 @@ export const authService = {
           companyName: data.businessName || data.name, // Use businessName if provided, else name
           businessName: data.businessName || data.name,
           category: data.partnerCategory || PartnerCategory.LOCAL_STORE, // Default to LOCAL_STORE if not provided
-          apiKey,
           isActive: true,
           address: data.address,
           city: data.city,
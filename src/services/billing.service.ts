@@ -1,6 +1,8 @@
 import { prisma } from '../lib/prisma';
 import { OrderStatus } from '@prisma/client';
 import { generateId } from '../utils/id-generator.util';
+import { haversineDistance } from './geo.service';
+import { codService } from './cod.service';
 
 /**
  * Billing Service - Handles invoicing for partners and settlements with providers
@@ -82,24 +84,10 @@ export const billingService = {
   },
 
   /**
-   * Calculate distance between two points (Haversine formula)
+   * Straight-line distance between two points in km
    */
   calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.toRad(lat2 - lat1);
-    const dLon = this.toRad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRad(lat1)) *
-        Math.cos(this.toRad(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  },
-
-  toRad(degrees: number): number {
-    return degrees * (Math.PI / 180);
+    return haversineDistance(lat1, lon1, lat2, lon2) / 1000;
   },
 
   /**
@@ -182,6 +170,9 @@ export const billingService = {
     // Calculate due date based on payment terms
     const dueDate = this.calculateDueDate(periodEnd, paymentTerms);
 
+    // COD collected for these orders is remitted through the invoice
+    const cod = await codService.getInvoiceCodFields(orders.map((order) => order.id), totalAmount);
+
     // Create invoice (Prisma will auto-generate IDs using cuid)
     const invoice = await prisma.partnerInvoice.create({
       data: {
@@ -191,6 +182,8 @@ export const billingService = {
         billingPeriodStart: periodStart,
         billingPeriodEnd: periodEnd,
         totalAmount,
+        codCollected: cod.codCollected,
+        netAmount: cod.netAmount,
         paymentTerms,
         dueDate,
         status: 'DRAFT',
@@ -201,6 +194,7 @@ export const billingService = {
             route: this.formatRoute(order),
             serviceType: order.isRTO ? 'RTO (Return to Origin)' : 'Multi-leg E-commerce',
             amount: (order.partnerCharge || 0) + (order.isRTO && order.rtoCharge ? order.rtoCharge : 0),
+            codCollected: cod.collected.get(order.id) ?? null,
           })),
         },
       },
@@ -154,6 +154,13 @@ export const cacheKeys = {
     agents: (filters?: string) => `admin:agents${filters ? `:${filters}` : ''}`,
     orders: (filters?: string) => `admin:orders${filters ? `:${filters}` : ''}`,
   },
+  geo: {
+    matrix: (provider: string, pointsHash: string) => `geo:matrix:${provider}:${pointsHash}`,
+    directions: (provider: string, origin: string, destination: string) =>
+      `geo:directions:${provider}:${origin}:${destination}`,
+    geocode: (provider: string, address: string) => `geo:geocode:${provider}:${address}`,
+    reverseGeocode: (provider: string, point: string) => `geo:reverse:${provider}:${point}`,
+  },
 };
 
 
@@ -0,0 +1,631 @@
+import { CodLedgerEntryType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { sendCashDepositPromptToAgent } from '../lib/websocket';
+import { NotFoundError, ValidationError } from '../utils/errors.util';
+
+/**
+ * COD Service - Cash-on-delivery collection and reconciliation ledger
+ *
+ * RULES:
+ * - Every change to an agent's COD cash in hand (Agent.codCashInHand) is a CodLedgerEntry with balances
+ * - COLLECTION is recorded once per COD order at delivery; the amount defaults to the order's orderAmount
+ *   and a different amount is kept (expectedAmount records what was due)
+ * - DEPOSIT (cash handed over) is recorded by admins and cannot exceed the cash in hand
+ * - Wallet payouts net the cash in hand first: PAYOUT_NETTING keeps min(cash in hand, payout) from the transfer
+ * - Collected COD is remitted to partners through their invoice (PartnerInvoice.codCollected / netAmount)
+ * - Cash limit: Agent.codCashLimit, else the agent's city limit, else the default (SystemSettings); unset = no limit
+ * - Agents at their limit, or whom the order's COD would take over it, are not offered COD orders
+ *   (an agent holding no cash can always take one); reaching the limit prompts a deposit over WebSocket
+ * - A trip is offered and accepted as a whole, so its orders count the trip's total COD against the limit
+ */
+
+const isCodOrder = (order: { paymentType: string | null }) => order.paymentType === 'COD';
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const normalizeCity = (city: string) => city.trim().toLowerCase();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const assertLimit = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ValidationError(`${field} must be a non-negative number`);
+  }
+  return roundAmount(value);
+};
+
+interface CashLimitSettings {
+  cashLimit: number | null; // Default limit
+  cityCashLimits: Record<string, number>; // Keyed by normalized city
+}
+
+export interface CashLimitStatus {
+  cashInHand: number;
+  limit: number | null;
+  overLimit: boolean; // Cash in hand at or above the limit (never when holding no cash)
+  excess: number; // Amount over the limit (0 when under)
+}
+
+export interface CodLedgerFilters {
+  agentId?: string;
+  type?: CodLedgerEntryType;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Move an agent's cash in hand and write the ledger entry (inside the caller's transaction)
+ */
+const postEntry = async (
+  tx: Prisma.TransactionClient,
+  entry: Omit<Prisma.CodLedgerEntryUncheckedCreateInput, 'balanceBefore' | 'balanceAfter'>
+) => {
+  const agent = await tx.agent.update({
+    where: { id: entry.agentId },
+    data: { codCashInHand: { increment: entry.amount } },
+    select: { codCashInHand: true },
+  });
+
+  const balanceAfter = roundAmount(agent.codCashInHand);
+  return tx.codLedgerEntry.create({
+    data: {
+      ...entry,
+      balanceBefore: roundAmount(balanceAfter - entry.amount),
+      balanceAfter,
+    },
+  });
+};
+
+/**
+ * Default and per-city cash limits from SystemSettings (no limits when the columns do not exist yet)
+ */
+const getCashLimitSettings = async (): Promise<CashLimitSettings> => {
+  try {
+    const settings = await prisma.systemSettings.findUnique({
+      where: { id: 'system' },
+      select: { codCashLimit: true, codCityCashLimits: true },
+    });
+    const cityCashLimits = (settings?.codCityCashLimits as Record<string, number> | null) || {};
+
+    return {
+      cashLimit: settings?.codCashLimit ?? null,
+      cityCashLimits: Object.fromEntries(
+        Object.entries(cityCashLimits).map(([city, limit]) => [normalizeCity(city), limit])
+      ),
+    };
+  } catch (error: any) {
+    if (error?.code === 'P2021' || error?.code === 'P2022' || error?.message?.includes('does not exist')) {
+      console.warn('[COD] Cash limit settings not available - no limits applied');
+      return { cashLimit: null, cityCashLimits: {} };
+    }
+    throw error;
+  }
+};
+
+const resolveCashLimit = (
+  agent: { codCashLimit: number | null; city: string | null },
+  settings: CashLimitSettings
+): number | null =>
+  agent.codCashLimit
+  ?? (agent.city ? settings.cityCashLimits[normalizeCity(agent.city)] : undefined)
+  ?? settings.cashLimit;
+
+const toLimitStatus = (cashInHand: number, limit: number | null): CashLimitStatus => ({
+  cashInHand: roundAmount(cashInHand),
+  limit,
+  overLimit: limit !== null && roundAmount(cashInHand) > 0 && roundAmount(cashInHand) >= limit,
+  excess: limit !== null ? Math.max(0, roundAmount(cashInHand - limit)) : 0,
+});
+
+export const codService = {
+  /**
+   * Amount to record as collected for an order (null for prepaid orders)
+   * Call before delivering so a bad amount does not leave a delivered order without its collection
+   */
+  resolveCollectionAmount(
+    order: { paymentType: string | null; orderAmount: number | null },
+    collectedAmount?: number | null
+  ): number | null {
+    if (!isCodOrder(order)) {
+      if (collectedAmount !== undefined && collectedAmount !== null && collectedAmount !== 0) {
+        throw new ValidationError('codCollected can only be recorded for COD orders');
+      }
+      return null;
+    }
+
+    if (collectedAmount === undefined || collectedAmount === null) {
+      return roundAmount(order.orderAmount || 0);
+    }
+    if (typeof collectedAmount !== 'number' || !Number.isFinite(collectedAmount) || collectedAmount < 0) {
+      throw new ValidationError('codCollected must be a non-negative number');
+    }
+    return roundAmount(collectedAmount);
+  },
+
+  /**
+   * Record cash collected for a COD order (no-op for prepaid or already collected orders)
+   */
+  async recordCollection(
+    orderId: string,
+    agentId: string,
+    collectedAmount?: number | null,
+    tx?: Prisma.TransactionClient
+  ) {
+    const run = async (client: Prisma.TransactionClient) => {
+      const order = await client.order.findUnique({
+        where: { id: orderId },
+        select: { paymentType: true, orderAmount: true, codCollectedAt: true },
+      });
+
+      if (!order) {
+        throw new NotFoundError('Order not found');
+      }
+
+      const amount = this.resolveCollectionAmount(order, collectedAmount);
+      if (amount === null || order.codCollectedAt) {
+        return null;
+      }
+
+      // Conditional update so concurrent deliveries cannot collect twice
+      const marked = await client.order.updateMany({
+        where: { id: orderId, codCollectedAt: null },
+        data: { codCollectedAmount: amount, codCollectedAt: new Date() },
+      });
+      if (marked.count === 0) {
+        return null;
+      }
+
+      return postEntry(client, {
+        agentId,
+        orderId,
+        type: CodLedgerEntryType.COLLECTION,
+        amount,
+        expectedAmount: roundAmount(order.orderAmount || 0),
+      });
+    };
+
+    return tx ? run(tx) : prisma.$transaction(run);
+  },
+
+  /**
+   * Record cash handed over by an agent (admin)
+   */
+  async recordDeposit(
+    agentId: string,
+    input: { amount?: number; reference?: string | null; notes?: string | null },
+    recordedById?: string | null
+  ) {
+    const amount = input.amount;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      throw new ValidationError('amount must be a positive number');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const agent = await tx.agent.findUnique({ where: { id: agentId }, select: { codCashInHand: true } });
+      if (!agent) {
+        throw new NotFoundError('Agent not found');
+      }
+      if (roundAmount(amount) > roundAmount(agent.codCashInHand)) {
+        throw new ValidationError(`Deposit exceeds the agent's cash in hand (${roundAmount(agent.codCashInHand)})`);
+      }
+
+      return postEntry(tx, {
+        agentId,
+        type: CodLedgerEntryType.DEPOSIT,
+        amount: -roundAmount(amount),
+        reference: input.reference || null,
+        notes: input.notes || null,
+        recordedById: recordedById || null,
+      });
+    });
+  },
+
+  /**
+   * Correct an agent's cash in hand (admin); notes are required
+   */
+  async recordAdjustment(
+    agentId: string,
+    input: { amount?: number; orderId?: string | null; notes?: string | null },
+    recordedById?: string | null
+  ) {
+    const amount = input.amount;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+      throw new ValidationError('amount must be a non-zero number');
+    }
+    if (!input.notes) {
+      throw new ValidationError('notes are required for an adjustment');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const agent = await tx.agent.findUnique({ where: { id: agentId }, select: { id: true } });
+      if (!agent) {
+        throw new NotFoundError('Agent not found');
+      }
+
+      return postEntry(tx, {
+        agentId,
+        orderId: input.orderId || null,
+        type: CodLedgerEntryType.ADJUSTMENT,
+        amount: roundAmount(amount),
+        notes: input.notes,
+        recordedById: recordedById || null,
+      });
+    });
+  },
+
+  /**
+   * Keep the agent's cash in hand out of a payout; returns the amount netted (once per payout)
+   */
+  async netAgainstPayout(
+    agentId: string,
+    payoutAmount: number,
+    payoutId: string,
+    tx: Prisma.TransactionClient
+  ): Promise<number> {
+    const existing = await tx.codLedgerEntry.findFirst({
+      where: { payoutId, type: CodLedgerEntryType.PAYOUT_NETTING },
+      select: { amount: true },
+    });
+    if (existing) {
+      return -existing.amount;
+    }
+
+    const agent = await tx.agent.findUnique({ where: { id: agentId }, select: { codCashInHand: true } });
+    const netted = roundAmount(Math.min(agent?.codCashInHand || 0, payoutAmount));
+    if (netted <= 0) {
+      return 0;
+    }
+
+    await postEntry(tx, {
+      agentId,
+      type: CodLedgerEntryType.PAYOUT_NETTING,
+      amount: -netted,
+      payoutId,
+      notes: 'COD cash in hand netted against payout',
+    });
+    await tx.walletPayout.update({ where: { id: payoutId }, data: { codNetted: netted } });
+
+    return netted;
+  },
+
+  /**
+   * Configured cash limits (admin settings)
+   */
+  async getCashLimitConfig() {
+    const settings = await prisma.systemSettings.findUnique({
+      where: { id: 'system' },
+      select: { codCashLimit: true, codCityCashLimits: true },
+    });
+
+    return {
+      cashLimit: settings?.codCashLimit ?? null,
+      cityCashLimits: (settings?.codCityCashLimits as Record<string, number> | null) || {},
+    };
+  },
+
+  /**
+   * Validate a COD settings update ({ cashLimit, cityCashLimits }) into SystemSettings columns
+   * null clears the stored limit(s); omitted keys are left unchanged
+   */
+  parseSettingsUpdate(input: unknown): {
+    codCashLimit?: number | null;
+    codCityCashLimits?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  } {
+    if (input === undefined) {
+      return {};
+    }
+    if (!isPlainObject(input)) {
+      throw new ValidationError('cod must be an object');
+    }
+
+    const data: ReturnType<typeof codService.parseSettingsUpdate> = {};
+
+    if (input.cashLimit === null) {
+      data.codCashLimit = null;
+    } else if (input.cashLimit !== undefined) {
+      data.codCashLimit = assertLimit(input.cashLimit, 'cod.cashLimit');
+    }
+
+    if (input.cityCashLimits === null) {
+      data.codCityCashLimits = Prisma.DbNull;
+    } else if (input.cityCashLimits !== undefined) {
+      if (!isPlainObject(input.cityCashLimits)) {
+        throw new ValidationError('cod.cityCashLimits must be an object of city -> limit');
+      }
+      data.codCityCashLimits = Object.fromEntries(
+        Object.entries(input.cityCashLimits).map(([city, limit]) => [city.trim(), assertLimit(limit, `cod.cityCashLimits.${city}`)])
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Set or clear (null) an agent's own cash limit (admin)
+   */
+  async setAgentCashLimit(agentId: string, limit: unknown) {
+    const codCashLimit = limit === null ? null : assertLimit(limit, 'limit');
+
+    const agent = await prisma.agent.findUnique({ where: { id: agentId }, select: { id: true } });
+    if (!agent) {
+      throw new NotFoundError('Agent not found');
+    }
+
+    await prisma.agent.update({ where: { id: agentId }, data: { codCashLimit } });
+
+    const statuses = await this.getCashLimitStatus([agentId]);
+    return statuses.get(agentId) as CashLimitStatus;
+  },
+
+  /**
+   * Cash in hand against the effective limit, per agent
+   */
+  async getCashLimitStatus(agentIds: string[]): Promise<Map<string, CashLimitStatus>> {
+    if (agentIds.length === 0) {
+      return new Map();
+    }
+
+    const [agents, settings] = await Promise.all([
+      prisma.agent.findMany({
+        where: { id: { in: agentIds } },
+        select: { id: true, codCashInHand: true, codCashLimit: true, city: true },
+      }),
+      getCashLimitSettings(),
+    ]);
+
+    return new Map(agents.map((agent) => [agent.id, toLimitStatus(agent.codCashInHand, resolveCashLimit(agent, settings))]));
+  },
+
+  /**
+   * Whether an agent should not be offered an order with codAmount to collect
+   */
+  exceedsCashLimit(status: CashLimitStatus | undefined, codAmount: number): boolean {
+    if (!status || status.limit === null) {
+      return false;
+    }
+    return status.overLimit || (status.cashInHand > 0 && status.cashInHand + codAmount > status.limit);
+  },
+
+  /**
+   * Cash to collect for an order (null for prepaid orders)
+   * An order in a trip is taken with the whole trip, so it carries the trip's total COD
+   */
+  async getOrderCodAmount(orderId: string): Promise<number | null> {
+    return (await this.getOrderCodAmounts([orderId])).get(orderId) ?? null;
+  },
+
+  /**
+   * Cash to collect per order (see getOrderCodAmount)
+   */
+  async getOrderCodAmounts(orderIds: string[]): Promise<Map<string, number | null>> {
+    if (orderIds.length === 0) {
+      return new Map();
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { id: { in: orderIds } },
+      select: { id: true, paymentType: true, orderAmount: true, tripId: true },
+    });
+
+    const tripIds = [...new Set(orders.map((order) => order.tripId).filter((tripId): tripId is string => !!tripId))];
+    const tripTotals = tripIds.length > 0
+      ? await prisma.order.groupBy({
+          by: ['tripId'],
+          where: { tripId: { in: tripIds }, paymentType: 'COD' },
+          _sum: { orderAmount: true },
+        })
+      : [];
+    const tripCod = new Map(tripTotals.map((trip) => [trip.tripId as string, roundAmount(trip._sum.orderAmount || 0)]));
+
+    return new Map(
+      orders.map((order) => {
+        if (order.tripId) {
+          return [order.id, tripCod.get(order.tripId) ?? null];
+        }
+        return [order.id, isCodOrder(order) ? roundAmount(order.orderAmount || 0) : null];
+      })
+    );
+  },
+
+  /**
+   * Send the agent a deposit prompt when their cash in hand is at or over the limit
+   */
+  async promptDepositIfOverLimit(agentId: string): Promise<boolean> {
+    const status = (await this.getCashLimitStatus([agentId])).get(agentId);
+    if (!status?.overLimit) {
+      return false;
+    }
+
+    await sendCashDepositPromptToAgent(agentId, {
+      ...status,
+      message: `You are carrying ${status.cashInHand} in COD cash (limit ${status.limit}). Deposit cash to receive new COD orders.`,
+    });
+    return true;
+  },
+
+  /**
+   * Agents at or over their cash limit, largest excess first (admin report)
+   */
+  async listOverLimit() {
+    const [agents, settings] = await Promise.all([
+      prisma.agent.findMany({
+        where: { codCashInHand: { gt: 0 } },
+        select: {
+          id: true,
+          city: true,
+          codCashInHand: true,
+          codCashLimit: true,
+          user: { select: { name: true, phone: true } },
+          codLedgerEntries: {
+            where: { type: CodLedgerEntryType.DEPOSIT },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { createdAt: true },
+          },
+        },
+      }),
+      getCashLimitSettings(),
+    ]);
+
+    return agents
+      .map(({ codLedgerEntries, codCashLimit, ...agent }) => ({
+        id: agent.id,
+        city: agent.city,
+        user: agent.user,
+        ...toLimitStatus(agent.codCashInHand, resolveCashLimit({ codCashLimit, city: agent.city }, settings)),
+        lastDepositAt: codLedgerEntries[0]?.createdAt || null,
+      }))
+      .filter((agent) => agent.overLimit)
+      .sort((a, b) => b.excess - a.excess);
+  },
+
+  /**
+   * Cash in hand with lifetime totals per entry type
+   */
+  async getAgentSummary(agentId: string) {
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { codCashInHand: true, codCashLimit: true, city: true },
+    });
+    if (!agent) {
+      throw new NotFoundError('Agent not found');
+    }
+
+    const limit = resolveCashLimit(agent, await getCashLimitSettings());
+    const totals = await prisma.codLedgerEntry.groupBy({
+      by: ['type'],
+      where: { agentId },
+      _sum: { amount: true },
+    });
+    const totalFor = (type: CodLedgerEntryType) =>
+      roundAmount(Math.abs(totals.find((row) => row.type === type)?._sum.amount || 0));
+
+    const pendingCollections = await prisma.order.count({
+      where: { agentId, paymentType: 'COD', codCollectedAt: null, status: { notIn: ['DELIVERED', 'CANCELLED'] } },
+    });
+
+    return {
+      cashInHand: roundAmount(agent.codCashInHand),
+      cashLimit: limit,
+      overLimit: toLimitStatus(agent.codCashInHand, limit).overLimit,
+      totalCollected: totalFor(CodLedgerEntryType.COLLECTION),
+      totalDeposited: totalFor(CodLedgerEntryType.DEPOSIT),
+      totalNetted: totalFor(CodLedgerEntryType.PAYOUT_NETTING),
+      pendingCollections, // Active COD orders still to be collected
+    };
+  },
+
+  /**
+   * Ledger entries, newest first
+   */
+  async listLedger(filters: CodLedgerFilters = {}) {
+    const where: Prisma.CodLedgerEntryWhereInput = {
+      ...(filters.agentId ? { agentId: filters.agentId } : {}),
+      ...(filters.type ? { type: filters.type } : {}),
+      ...(filters.from || filters.to
+        ? { createdAt: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+        : {}),
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.codLedgerEntry.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+        include: {
+          order: { select: { id: true, partnerId: true, orderAmount: true } },
+          agent: { select: { id: true, user: { select: { name: true, phone: true } } } },
+        },
+      }),
+      prisma.codLedgerEntry.count({ where }),
+    ]);
+
+    return { entries, total };
+  },
+
+  /**
+   * Agents currently holding COD cash, largest balance first (admin reconciliation)
+   */
+  async listCashInHand() {
+    const agents = await prisma.agent.findMany({
+      where: { codCashInHand: { gt: 0 } },
+      orderBy: { codCashInHand: 'desc' },
+      select: {
+        id: true,
+        codCashInHand: true,
+        user: { select: { name: true, phone: true } },
+        codLedgerEntries: {
+          where: { type: CodLedgerEntryType.DEPOSIT },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { createdAt: true },
+        },
+      },
+    });
+
+    return agents.map(({ codLedgerEntries, ...agent }) => ({
+      ...agent,
+      lastDepositAt: codLedgerEntries[0]?.createdAt || null,
+    }));
+  },
+
+  /**
+   * COD collected per order for invoicing (orders without a collection are omitted)
+   */
+  async getCollectedByOrder(orderIds: string[]): Promise<Map<string, number>> {
+    const orders = await prisma.order.findMany({
+      where: { id: { in: orderIds }, codCollectedAt: { not: null } },
+      select: { id: true, codCollectedAmount: true },
+    });
+
+    return new Map(orders.map((order) => [order.id, order.codCollectedAmount || 0]));
+  },
+
+  /**
+   * Invoice fields for collected COD: the total remitted and the amount left to pay after netting
+   */
+  async getInvoiceCodFields(orderIds: string[], totalAmount: number) {
+    const collected = await this.getCollectedByOrder(orderIds);
+    const codCollected = roundAmount([...collected.values()].reduce((sum, amount) => sum + amount, 0));
+
+    return {
+      collected,
+      codCollected,
+      netAmount: roundAmount(totalAmount - codCollected),
+    };
+  },
+
+  /**
+   * Partner COD summary: collected, already on an invoice (remitted through it), and not yet invoiced
+   */
+  async getPartnerSummary(partnerId: string, from?: Date, to?: Date) {
+    const where: Prisma.OrderWhereInput = {
+      partnerId,
+      paymentType: 'COD',
+      codCollectedAt: { not: null, ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) },
+    };
+
+    const [collected, invoiced] = await Promise.all([
+      prisma.order.aggregate({ where, _sum: { codCollectedAmount: true }, _count: true }),
+      prisma.order.aggregate({
+        where: { ...where, partnerInvoices: { some: {} } },
+        _sum: { codCollectedAmount: true },
+        _count: true,
+      }),
+    ]);
+
+    const collectedAmount = roundAmount(collected._sum.codCollectedAmount || 0);
+    const invoicedAmount = roundAmount(invoiced._sum.codCollectedAmount || 0);
+
+    return {
+      orders: collected._count,
+      collected: collectedAmount,
+      invoiced: invoicedAmount,
+      pendingRemittance: roundAmount(collectedAmount - invoicedAmount),
+    };
+  },
+};
@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
-import { OrderStatus } from '@prisma/client';
+import { ActorType, OrderStatus } from '@prisma/client';
+import { orderStateService, StatusActor } from './order-state.service';
 
 /**
  * Service to check for delayed orders and update their status
@@ -68,12 +69,17 @@ export const delayCheckerService = {
         );
 
         if (elapsedMinutes > order.estimatedDuration && order.status !== 'DELAYED') {
-          await prisma.order.update({
-            where: { id: order.id },
-            data: { status: 'DELAYED' },
-            select: { id: true, status: true }, // Only select fields we need
-          });
-          delayedOrders.push(order.id);
+          try {
+            // Saves the current stage so the order returns to it once it recovers
+            await orderStateService.transition(order.id, OrderStatus.DELAYED, { type: ActorType.SYSTEM }, {
+              reason: 'Exceeded estimated duration',
+              metadata: { elapsedMinutes, estimatedDuration: order.estimatedDuration },
+            });
+            delayedOrders.push(order.id);
+          } catch (transitionError: any) {
+            // The order moved on (e.g. delivered) since it was listed
+            console.error(`[Delay Checker] Could not mark order ${order.id} as delayed:`, transitionError?.message);
+          }
         }
       }
 
@@ -145,6 +151,7 @@ export const delayCheckerService = {
           pickedUpAt: true,
           estimatedDuration: true,
           status: true,
+          delayedFromStatus: true,
           deliveredAt: true,
           cancelledAt: true,
         },
@@ -166,22 +173,23 @@ export const delayCheckerService = {
       const isDelayed = elapsedMinutes > order.estimatedDuration;
 
       // Update status if delayed and not already marked
-      if (isDelayed && order.status !== 'DELAYED' && order.status !== 'DELIVERED' && order.status !== 'CANCELLED') {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: { status: 'DELAYED' },
-          select: { id: true, status: true }, // Only select fields we need
+      // Only delivery stages can be delayed (warehouse hand-offs and terminal orders are left alone)
+      if (isDelayed && orderStateService.isDelayable(order.status)) {
+        await orderStateService.transition(orderId, OrderStatus.DELAYED, { type: ActorType.SYSTEM }, {
+          reason: 'Exceeded estimated duration',
+          metadata: { elapsedMinutes, estimatedDuration: order.estimatedDuration },
         });
         return true;
       }
 
-      // If not delayed but status is DELAYED, revert to OUT_FOR_DELIVERY
+      // If not delayed but status is DELAYED, return to the stage it was delayed in
       if (!isDelayed && order.status === 'DELAYED') {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: { status: 'OUT_FOR_DELIVERY' },
-          select: { id: true, status: true }, // Only select fields we need
-        });
+        await orderStateService.transition(
+          orderId,
+          order.delayedFromStatus || OrderStatus.OUT_FOR_DELIVERY,
+          { type: ActorType.SYSTEM },
+          { reason: 'Back within estimated duration' }
+        );
         return false;
       }
 
@@ -231,7 +239,7 @@ export const delayCheckerService = {
    * Stop delivery timers for all active orders by marking them as delivered
    * This will stop the timer UI components and prevent further delay checks
    */
-  async stopAllActiveDeliveryTimers() {
+  async stopAllActiveDeliveryTimers(actor: StatusActor = { type: ActorType.SYSTEM }) {
     try {
       const now = new Date();
       
@@ -276,13 +284,12 @@ export const delayCheckerService = {
           const actualDuration = Math.floor(elapsedMs / 60000); // in minutes
 
           // Update order to DELIVERED status
-          await prisma.order.update({
-            where: { id: order.id },
+          await orderStateService.transition(order.id, OrderStatus.DELIVERED, actor, {
             data: {
-              status: OrderStatus.DELIVERED,
               deliveredAt: now,
               actualDuration,
             },
+            reason: 'Delivery timers stopped',
           });
 
           // Update agent status if they have this as current order
@@ -1,4 +1,6 @@
+import { ActorType, OrderStatus } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { orderStateService } from './order-state.service';
 
 /**
  * Check if an order is delayed and update its status accordingly
@@ -15,6 +17,7 @@ export async function checkAndUpdateDelayedStatus(orderId: string): Promise<bool
       select: {
         id: true,
         status: true,
+        delayedFromStatus: true,
         pickedUpAt: true,
         estimatedDuration: true,
         deliveredAt: true,
@@ -49,21 +52,23 @@ export async function checkAndUpdateDelayedStatus(orderId: string): Promise<bool
     // Check if order is delayed
     const isDelayed = elapsedMinutes > order.estimatedDuration;
 
-    // Update status if delayed and not already marked as delayed
-    if (isDelayed && order.status !== 'DELAYED') {
-      await prisma.order.update({
-        where: { id: orderId },
-        data: { status: 'DELAYED' },
+    // Update status if delayed and not already marked as delayed (delivery stages only)
+    if (isDelayed && orderStateService.isDelayable(order.status)) {
+      await orderStateService.transition(orderId, OrderStatus.DELAYED, { type: ActorType.SYSTEM }, {
+        reason: 'Exceeded estimated duration',
+        metadata: { elapsedMinutes, estimatedDuration: order.estimatedDuration },
       });
       return true;
     }
 
-    // If not delayed but status is DELAYED, revert to OUT_FOR_DELIVERY
+    // If not delayed but status is DELAYED, return to the stage it was delayed in
     if (!isDelayed && order.status === 'DELAYED') {
-      await prisma.order.update({
-        where: { id: orderId },
-        data: { status: 'OUT_FOR_DELIVERY' },
-      });
+      await orderStateService.transition(
+        orderId,
+        order.delayedFromStatus || OrderStatus.OUT_FOR_DELIVERY,
+        { type: ActorType.SYSTEM },
+        { reason: 'Back within estimated duration' }
+      );
       return false;
     }
 
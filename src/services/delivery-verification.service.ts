@@ -1,5 +1,36 @@
 import { prisma } from '../lib/prisma';
 import crypto from 'crypto';
+import { ActorType, OrderStatus } from '@prisma/client';
+import { haversineDistance } from './geo.service';
+import { orderStateService, StatusActor } from './order-state.service';
+import { codService } from './cod.service';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors.util';
+
+// Proof of delivery: capture must be within this distance of the drop (plus the reported GPS accuracy, capped)
+const POD_MAX_DISTANCE_METERS = parseInt(process.env.POD_MAX_DISTANCE_METERS || '200', 10);
+const POD_MAX_ACCURACY_ALLOWANCE_METERS = 100;
+// Capture time must be recent and not ahead of the server clock (beyond the allowed skew)
+const POD_MAX_CAPTURE_AGE_MINUTES = 15;
+const POD_CLOCK_SKEW_MINUTES = 2;
+
+export interface ProofOfDeliveryInput {
+  photoUrl?: string | null;
+  signatureUrl?: string | null;
+  latitude?: unknown; // Multipart fields arrive as strings
+  longitude?: unknown;
+  accuracy?: unknown;
+  capturedAt?: unknown;
+  recipientName?: string | null;
+  notes?: string | null;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
 
 /**
  * Generate OTP for delivery verification
@@ -41,8 +72,14 @@ export async function generateDeliveryVerification(orderId: string) {
 
 /**
  * Verify delivery using OTP
+ * codAmount (COD cash collected) is recorded in the agent's ledger with the delivery
  */
-export async function verifyDeliveryWithOTP(orderId: string, otp: string) {
+export async function verifyDeliveryWithOTP(
+  orderId: string,
+  otp: string,
+  actor: StatusActor = { type: ActorType.AGENT },
+  codAmount: number | null = null
+) {
   const order = await prisma.order.findUnique({
     where: { id: orderId },
   });
@@ -64,21 +101,40 @@ export async function verifyDeliveryWithOTP(orderId: string, otp: string) {
   }
 
   // Verify delivery
-  return await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      verifiedAt: new Date(),
-      verificationMethod: 'OTP',
-      status: 'DELIVERED',
-      deliveredAt: order.deliveredAt || new Date(),
-    },
+  return prisma.$transaction(async (tx) => {
+    const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.DELIVERED, actor, tx);
+
+    const verifiedOrder = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        verifiedAt: new Date(),
+        verificationMethod: 'OTP',
+        ...orderStateService.getStatusData(fromStatus, OrderStatus.DELIVERED),
+        deliveredAt: order.deliveredAt || new Date(),
+      },
+    });
+
+    await orderStateService.recordTransition(
+      { orderId, from: fromStatus, to: OrderStatus.DELIVERED, actor, reason: 'Verified with OTP' },
+      tx
+    );
+
+    if (codAmount !== null && verifiedOrder.agentId) {
+      await codService.recordCollection(orderId, verifiedOrder.agentId, codAmount, tx);
+    }
+
+    return verifiedOrder;
   });
 }
 
 /**
- * Verify delivery using QR code
+ * Verify delivery using QR code (see verifyDeliveryWithOTP)
  */
-export async function verifyDeliveryWithQR(qrCode: string) {
+export async function verifyDeliveryWithQR(
+  qrCode: string,
+  actor: StatusActor = { type: ActorType.AGENT },
+  codAmount: number | null = null
+) {
   // Parse QR code: DELIVERY:orderId:otp
   const parts = qrCode.split(':');
   if (parts.length !== 3 || parts[0] !== 'DELIVERY') {
@@ -88,7 +144,172 @@ export async function verifyDeliveryWithQR(qrCode: string) {
   const orderId = parts[1];
   const otp = parts[2];
 
-  return await verifyDeliveryWithOTP(orderId, otp);
+  return await verifyDeliveryWithOTP(orderId, otp, actor, codAmount);
+}
+
+/**
+ * Validate the capture geotag and time of a proof of delivery against the drop
+ */
+export function validateProofOfDeliveryCapture(
+  drop: { latitude: number; longitude: number },
+  input: ProofOfDeliveryInput,
+  now: Date = new Date()
+) {
+  const latitude = toNumber(input.latitude);
+  const longitude = toNumber(input.longitude);
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new ValidationError('latitude and longitude of the capture are required');
+  }
+
+  const accuracy = toNumber(input.accuracy);
+  if (accuracy !== null && accuracy < 0) {
+    throw new ValidationError('accuracy must be a non-negative number of meters');
+  }
+
+  const capturedAt = input.capturedAt ? new Date(input.capturedAt as string) : null;
+  if (!capturedAt || isNaN(capturedAt.getTime())) {
+    throw new ValidationError('capturedAt must be a valid date');
+  }
+  if (capturedAt.getTime() > now.getTime() + POD_CLOCK_SKEW_MINUTES * 60000) {
+    throw new ValidationError('capturedAt cannot be in the future');
+  }
+  if (capturedAt.getTime() < now.getTime() - POD_MAX_CAPTURE_AGE_MINUTES * 60000) {
+    throw new ValidationError(`Proof of delivery must be captured within the last ${POD_MAX_CAPTURE_AGE_MINUTES} minutes`);
+  }
+
+  const distanceFromDrop = Math.round(haversineDistance(latitude, longitude, drop.latitude, drop.longitude));
+  const allowedDistance = POD_MAX_DISTANCE_METERS + Math.min(accuracy ?? 0, POD_MAX_ACCURACY_ALLOWANCE_METERS);
+  if (distanceFromDrop > allowedDistance) {
+    throw new ValidationError(
+      `Proof of delivery was captured ${distanceFromDrop}m from the drop location (allowed ${allowedDistance}m)`
+    );
+  }
+
+  return { latitude, longitude, accuracy, capturedAt, distanceFromDrop };
+}
+
+/**
+ * Verify delivery with a proof of delivery (photo and/or signature, geotagged at the drop)
+ * The order is delivered with verificationMethod SIGNATURE (when signed) or PHOTO;
+ * codAmount (COD cash collected) is recorded in the agent's ledger with the delivery
+ */
+export async function verifyDeliveryWithProof(
+  orderId: string,
+  agentId: string,
+  input: ProofOfDeliveryInput,
+  actor: StatusActor = { type: ActorType.AGENT },
+  codAmount: number | null = null
+) {
+  if (!input.photoUrl && !input.signatureUrl) {
+    throw new ValidationError('A delivery photo or signature is required');
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      agentId: true,
+      status: true,
+      delayedFromStatus: true,
+      isRTO: true,
+      logisticsProviderId: true,
+      dropWarehouseId: true,
+      transitLegs: true,
+      pickupLat: true,
+      pickupLng: true,
+      dropLat: true,
+      dropLng: true,
+      deliveredAt: true,
+    },
+  });
+
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  if (order.agentId !== agentId) {
+    throw new AppError('Order not assigned to you', 403);
+  }
+  // A proof can be captured in any status the actor could deliver the order from
+  if (
+    order.status === OrderStatus.DELIVERED ||
+    !orderStateService.canTransition(order, OrderStatus.DELIVERED, actor.type)
+  ) {
+    throw new ValidationError(`Proof of delivery cannot be captured for an order in status ${order.status}`);
+  }
+
+  const capture = validateProofOfDeliveryCapture({ latitude: order.dropLat, longitude: order.dropLng }, input);
+
+  return prisma.$transaction(async (tx) => {
+    const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.DELIVERED, actor, tx);
+
+    const proof = await tx.proofOfDelivery.create({
+      data: {
+        orderId,
+        agentId,
+        photoUrl: input.photoUrl || null,
+        signatureUrl: input.signatureUrl || null,
+        recipientName: input.recipientName || null,
+        notes: input.notes || null,
+        ...capture,
+      },
+    });
+
+    const verifiedOrder = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        verifiedAt: new Date(),
+        verificationMethod: input.signatureUrl ? 'SIGNATURE' : 'PHOTO',
+        ...orderStateService.getStatusData(fromStatus, OrderStatus.DELIVERED),
+        deliveredAt: order.deliveredAt || new Date(),
+      },
+    });
+
+    await orderStateService.recordTransition(
+      { orderId, from: fromStatus, to: OrderStatus.DELIVERED, actor, reason: 'Verified with proof of delivery' },
+      tx
+    );
+
+    if (codAmount !== null) {
+      await codService.recordCollection(orderId, agentId, codAmount, tx);
+    }
+
+    return { order: verifiedOrder, proof };
+  });
+}
+
+/**
+ * Proof of delivery for a partner's order (null when none was captured)
+ */
+export async function getProofOfDelivery(orderId: string, partnerId: string) {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, partnerId },
+    select: {
+      id: true,
+      status: true,
+      verifiedAt: true,
+      verificationMethod: true,
+      proofOfDelivery: {
+        select: {
+          photoUrl: true,
+          signatureUrl: true,
+          recipientName: true,
+          notes: true,
+          latitude: true,
+          longitude: true,
+          accuracy: true,
+          capturedAt: true,
+          distanceFromDrop: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+
+  return order;
 }
 
 /**
@@ -117,6 +338,9 @@ export const deliveryVerificationService = {
   generateDeliveryVerification,
   verifyDeliveryWithOTP,
   verifyDeliveryWithQR,
+  validateProofOfDeliveryCapture,
+  verifyDeliveryWithProof,
+  getProofOfDelivery,
   getDeliveryVerification,
 };
 
@@ -1,5 +1,5 @@
 import { prisma } from '../lib/prisma';
-import { EventType, ActorType } from '@prisma/client';
+import { EventType, ActorType, Prisma } from '@prisma/client';
 
 export interface LogEventParams {
   userId?: string;
@@ -18,10 +18,11 @@ export const eventService = {
   /**
    * Log an event to the database
    * This is non-blocking and won't throw errors to avoid disrupting main flow
+   * Pass a transaction client to log only if the transaction commits
    */
-  async logEvent(params: LogEventParams): Promise<void> {
+  async logEvent(params: LogEventParams, client: Prisma.TransactionClient = prisma): Promise<void> {
     try {
-      await prisma.appEvent.create({
+      await client.appEvent.create({
         data: {
           userId: params.userId,
           actorType: params.actorType,
@@ -45,7 +46,8 @@ export const eventService = {
     orderId: string,
     actorType: ActorType,
     userId?: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    client?: Prisma.TransactionClient
   ): Promise<void> {
     await this.logEvent({
       userId,
@@ -54,7 +56,7 @@ export const eventService = {
       entityType: 'ORDER',
       entityId: orderId,
       metadata,
-    });
+    }, client);
   },
 
   /**
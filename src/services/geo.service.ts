@@ -0,0 +1,540 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { cacheService, cacheKeys } from './cache.service';
+
+/**
+ * Geo Service - Distances, directions and geocoding behind one provider interface
+ *
+ * RULES:
+ * - GEO_PROVIDER picks the provider: google | osrm | haversine
+ *   (default: google when GOOGLE_MAPS_API_KEY is set, otherwise haversine, so dev and tests need no key)
+ * - osrm routes through OSRM_URL; geocoding uses NOMINATIM_URL when set
+ * - When the provider is unreachable or fails, distances and directions fall back to haversine
+ *   (straight line at HAVERSINE_SPEED_KMPH) and geocoding returns null; request errors (bad input) are thrown
+ * - Provider answers are cached in cacheService (routes for ROUTE_CACHE_TTL, geocodes for GEOCODE_CACHE_TTL);
+ *   fallback answers are not cached
+ * - haversineDistance is the only great-circle formula in the codebase; sync callers use it directly
+ */
+
+const EARTH_RADIUS_METERS = 6371000;
+const HAVERSINE_SPEED_KMPH = 25; // Straight-line ETA speed (matches BIKE in pricing)
+const REQUEST_TIMEOUT_MS = 10000;
+const ROUTE_CACHE_TTL = 900; // 15 minutes (durations follow traffic)
+const GEOCODE_CACHE_TTL = 30 * 24 * 60 * 60; // 30 days
+const COORDINATE_PRECISION = 5; // ~1m, used in cache keys
+
+export type GeoProviderName = 'google' | 'osrm' | 'haversine';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export interface DirectionsResult extends RouteLeg {
+  provider: GeoProviderName;
+  status: 'OK' | 'ZERO_RESULTS';
+  origin: GeoPoint;
+  destination: GeoPoint;
+  polyline: string | null; // Encoded polyline (null for straight-line routes)
+  fallback: boolean; // true when the configured provider failed and haversine answered
+}
+
+export interface DistanceMatrixResult {
+  provider: GeoProviderName;
+  rows: Array<Array<RouteLeg | null>>; // rows[origin][destination], null when no route exists
+  fallback: boolean;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  provider: GeoProviderName;
+  formattedAddress: string;
+}
+
+export interface GeoProvider {
+  name: GeoProviderName;
+  maxMatrixElements: number;
+  distanceMatrix(origins: GeoPoint[], destinations: GeoPoint[]): Promise<Array<Array<RouteLeg | null>>>;
+  directions(origin: GeoPoint, destination: GeoPoint): Promise<{ leg: RouteLeg; polyline: string | null } | null>;
+  geocode(address: string): Promise<GeocodeResult | null>;
+  reverseGeocode(point: GeoPoint): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+};
+
+const straightLineLeg = (from: GeoPoint, to: GeoPoint): RouteLeg => {
+  const distanceMeters = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  return {
+    distanceMeters: Math.round(distanceMeters),
+    durationSeconds: Math.round((distanceMeters / 1000 / HAVERSINE_SPEED_KMPH) * 3600),
+  };
+};
+
+const formatPoint = (point: GeoPoint) =>
+  `${point.latitude.toFixed(COORDINATE_PRECISION)},${point.longitude.toFixed(COORDINATE_PRECISION)}`;
+
+/**
+ * Parse "lat,lng" (returns null for anything else, e.g. an address)
+ */
+export const parseGeoPoint = (value: string): GeoPoint | null => {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { latitude, longitude };
+};
+
+const haversineProvider: GeoProvider = {
+  name: 'haversine',
+  maxMatrixElements: Infinity,
+
+  async distanceMatrix(origins, destinations) {
+    return origins.map((origin) => destinations.map((destination) => straightLineLeg(origin, destination)));
+  },
+
+  async directions(origin, destination) {
+    return { leg: straightLineLeg(origin, destination), polyline: null };
+  },
+
+  async geocode() {
+    return null;
+  },
+
+  async reverseGeocode() {
+    return null;
+  },
+};
+
+/**
+ * Google status -> error: bad input is the caller's fault, anything else lets the service fall back
+ */
+const assertGoogleStatus = (data: any, api: string) => {
+  if (data.status === 'OK' || data.status === 'ZERO_RESULTS') {
+    return;
+  }
+  if (data.status === 'NOT_FOUND') {
+    throw new NotFoundError(data.error_message || 'Location not found');
+  }
+  if (data.status === 'INVALID_REQUEST') {
+    throw new ValidationError(data.error_message || `Invalid ${api} request`);
+  }
+  throw new Error(`Google ${api} API error: ${data.status}${data.error_message ? ` - ${data.error_message}` : ''}`);
+};
+
+const createGoogleProvider = (apiKey: string): GeoProvider => {
+  const baseUrl = 'https://maps.googleapis.com/maps/api';
+
+  const toGeocodeResult = (result: any): GeocodeResult => ({
+    provider: 'google',
+    latitude: result.geometry.location.lat,
+    longitude: result.geometry.location.lng,
+    formattedAddress: result.formatted_address,
+  });
+
+  return {
+    name: 'google',
+    maxMatrixElements: 100, // Per Distance Matrix request
+
+    async distanceMatrix(origins, destinations) {
+      const response = await axios.get(`${baseUrl}/distancematrix/json`, {
+        params: {
+          origins: origins.map(formatPoint).join('|'),
+          destinations: destinations.map(formatPoint).join('|'),
+          key: apiKey,
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      assertGoogleStatus(response.data, 'Distance Matrix');
+
+      return (response.data.rows || []).map((row: any) =>
+        row.elements.map((element: any) =>
+          element.status === 'OK'
+            ? { distanceMeters: element.distance.value, durationSeconds: element.duration.value }
+            : null
+        )
+      );
+    },
+
+    async directions(origin, destination) {
+      const response = await axios.get(`${baseUrl}/directions/json`, {
+        params: { origin: formatPoint(origin), destination: formatPoint(destination), key: apiKey },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      assertGoogleStatus(response.data, 'Directions');
+
+      const route = response.data.routes?.[0];
+      if (!route) {
+        return null;
+      }
+
+      return {
+        leg: {
+          distanceMeters: route.legs.reduce((sum: number, leg: any) => sum + leg.distance.value, 0),
+          durationSeconds: route.legs.reduce((sum: number, leg: any) => sum + leg.duration.value, 0),
+        },
+        polyline: route.overview_polyline?.points || null,
+      };
+    },
+
+    async geocode(address) {
+      const response = await axios.get(`${baseUrl}/geocode/json`, {
+        params: { address, key: apiKey },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      assertGoogleStatus(response.data, 'Geocoding');
+
+      const result = response.data.results?.[0];
+      return result ? toGeocodeResult(result) : null;
+    },
+
+    async reverseGeocode(point) {
+      const response = await axios.get(`${baseUrl}/geocode/json`, {
+        params: { latlng: formatPoint(point), key: apiKey },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      assertGoogleStatus(response.data, 'Geocoding');
+
+      const result = response.data.results?.[0];
+      return result ? toGeocodeResult(result) : null;
+    },
+  };
+};
+
+/**
+ * Self-hosted OSRM for routing; Nominatim (when configured) for geocoding
+ */
+const createOsrmProvider = (osrmUrl: string, nominatimUrl?: string): GeoProvider => {
+  const baseUrl = osrmUrl.replace(/\/$/, '');
+  const geocoderUrl = nominatimUrl?.replace(/\/$/, '');
+
+  // OSRM takes lng,lat
+  const formatCoordinates = (points: GeoPoint[]) =>
+    points.map((point) => `${point.longitude},${point.latitude}`).join(';');
+
+  const assertOsrmCode = (data: any) => {
+    if (data.code === 'Ok' || data.code === 'NoRoute') {
+      return;
+    }
+    if (data.code === 'InvalidQuery' || data.code === 'InvalidValue' || data.code === 'InvalidInput') {
+      throw new ValidationError(data.message || 'Invalid routing request');
+    }
+    throw new Error(`OSRM error: ${data.code}${data.message ? ` - ${data.message}` : ''}`);
+  };
+
+  const toGeocodeResult = (result: any): GeocodeResult => ({
+    provider: 'osrm',
+    latitude: parseFloat(result.lat),
+    longitude: parseFloat(result.lon),
+    formattedAddress: result.display_name,
+  });
+
+  return {
+    name: 'osrm',
+    maxMatrixElements: 10000,
+
+    async distanceMatrix(origins, destinations) {
+      const points = [...origins, ...destinations];
+      const response = await axios.get(`${baseUrl}/table/v1/driving/${formatCoordinates(points)}`, {
+        params: {
+          sources: origins.map((_, index) => index).join(';'),
+          destinations: destinations.map((_, index) => origins.length + index).join(';'),
+          annotations: 'distance,duration',
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      assertOsrmCode(response.data);
+
+      return origins.map((_, i) =>
+        destinations.map((_, j) => {
+          const distance = response.data.distances?.[i]?.[j];
+          const duration = response.data.durations?.[i]?.[j];
+          return distance === null || distance === undefined || duration === null || duration === undefined
+            ? null
+            : { distanceMeters: Math.round(distance), durationSeconds: Math.round(duration) };
+        })
+      );
+    },
+
+    async directions(origin, destination) {
+      const response = await axios.get(`${baseUrl}/route/v1/driving/${formatCoordinates([origin, destination])}`, {
+        params: { overview: 'full', geometries: 'polyline' },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      assertOsrmCode(response.data);
+
+      const route = response.data.routes?.[0];
+      if (!route) {
+        return null;
+      }
+
+      return {
+        leg: { distanceMeters: Math.round(route.distance), durationSeconds: Math.round(route.duration) },
+        polyline: route.geometry || null,
+      };
+    },
+
+    async geocode(address) {
+      if (!geocoderUrl) {
+        return null;
+      }
+      const response = await axios.get(`${geocoderUrl}/search`, {
+        params: { q: address, format: 'json', limit: 1 },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      return response.data?.[0] ? toGeocodeResult(response.data[0]) : null;
+    },
+
+    async reverseGeocode(point) {
+      if (!geocoderUrl) {
+        return null;
+      }
+      const response = await axios.get(`${geocoderUrl}/reverse`, {
+        params: { lat: point.latitude, lon: point.longitude, format: 'json' },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      return response.data && !response.data.error ? toGeocodeResult(response.data) : null;
+    },
+  };
+};
+
+let activeProvider: GeoProvider | null = null;
+
+/**
+ * Provider for this environment (GEO_PROVIDER, falling back to haversine when it is not configured)
+ */
+const resolveProvider = (): GeoProvider => {
+  const googleApiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+  const requested = (process.env.GEO_PROVIDER || (googleApiKey ? 'google' : 'haversine')).toLowerCase();
+
+  if (requested === 'google') {
+    if (googleApiKey) {
+      return createGoogleProvider(googleApiKey);
+    }
+    console.warn('[Geo] GEO_PROVIDER=google but GOOGLE_MAPS_API_KEY is not set - using haversine');
+  } else if (requested === 'osrm') {
+    if (process.env.OSRM_URL) {
+      return createOsrmProvider(process.env.OSRM_URL, process.env.NOMINATIM_URL);
+    }
+    console.warn('[Geo] GEO_PROVIDER=osrm but OSRM_URL is not set - using haversine');
+  } else if (requested !== 'haversine') {
+    console.warn(`[Geo] Unknown GEO_PROVIDER "${requested}" - using haversine`);
+  }
+
+  return haversineProvider;
+};
+
+/**
+ * Run a provider call; provider outages fall back, caller errors (AppError) are rethrown
+ */
+const withFallback = async <T>(
+  operation: string,
+  call: () => Promise<T>,
+  fallback: () => Promise<T>
+): Promise<{ value: T; fallback: boolean }> => {
+  try {
+    return { value: await call(), fallback: false };
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    console.warn(`[Geo] ${geoService.getProvider().name} ${operation} failed, using haversine:`, error?.message || error);
+    return { value: await fallback(), fallback: true };
+  }
+};
+
+/**
+ * Cache-aside for provider answers; fallback answers are not cached so the provider is retried once it recovers
+ */
+const cachedLookup = async <T>(
+  key: string,
+  ttl: number,
+  compute: () => Promise<{ value: T; fallback: boolean }>
+): Promise<T> => {
+  const cached = await cacheService.get<T>(key);
+  if (cached !== null) {
+    return cached;
+  }
+
+  const { value, fallback } = await compute();
+  if (!fallback && value !== null) {
+    await cacheService.set(key, value, ttl);
+  }
+  return value;
+};
+
+export const geoService = {
+  /**
+   * Configured provider (resolved once per process)
+   */
+  getProvider(): GeoProvider {
+    if (!activeProvider) {
+      activeProvider = resolveProvider();
+      console.log(`[Geo] Using ${activeProvider.name} provider`);
+    }
+    return activeProvider;
+  },
+
+  /**
+   * Swap the provider (tests, or after changing env at runtime); null re-reads the environment
+   */
+  setProvider(provider: GeoProvider | null): void {
+    activeProvider = provider;
+  },
+
+  /**
+   * Road distance/duration from every origin to every destination
+   * Large matrices are split by origin rows to fit the provider's per-request limit
+   */
+  async distanceMatrix(origins: GeoPoint[], destinations: GeoPoint[]): Promise<DistanceMatrixResult> {
+    const provider = this.getProvider();
+    if (origins.length === 0 || destinations.length === 0) {
+      return { provider: provider.name, rows: [], fallback: false };
+    }
+
+    const points = `${origins.map(formatPoint).join('|')}:${destinations.map(formatPoint).join('|')}`;
+    const key = cacheKeys.geo.matrix(provider.name, crypto.createHash('sha1').update(points).digest('hex'));
+    return cachedLookup(key, ROUTE_CACHE_TTL, async () => {
+      const rowsPerRequest = Math.floor(provider.maxMatrixElements / destinations.length);
+      const { value: rows, fallback } = await withFallback(
+        'distance matrix',
+        async () => {
+          if (rowsPerRequest < 1) {
+            throw new Error(`${destinations.length} destinations exceed the matrix limit`);
+          }
+          const result: Array<Array<RouteLeg | null>> = [];
+          for (let i = 0; i < origins.length; i += rowsPerRequest) {
+            result.push(...(await provider.distanceMatrix(origins.slice(i, i + rowsPerRequest), destinations)));
+          }
+          return result;
+        },
+        () => haversineProvider.distanceMatrix(origins, destinations)
+      );
+
+      return { value: { provider: fallback ? haversineProvider.name : provider.name, rows, fallback }, fallback };
+    });
+  },
+
+  /**
+   * Road distance/duration between two points (straight line when no route exists)
+   */
+  async distance(origin: GeoPoint, destination: GeoPoint): Promise<RouteLeg & { provider: GeoProviderName }> {
+    const matrix = await this.distanceMatrix([origin], [destination]);
+    const leg = matrix.rows[0]?.[0];
+
+    return leg
+      ? { ...leg, provider: matrix.provider }
+      : { ...straightLineLeg(origin, destination), provider: haversineProvider.name };
+  },
+
+  /**
+   * Route between two points; strings may be "lat,lng" or an address (geocoded first)
+   */
+  async directions(origin: GeoPoint | string, destination: GeoPoint | string): Promise<DirectionsResult> {
+    const provider = this.getProvider();
+    const [from, to] = await Promise.all([this.resolvePoint(origin), this.resolvePoint(destination)]);
+
+    const key = cacheKeys.geo.directions(provider.name, formatPoint(from), formatPoint(to));
+    return cachedLookup(key, ROUTE_CACHE_TTL, async () => {
+      const { value: route, fallback } = await withFallback(
+        'directions',
+        () => provider.directions(from, to),
+        () => haversineProvider.directions(from, to)
+      );
+
+      const result: DirectionsResult = {
+        provider: fallback ? haversineProvider.name : provider.name,
+        status: route ? 'OK' : 'ZERO_RESULTS',
+        origin: from,
+        destination: to,
+        distanceMeters: route?.leg.distanceMeters ?? 0,
+        durationSeconds: route?.leg.durationSeconds ?? 0,
+        polyline: route?.polyline ?? null,
+        fallback,
+      };
+      return { value: result, fallback };
+    });
+  },
+
+  /**
+   * Address -> coordinates (null when not found or no geocoder is available)
+   */
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const provider = this.getProvider();
+    const normalized = address.trim().replace(/\s+/g, ' ').toLowerCase();
+
+    return cachedLookup(cacheKeys.geo.geocode(provider.name, normalized), GEOCODE_CACHE_TTL, () =>
+      withFallback('geocode', () => provider.geocode(address), async () => null)
+    );
+  },
+
+  /**
+   * Coordinates -> address (null when not found or no geocoder is available)
+   */
+  async reverseGeocode(point: GeoPoint): Promise<GeocodeResult | null> {
+    const provider = this.getProvider();
+
+    return cachedLookup(cacheKeys.geo.reverseGeocode(provider.name, formatPoint(point)), GEOCODE_CACHE_TTL, () =>
+      withFallback('reverse geocode', () => provider.reverseGeocode(point), async () => null)
+    );
+  },
+
+  /**
+   * "lat,lng" or an address -> point
+   */
+  async resolvePoint(value: GeoPoint | string): Promise<GeoPoint> {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const parsed = parseGeoPoint(value);
+    if (parsed) {
+      return parsed;
+    }
+
+    const geocoded = await this.geocode(value);
+    if (!geocoded) {
+      throw new ValidationError(`Could not geocode "${value}" - pass coordinates as "lat,lng"`);
+    }
+    return { latitude: geocoded.latitude, longitude: geocoded.longitude };
+  },
+
+  /**
+   * Sync distance lookup (meters) over a precomputed matrix, for route optimization
+   * Points outside the matrix (or without a route) use haversine
+   */
+  async getDistanceFunction(points: GeoPoint[]): Promise<(from: GeoPoint, to: GeoPoint) => number> {
+    const matrix = await this.distanceMatrix(points, points);
+    const index = new Map(points.map((point, i) => [formatPoint(point), i]));
+
+    return (from, to) => {
+      const i = index.get(formatPoint(from));
+      const j = index.get(formatPoint(to));
+      const leg = i !== undefined && j !== undefined ? matrix.rows[i]?.[j] : null;
+      return leg ? leg.distanceMeters : haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+    };
+  },
+};
@@ -0,0 +1,458 @@
+import { ActorType, EventType, GeofenceOverrideStatus, OrderStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { redisGeo } from '../lib/redis';
+import { sendGeofenceOverrideUpdateToAgent } from '../lib/websocket';
+import { ConflictError, GeofenceViolationError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { eventService } from './event.service';
+import { GeoPoint, haversineDistance } from './geo.service';
+
+/**
+ * Geofence Service - Agents change an order to PICKED_UP / DELIVERED only near the pickup / drop
+ *
+ * RULES:
+ * - PICKED_UP needs the agent within pickupGeofenceRadius of the pickup, DELIVERED within
+ *   dropGeofenceRadius of the drop (the drop warehouse for warehouse legs); radii live in SystemSettings
+ * - The agent's position is their latest Redis GEO location, else their latest location history entry;
+ *   a position older than POSITION_MAX_AGE_MINUTES, or none, is outside the geofence
+ * - Every AGENT status change is enforced by orderStateService.assertTransition (warehouse legs:
+ *   IN_TRANSIT is a pickup, AT_WAREHOUSE a drop)
+ * - Outside the geofence the agent requests an override (PENDING); an admin approves or rejects it,
+ *   or grants one directly. An APPROVED override is used once, before expiresAt, for its target status,
+ *   and is marked USED in the same transaction as the status write
+ * - Using an override logs a GEOFENCE_OVERRIDE_USED order event (the audit trail)
+ */
+
+const OVERRIDE_TTL_MINUTES = 60; // How long an approved override stays usable
+const POSITION_MAX_AGE_MINUTES = 5; // Older positions do not place the agent anywhere
+
+const DEFAULT_GEOFENCE_SETTINGS = {
+  enabled: true,
+  pickupRadius: 200, // meters
+  dropRadius: 300, // meters
+};
+
+// Statuses guarded by a geofence
+const GEOFENCED_STATUSES: string[] = [OrderStatus.PICKED_UP, OrderStatus.DELIVERED];
+
+// Warehouse leg statuses and the geofence they fall under
+const WAREHOUSE_LEG_GEOFENCES: Partial<Record<OrderStatus, OrderStatus>> = {
+  [OrderStatus.IN_TRANSIT]: OrderStatus.PICKED_UP, // Picked up at the origin warehouse
+  [OrderStatus.AT_WAREHOUSE]: OrderStatus.DELIVERED, // Dropped at the drop warehouse
+};
+
+export type GeofenceSettings = typeof DEFAULT_GEOFENCE_SETTINGS;
+
+export interface GeofenceOrder {
+  id: string;
+  pickupLat: number;
+  pickupLng: number;
+  dropLat: number;
+  dropLng: number;
+  dropWarehouseId?: string | null;
+}
+
+export interface GeofenceCheck {
+  allowed: boolean;
+  target?: 'PICKUP' | 'DROP';
+  radius?: number; // meters
+  distance?: number | null; // meters (null when the agent's position is unknown)
+  overrideId?: string; // Set when an approved override let the change through
+  message?: string;
+}
+
+const isGeofencedStatus = (status: string) => GEOFENCED_STATUSES.includes(status);
+
+const assertRadius = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new ValidationError(`${field} must be a positive number of meters`);
+  }
+  return value;
+};
+
+/**
+ * Latest recent position: Redis GEO first, then the location history
+ */
+const getAgentPosition = async (agentId: string): Promise<GeoPoint | null> => {
+  const since = new Date(Date.now() - POSITION_MAX_AGE_MINUTES * 60000);
+
+  const cached = await redisGeo.getAgentLocation(agentId);
+  if (cached?.updatedAt && cached.updatedAt >= since) {
+    return { latitude: cached.latitude, longitude: cached.longitude };
+  }
+
+  const lastLocation = await prisma.agentLocation.findFirst({
+    where: { agentId, timestamp: { gte: since } },
+    orderBy: { timestamp: 'desc' },
+    select: { latitude: true, longitude: true },
+  });
+
+  return lastLocation;
+};
+
+/**
+ * Latest APPROVED, unexpired override for a status change
+ */
+const findUsableOverride = (
+  orderId: string,
+  agentId: string,
+  status: string,
+  client: Prisma.TransactionClient = prisma
+) =>
+  client.geofenceOverride.findFirst({
+    where: {
+      orderId,
+      agentId,
+      targetStatus: status as OrderStatus,
+      status: GeofenceOverrideStatus.APPROVED,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { reviewedAt: 'desc' },
+  });
+
+/**
+ * Geofence center for a status change (the drop warehouse for warehouse legs)
+ */
+const getGeofenceCenter = async (order: GeofenceOrder, status: string): Promise<GeoPoint> => {
+  if (status === OrderStatus.PICKED_UP) {
+    return { latitude: order.pickupLat, longitude: order.pickupLng };
+  }
+
+  if (order.dropWarehouseId) {
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: order.dropWarehouseId },
+      select: { latitude: true, longitude: true },
+    });
+    if (warehouse) {
+      return warehouse;
+    }
+  }
+
+  return { latitude: order.dropLat, longitude: order.dropLng };
+};
+
+export const geofenceService = {
+  /**
+   * Geofenced status a status change counts as (null when it is not geofenced)
+   */
+  statusFor(status: OrderStatus): OrderStatus | null {
+    if (isGeofencedStatus(status)) {
+      return status;
+    }
+    return WAREHOUSE_LEG_GEOFENCES[status] || null;
+  },
+
+  /**
+   * Geofence settings (defaults when the columns do not exist yet)
+   */
+  async getSettings(): Promise<GeofenceSettings> {
+    try {
+      const settings = await prisma.systemSettings.findUnique({
+        where: { id: 'system' },
+        select: { geofenceEnabled: true, pickupGeofenceRadius: true, dropGeofenceRadius: true },
+      });
+
+      if (!settings) {
+        return DEFAULT_GEOFENCE_SETTINGS;
+      }
+
+      return {
+        enabled: settings.geofenceEnabled,
+        pickupRadius: settings.pickupGeofenceRadius,
+        dropRadius: settings.dropGeofenceRadius,
+      };
+    } catch (error: any) {
+      if (error?.code === 'P2021' || error?.code === 'P2022' || error?.message?.includes('does not exist')) {
+        console.warn('[Geofence] Geofence settings not available - using defaults');
+        return DEFAULT_GEOFENCE_SETTINGS;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Validate a geofence settings update ({ enabled, pickupRadius, dropRadius }) into SystemSettings columns
+   * Omitted keys are left unchanged
+   */
+  parseSettingsUpdate(input: unknown): {
+    geofenceEnabled?: boolean;
+    pickupGeofenceRadius?: number;
+    dropGeofenceRadius?: number;
+  } {
+    if (input === undefined) {
+      return {};
+    }
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new ValidationError('geofence must be an object');
+    }
+
+    const { enabled, pickupRadius, dropRadius } = input as Record<string, unknown>;
+    const data: ReturnType<typeof geofenceService.parseSettingsUpdate> = {};
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        throw new ValidationError('geofence.enabled must be a boolean');
+      }
+      data.geofenceEnabled = enabled;
+    }
+    if (pickupRadius !== undefined) {
+      data.pickupGeofenceRadius = assertRadius(pickupRadius, 'geofence.pickupRadius');
+    }
+    if (dropRadius !== undefined) {
+      data.dropGeofenceRadius = assertRadius(dropRadius, 'geofence.dropRadius');
+    }
+
+    return data;
+  },
+
+  /**
+   * Distance of the agent from the geofence of a status change (no check for other statuses)
+   */
+  async check(order: GeofenceOrder, agentId: string, status: string): Promise<GeofenceCheck> {
+    const settings = await this.getSettings();
+    if (!settings.enabled || !isGeofencedStatus(status)) {
+      return { allowed: true };
+    }
+
+    const target = status === OrderStatus.PICKED_UP ? 'PICKUP' : 'DROP';
+    const radius = target === 'PICKUP' ? settings.pickupRadius : settings.dropRadius;
+    const [position, center] = await Promise.all([getAgentPosition(agentId), getGeofenceCenter(order, status)]);
+
+    if (!position) {
+      return {
+        allowed: false,
+        target,
+        radius,
+        distance: null,
+        message: `Your current location is unknown. Share your location to mark the order ${status}`,
+      };
+    }
+
+    const distance = Math.round(haversineDistance(position.latitude, position.longitude, center.latitude, center.longitude));
+    if (distance > radius) {
+      return {
+        allowed: false,
+        target,
+        radius,
+        distance,
+        message: `You are ${distance}m from the ${target === 'PICKUP' ? 'pickup' : 'drop'} location; ${status} is allowed within ${radius}m`,
+      };
+    }
+
+    return { allowed: true, target, radius, distance };
+  },
+
+  /**
+   * Check a status change without using an override (allowed when a usable override exists)
+   * For early feedback; the change itself is enforced when it is written
+   */
+  async preview(order: GeofenceOrder, agentId: string, status: string): Promise<GeofenceCheck> {
+    const result = await this.check(order, agentId, status);
+    if (result.allowed) {
+      return result;
+    }
+
+    const override = await findUsableOverride(order.id, agentId, status);
+    return override ? { ...result, allowed: true, overrideId: override.id } : result;
+  },
+
+  /**
+   * Enforce a status change, using an approved override when the agent is outside the geofence
+   * Pass the transaction client of the status write so the override is only used if the write commits
+   * Throws GeofenceViolationError when the change is refused
+   */
+  async enforce(
+    order: GeofenceOrder,
+    agentId: string,
+    status: string,
+    userId?: string | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<GeofenceCheck> {
+    const result = await this.check(order, agentId, status);
+    if (result.allowed) {
+      return result;
+    }
+
+    const override = await findUsableOverride(order.id, agentId, status, client);
+
+    // Conditional update so an override is used once
+    const used = override
+      ? await client.geofenceOverride.updateMany({
+          where: { id: override.id, status: GeofenceOverrideStatus.APPROVED },
+          data: { status: GeofenceOverrideStatus.USED, usedAt: new Date() },
+        })
+      : null;
+
+    if (!override || !used?.count) {
+      throw new GeofenceViolationError(result.message, {
+        code: 'GEOFENCE_VIOLATION',
+        geofence: { target: result.target, radius: result.radius, distance: result.distance },
+        // Ask for an exception with POST /api/agent/orders/:id/geofence-overrides
+        canRequestOverride: true,
+      });
+    }
+
+    await eventService.logOrderEvent(
+      EventType.GEOFENCE_OVERRIDE_USED,
+      order.id,
+      ActorType.AGENT,
+      userId || undefined,
+      {
+        overrideId: override.id,
+        agentId,
+        status,
+        distance: result.distance,
+        radius: result.radius,
+        approvedBy: override.reviewedById,
+      },
+      client
+    );
+
+    return { ...result, allowed: true, overrideId: override.id };
+  },
+
+  /**
+   * Agent asks for an override after being refused (returns the open request when one exists)
+   */
+  async requestOverride(orderId: string, agentId: string, input: { status?: string; reason?: string }, userId?: string | null) {
+    const status = input.status || '';
+    if (!isGeofencedStatus(status)) {
+      throw new ValidationError(`status must be one of ${GEOFENCED_STATUSES.join(', ')}`);
+    }
+    if (!input.reason || !input.reason.trim()) {
+      throw new ValidationError('reason is required');
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, agentId: true, pickupLat: true, pickupLng: true, dropLat: true, dropLng: true, dropWarehouseId: true },
+    });
+    if (!order || order.agentId !== agentId) {
+      throw new NotFoundError('Order not found');
+    }
+
+    const open = await prisma.geofenceOverride.findFirst({
+      where: {
+        orderId,
+        agentId,
+        targetStatus: status as OrderStatus,
+        OR: [
+          { status: GeofenceOverrideStatus.PENDING },
+          { status: GeofenceOverrideStatus.APPROVED, expiresAt: { gt: new Date() } },
+        ],
+      },
+    });
+    if (open) {
+      return open;
+    }
+
+    const result = await this.check(order, agentId, status);
+
+    return prisma.geofenceOverride.create({
+      data: {
+        orderId,
+        agentId,
+        targetStatus: status as OrderStatus,
+        reason: input.reason.trim(),
+        distance: result.distance ?? null,
+        requestedById: userId || null,
+      },
+    });
+  },
+
+  /**
+   * Admin grants an override without a request from the agent
+   */
+  async grantOverride(orderId: string, input: { status?: string; reason?: string }, adminUserId?: string | null) {
+    const status = input.status || '';
+    if (!isGeofencedStatus(status)) {
+      throw new ValidationError(`status must be one of ${GEOFENCED_STATUSES.join(', ')}`);
+    }
+    if (!input.reason || !input.reason.trim()) {
+      throw new ValidationError('reason is required');
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId }, select: { id: true, agentId: true } });
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+    if (!order.agentId) {
+      throw new ValidationError('Order has no assigned agent');
+    }
+
+    const now = new Date();
+    const override = await prisma.geofenceOverride.create({
+      data: {
+        orderId,
+        agentId: order.agentId,
+        targetStatus: status as OrderStatus,
+        status: GeofenceOverrideStatus.APPROVED,
+        reason: input.reason.trim(),
+        reviewedById: adminUserId || null,
+        reviewedAt: now,
+        expiresAt: new Date(now.getTime() + OVERRIDE_TTL_MINUTES * 60000),
+      },
+    });
+
+    await sendGeofenceOverrideUpdateToAgent(override.agentId, override);
+    return override;
+  },
+
+  /**
+   * Admin approves or rejects a PENDING override
+   */
+  async reviewOverride(
+    overrideId: string,
+    decision: 'APPROVED' | 'REJECTED',
+    notes?: string | null,
+    adminUserId?: string | null
+  ) {
+    const override = await prisma.geofenceOverride.findUnique({ where: { id: overrideId } });
+    if (!override) {
+      throw new NotFoundError('Geofence override not found');
+    }
+    if (override.status !== GeofenceOverrideStatus.PENDING) {
+      throw new ConflictError(`Geofence override is already ${override.status}`);
+    }
+
+    const now = new Date();
+    const updated = await prisma.geofenceOverride.update({
+      where: { id: overrideId },
+      data: {
+        status: decision,
+        reviewedById: adminUserId || null,
+        reviewedAt: now,
+        reviewNotes: notes || null,
+        expiresAt: decision === 'APPROVED' ? new Date(now.getTime() + OVERRIDE_TTL_MINUTES * 60000) : null,
+      },
+    });
+
+    await sendGeofenceOverrideUpdateToAgent(updated.agentId, updated);
+    return updated;
+  },
+
+  /**
+   * Overrides, newest first (admin review queue)
+   */
+  async listOverrides(filters: { status?: GeofenceOverrideStatus; orderId?: string; limit?: number; offset?: number } = {}) {
+    const where = {
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.orderId ? { orderId: filters.orderId } : {}),
+    };
+
+    const [overrides, total] = await Promise.all([
+      prisma.geofenceOverride.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+        include: {
+          order: { select: { id: true, status: true, pickupAddressText: true, dropAddressText: true } },
+          agent: { select: { id: true, user: { select: { name: true, phone: true } } } },
+        },
+      }),
+      prisma.geofenceOverride.count({ where }),
+    ]);
+
+    return { overrides, total };
+  },
+};
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { AppError, ConflictError } from '../utils/errors.util';
+
+/**
+ * Idempotency Service - Deduplicates retried partner order mutations
+ *
+ * RULES:
+ * - A key is scoped to the partner; the first request claims it (IN_PROGRESS)
+ * - Once the handler responds, the status and body are stored (COMPLETED)
+ * - Repeats within the TTL replay the stored response instead of re-running the handler
+ * - Repeats with a different method, path or body are rejected (422)
+ * - Repeats while the first request is still running are rejected (409)
+ * - 5xx responses release the key so the client can safely retry
+ */
+
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export interface IdempotencyClaim {
+  recordId: string | null; // Set when the key was claimed and the handler should run
+  replay: { statusCode: number; body: any } | null; // Set when a stored response should be replayed
+}
+
+/**
+ * Hash the parts of a request that must match for a key to be reused
+ */
+export const hashIdempotentRequest = (method: string, path: string, body: any): string => {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ method, path, body: body ?? null }))
+    .digest('hex');
+};
+
+export const idempotencyService = {
+  /**
+   * Claim a key for a request, or return the stored response for a repeat
+   */
+  async claim(partnerId: string, key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { partnerId_key: { partnerId, key } },
+    });
+
+    if (existing && existing.expiresAt <= new Date()) {
+      // Expired keys can be reused for a new request
+      await prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, expiresAt: { lte: new Date() } },
+      });
+    } else if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new AppError('Idempotency-Key was already used with a different request', 422);
+      }
+
+      if (existing.status !== 'COMPLETED') {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed');
+      }
+
+      return {
+        recordId: null,
+        replay: {
+          statusCode: existing.responseStatus || 200,
+          body: existing.responseBody,
+        },
+      };
+    }
+
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          partnerId,
+          key,
+          requestHash,
+          expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+        },
+      });
+
+      return { recordId: record.id, replay: null };
+    } catch (error: any) {
+      // Unique constraint - a concurrent request claimed the key first
+      if (error?.code === 'P2002') {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed');
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Store the response of a claimed request so repeats can replay it
+   */
+  async complete(recordId: string, statusCode: number, body: any) {
+    await prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        status: 'COMPLETED',
+        responseStatus: statusCode,
+        responseBody: body,
+      },
+    });
+  },
+
+  /**
+   * Release a claimed key (the request failed and may be retried)
+   */
+  async release(recordId: string) {
+    await prisma.idempotencyKey.deleteMany({
+      where: { id: recordId },
+    });
+  },
+
+  /**
+   * Delete expired keys
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return result.count;
+  },
+};
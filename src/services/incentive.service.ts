@@ -0,0 +1,486 @@
+import { IncentiveCampaign, IncentiveTargetType, Prisma, VehicleType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError, ValidationError } from '../utils/errors.util';
+import { walletService } from './wallet.service';
+import { getLocalTimeParts, isHourInWindow, isPointInPolygon, ZonePolygon } from './pricing-rule.service';
+
+/**
+ * Incentive Service - Agent bonus campaigns
+ *
+ * RULES:
+ * - Progress is recomputed from the agent's DELIVERED orders between startsAt and endsAt
+ * - peakStartHour/peakEndHour and zone (pickup polygon) limit which deliveries count
+ * - Count targets (ORDER_COUNT, PEAK_HOUR_DELIVERIES, ZONE_DELIVERIES) are rewarded as soon as
+ *   they are reached; ON_TIME_RATE can still drop, so it is rewarded when the campaign is settled
+ * - A delivery is on time when its actual duration is within the estimate (no estimate = on time)
+ * - Rewards are credited once per agent and campaign as an INCENTIVE wallet transaction; the credit and
+ *   the claim of IncentiveProgress.rewardedAt are one transaction
+ * - Progress is stored and rewarded after each delivery (recordDelivery) and at settlement; reading an
+ *   agent's campaigns never writes
+ */
+
+const COUNT_TARGETS: IncentiveTargetType[] = [
+  IncentiveTargetType.ORDER_COUNT,
+  IncentiveTargetType.PEAK_HOUR_DELIVERIES,
+  IncentiveTargetType.ZONE_DELIVERIES,
+];
+
+export interface IncentiveCampaignInput {
+  name?: string;
+  description?: string | null;
+  targetType?: IncentiveTargetType;
+  targetValue?: number;
+  minDeliveries?: number | null;
+  rewardAmount?: number;
+  startsAt?: string | Date;
+  endsAt?: string | Date;
+  isActive?: boolean;
+  peakStartHour?: number | null;
+  peakEndHour?: number | null;
+  zone?: ZonePolygon | null;
+  cities?: string[];
+  vehicleTypes?: VehicleType[];
+}
+
+export interface AgentCampaignProgress {
+  value: number;
+  deliveries: number;
+  achieved: boolean;
+}
+
+const isHour = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+
+const incentiveReference = (campaignId: string) => `INCENTIVE_${campaignId}`;
+
+/**
+ * Validate a full campaign (create, or an update merged with the stored campaign)
+ */
+const validateCampaign = (input: IncentiveCampaignInput) => {
+  if (!input.name) {
+    throw new ValidationError('name is required');
+  }
+  if (!input.targetType || !Object.values(IncentiveTargetType).includes(input.targetType)) {
+    throw new ValidationError(`targetType must be one of ${Object.values(IncentiveTargetType).join(', ')}`);
+  }
+  if (typeof input.targetValue !== 'number' || input.targetValue <= 0) {
+    throw new ValidationError('targetValue must be a positive number');
+  }
+  if (input.targetType === IncentiveTargetType.ON_TIME_RATE && input.targetValue > 100) {
+    throw new ValidationError('targetValue for ON_TIME_RATE is a percent (0-100]');
+  }
+  if (input.minDeliveries !== undefined && input.minDeliveries !== null &&
+    (!Number.isInteger(input.minDeliveries) || input.minDeliveries < 1)) {
+    throw new ValidationError('minDeliveries must be a positive integer');
+  }
+  if (typeof input.rewardAmount !== 'number' || input.rewardAmount <= 0) {
+    throw new ValidationError('rewardAmount must be a positive number');
+  }
+
+  const startsAt = new Date(input.startsAt as string | Date);
+  const endsAt = new Date(input.endsAt as string | Date);
+  if (!input.startsAt || !input.endsAt || isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+    throw new ValidationError('startsAt and endsAt must be valid dates');
+  }
+  if (endsAt <= startsAt) {
+    throw new ValidationError('endsAt must be after startsAt');
+  }
+
+  const hasPeakHours = input.peakStartHour !== undefined && input.peakStartHour !== null;
+  if (hasPeakHours !== (input.peakEndHour !== undefined && input.peakEndHour !== null)) {
+    throw new ValidationError('peakStartHour and peakEndHour must be set together');
+  }
+  if (hasPeakHours && (!isHour(input.peakStartHour) || !isHour(input.peakEndHour))) {
+    throw new ValidationError('peakStartHour and peakEndHour must be integers between 0 and 23');
+  }
+  if (input.targetType === IncentiveTargetType.PEAK_HOUR_DELIVERIES && !hasPeakHours) {
+    throw new ValidationError('PEAK_HOUR_DELIVERIES needs peakStartHour and peakEndHour');
+  }
+
+  if (input.zone !== undefined && input.zone !== null &&
+    !(Array.isArray(input.zone) && input.zone.length >= 3 && input.zone.every((point) =>
+      Array.isArray(point) && point.length === 2 && point.every((coordinate) => typeof coordinate === 'number')))) {
+    throw new ValidationError('zone must be a polygon of at least 3 [lat, lng] points');
+  }
+  if (input.targetType === IncentiveTargetType.ZONE_DELIVERIES && !input.zone) {
+    throw new ValidationError('ZONE_DELIVERIES needs a zone');
+  }
+
+  if (input.vehicleTypes && !input.vehicleTypes.every((type) => Object.values(VehicleType).includes(type))) {
+    throw new ValidationError(`vehicleTypes must only contain ${Object.values(VehicleType).join(', ')}`);
+  }
+};
+
+const toCampaignData = (input: IncentiveCampaignInput) => ({
+  name: input.name,
+  description: input.description,
+  targetType: input.targetType,
+  targetValue: input.targetValue,
+  minDeliveries: input.minDeliveries,
+  rewardAmount: input.rewardAmount,
+  startsAt: input.startsAt ? new Date(input.startsAt) : undefined,
+  endsAt: input.endsAt ? new Date(input.endsAt) : undefined,
+  isActive: input.isActive,
+  peakStartHour: input.peakStartHour,
+  peakEndHour: input.peakEndHour,
+  zone: input.zone === null ? Prisma.DbNull : input.zone,
+  cities: input.cities,
+  vehicleTypes: input.vehicleTypes,
+});
+
+const isAgentEligible = (campaign: IncentiveCampaign, agent: { city: string | null; vehicleType: VehicleType }) => {
+  if (campaign.vehicleTypes.length > 0 && !campaign.vehicleTypes.includes(agent.vehicleType)) {
+    return false;
+  }
+  if (campaign.cities.length > 0 &&
+    !campaign.cities.some((city) => city.toLowerCase() === agent.city?.toLowerCase())) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Compute an agent's progress from delivered orders (up to now, or the campaign end)
+ */
+const computeProgress = async (campaign: IncentiveCampaign, agentId: string): Promise<AgentCampaignProgress> => {
+  const until = campaign.endsAt < new Date() ? campaign.endsAt : new Date();
+
+  const orders = await prisma.order.findMany({
+    where: {
+      agentId,
+      status: 'DELIVERED',
+      deliveredAt: { gte: campaign.startsAt, lte: until },
+    },
+    select: {
+      deliveredAt: true,
+      pickupLat: true,
+      pickupLng: true,
+      estimatedDuration: true,
+      actualDuration: true,
+    },
+  });
+
+  const zone = Array.isArray(campaign.zone) ? (campaign.zone as unknown as ZonePolygon) : null;
+  const qualifying = orders.filter((order) => {
+    if (campaign.peakStartHour !== null && campaign.peakEndHour !== null &&
+      !isHourInWindow(getLocalTimeParts(order.deliveredAt as Date).hour, campaign.peakStartHour, campaign.peakEndHour)) {
+      return false;
+    }
+    if (zone && !isPointInPolygon(order.pickupLat, order.pickupLng, zone)) {
+      return false;
+    }
+    return true;
+  });
+
+  const deliveries = qualifying.length;
+
+  if (campaign.targetType === IncentiveTargetType.ON_TIME_RATE) {
+    const onTime = qualifying.filter((order) =>
+      !order.estimatedDuration || order.actualDuration === null || order.actualDuration <= order.estimatedDuration
+    ).length;
+    const value = deliveries > 0 ? Math.round((onTime / deliveries) * 1000) / 10 : 0;
+    return {
+      value,
+      deliveries,
+      achieved: deliveries >= (campaign.minDeliveries || 1) && value >= campaign.targetValue,
+    };
+  }
+
+  return { value: deliveries, deliveries, achieved: deliveries >= campaign.targetValue };
+};
+
+const formatCampaign = (campaign: IncentiveCampaign) => ({
+  id: campaign.id,
+  name: campaign.name,
+  description: campaign.description,
+  targetType: campaign.targetType,
+  targetValue: campaign.targetValue,
+  minDeliveries: campaign.minDeliveries,
+  rewardAmount: campaign.rewardAmount,
+  startsAt: campaign.startsAt.toISOString(),
+  endsAt: campaign.endsAt.toISOString(),
+  peakHours: campaign.peakStartHour !== null
+    ? { startHour: campaign.peakStartHour, endHour: campaign.peakEndHour }
+    : null,
+  zone: campaign.zone,
+});
+
+export const incentiveService = {
+  /**
+   * Store an agent's progress and credit the reward when it is due
+   * Count targets pay out on reaching the target; ON_TIME_RATE only when final
+   */
+  async updateProgress(campaign: IncentiveCampaign, agentId: string, isFinal: boolean = false) {
+    const progress = await computeProgress(campaign, agentId);
+    const payable = progress.achieved && (isFinal || COUNT_TARGETS.includes(campaign.targetType));
+
+    let record = await prisma.incentiveProgress.upsert({
+      where: { campaignId_agentId: { campaignId: campaign.id, agentId } },
+      update: { value: progress.value, deliveries: progress.deliveries },
+      create: { campaignId: campaign.id, agentId, value: progress.value, deliveries: progress.deliveries },
+    });
+
+    if (payable && !record.rewardedAt) {
+      const rewardedAt = new Date();
+      const progressId = record.id;
+      const achievedAt = record.achievedAt || rewardedAt;
+
+      await prisma.$transaction(async (tx) => {
+        // Conditional claim so concurrent updates credit the reward once
+        const claimed = await tx.incentiveProgress.updateMany({
+          where: { id: progressId, rewardedAt: null },
+          data: { achievedAt, rewardedAt },
+        });
+        if (claimed.count === 0) {
+          return;
+        }
+
+        await walletService.creditAgentWalletAdjustment(
+          agentId,
+          campaign.rewardAmount,
+          'INCENTIVE',
+          incentiveReference(campaign.id),
+          `Incentive: ${campaign.name}`,
+          tx
+        );
+      });
+
+      record = await prisma.incentiveProgress.findUniqueOrThrow({ where: { id: progressId } });
+    }
+
+    return { ...progress, achievedAt: record.achievedAt, rewardedAt: record.rewardedAt };
+  },
+
+  /**
+   * Update progress in the agent's running campaigns after a delivery
+   */
+  async recordDelivery(agentId: string) {
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { city: true, vehicleType: true },
+    });
+
+    if (!agent) {
+      return;
+    }
+
+    const now = new Date();
+    const campaigns = await prisma.incentiveCampaign.findMany({
+      where: { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } },
+    });
+
+    for (const campaign of campaigns.filter((candidate) => isAgentEligible(candidate, agent))) {
+      await this.updateProgress(campaign, agentId);
+    }
+  },
+
+  /**
+   * Compute final progress for campaigns that have ended and credit achievers
+   */
+  async settleEndedCampaigns(): Promise<number> {
+    const campaigns = await prisma.incentiveCampaign.findMany({
+      where: { isActive: true, endsAt: { lte: new Date() }, settledAt: null },
+    });
+
+    for (const campaign of campaigns) {
+      const deliveringAgents = await prisma.order.findMany({
+        where: {
+          status: 'DELIVERED',
+          agentId: { not: null },
+          deliveredAt: { gte: campaign.startsAt, lte: campaign.endsAt },
+        },
+        select: { agentId: true },
+        distinct: ['agentId'],
+      });
+
+      const agents = await prisma.agent.findMany({
+        where: { id: { in: deliveringAgents.map((order) => order.agentId as string) } },
+        select: { id: true, city: true, vehicleType: true },
+      });
+
+      for (const agent of agents.filter((candidate) => isAgentEligible(campaign, candidate))) {
+        try {
+          await this.updateProgress(campaign, agent.id, true);
+        } catch (error: any) {
+          console.error(`[Incentives] Failed to settle campaign ${campaign.id} for agent ${agent.id}:`, error?.message);
+        }
+      }
+
+      await prisma.incentiveCampaign.update({
+        where: { id: campaign.id },
+        data: { settledAt: new Date() },
+      });
+    }
+
+    return campaigns.length;
+  },
+
+  /**
+   * Running campaigns (and those ended in the last 7 days) the agent is eligible for, with live progress
+   */
+  async getAgentCampaigns(agentId: string) {
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { city: true, vehicleType: true },
+    });
+
+    if (!agent) {
+      throw new NotFoundError('Agent not found');
+    }
+
+    const now = new Date();
+    const campaigns = await prisma.incentiveCampaign.findMany({
+      where: {
+        isActive: true,
+        startsAt: { lte: now },
+        endsAt: { gt: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000) },
+      },
+      orderBy: { endsAt: 'asc' },
+    });
+
+    const results = [];
+    for (const campaign of campaigns.filter((candidate) => isAgentEligible(candidate, agent))) {
+      const ended = campaign.endsAt <= now;
+      const stored = await prisma.incentiveProgress.findUnique({
+        where: { campaignId_agentId: { campaignId: campaign.id, agentId } },
+      });
+      // Running campaigns show live progress (not stored; deliveries store it)
+      const progress = ended ? stored : await computeProgress(campaign, agentId);
+
+      results.push({
+        ...formatCampaign(campaign),
+        status: ended ? 'ENDED' : 'ACTIVE',
+        progress: {
+          value: progress?.value ?? 0,
+          deliveries: progress?.deliveries ?? 0,
+          target: campaign.targetValue,
+          percentComplete: Math.min(100, Math.round(((progress?.value ?? 0) / campaign.targetValue) * 100)),
+          achievedAt: stored?.achievedAt ?? null,
+          rewardedAt: stored?.rewardedAt ?? null,
+        },
+      });
+    }
+
+    return results;
+  },
+
+  /**
+   * List campaigns (newest first)
+   */
+  async listCampaigns(status?: 'active' | 'upcoming' | 'ended') {
+    const now = new Date();
+    const where: Prisma.IncentiveCampaignWhereInput =
+      status === 'active' ? { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } }
+        : status === 'upcoming' ? { startsAt: { gt: now } }
+          : status === 'ended' ? { endsAt: { lte: now } }
+            : {};
+
+    const campaigns = await prisma.incentiveCampaign.findMany({
+      where,
+      include: {
+        _count: { select: { progress: { where: { rewardedAt: { not: null } } } } },
+      },
+      orderBy: { startsAt: 'desc' },
+    });
+
+    return campaigns.map(({ _count, ...campaign }) => ({
+      ...campaign,
+      rewardedAgents: _count.progress,
+    }));
+  },
+
+  /**
+   * Create a campaign
+   */
+  async createCampaign(input: IncentiveCampaignInput) {
+    validateCampaign(input);
+
+    const data = toCampaignData(input);
+    return prisma.incentiveCampaign.create({
+      data: {
+        ...data,
+        name: input.name as string,
+        targetType: input.targetType as IncentiveTargetType,
+        targetValue: input.targetValue as number,
+        rewardAmount: input.rewardAmount as number,
+        startsAt: new Date(input.startsAt as string | Date),
+        endsAt: new Date(input.endsAt as string | Date),
+      },
+    });
+  },
+
+  /**
+   * Update a campaign; settled campaigns can only be deactivated
+   */
+  async updateCampaign(campaignId: string, input: IncentiveCampaignInput) {
+    const existing = await prisma.incentiveCampaign.findUnique({ where: { id: campaignId } });
+    if (!existing) {
+      throw new NotFoundError('Incentive campaign not found');
+    }
+
+    if (existing.settledAt && Object.keys(input).some((field) => field !== 'isActive')) {
+      throw new ValidationError('Campaign has been settled; only isActive can be changed');
+    }
+
+    validateCampaign({
+      name: existing.name,
+      description: existing.description,
+      targetType: existing.targetType,
+      targetValue: existing.targetValue,
+      minDeliveries: existing.minDeliveries,
+      rewardAmount: existing.rewardAmount,
+      startsAt: existing.startsAt,
+      endsAt: existing.endsAt,
+      peakStartHour: existing.peakStartHour,
+      peakEndHour: existing.peakEndHour,
+      zone: existing.zone as unknown as ZonePolygon | null,
+      cities: existing.cities,
+      vehicleTypes: existing.vehicleTypes,
+      ...input,
+    });
+
+    return prisma.incentiveCampaign.update({
+      where: { id: campaignId },
+      data: toCampaignData(input),
+    });
+  },
+
+  /**
+   * Agent progress for a campaign (leaderboard, highest first)
+   */
+  async getCampaignProgress(campaignId: string) {
+    const campaign = await prisma.incentiveCampaign.findUnique({ where: { id: campaignId } });
+    if (!campaign) {
+      throw new NotFoundError('Incentive campaign not found');
+    }
+
+    const progress = await prisma.incentiveProgress.findMany({
+      where: { campaignId },
+      include: {
+        agent: {
+          select: {
+            id: true,
+            city: true,
+            vehicleType: true,
+            user: { select: { name: true, phone: true } },
+          },
+        },
+      },
+      orderBy: [{ value: 'desc' }, { deliveries: 'desc' }],
+    });
+
+    return {
+      campaign: { ...formatCampaign(campaign), isActive: campaign.isActive, settledAt: campaign.settledAt },
+      agents: progress.map((entry) => ({
+        agentId: entry.agentId,
+        agentName: entry.agent.user?.name || null,
+        city: entry.agent.city,
+        vehicleType: entry.agent.vehicleType,
+        value: entry.value,
+        deliveries: entry.deliveries,
+        achievedAt: entry.achievedAt,
+        rewardedAt: entry.rewardedAt,
+      })),
+      totalRewarded: progress.filter((entry) => entry.rewardedAt).length * campaign.rewardAmount,
+    };
+  },
+};
@@ -1,7 +1,9 @@
 import { prisma } from '../lib/prisma';
 import { pricingService } from './pricing.service';
-import { OrderStatus, PartnerCategory } from '@prisma/client';
+import { ActorType, OrderStatus, PartnerCategory } from '@prisma/client';
 import { generateId } from '../utils/id-generator.util';
+import { notifyPartnerEvent, notifyLogisticsProvider } from '../lib/webhook';
+import { orderStateService } from './order-state.service';
 
 /**
  * Service to handle automatic order creation for multi-leg logistics flow
@@ -96,6 +98,10 @@ export const logisticsOrderService = {
         adminCommission: pricing.adminCommission,
         partnerCategory: parentOrder.partnerCategory || PartnerCategory.LOCAL_STORE,
         distanceKm: pricing.distanceKm,
+        surgeMultiplier: pricing.surgeMultiplier,
+        surgeZone: pricing.surgeZone,
+        vehicleType: pricing.vehicleType,
+        pricingLines: pricing.lines.map((line) => ({ ...line })),
         slaPriority,
         priority: parentOrder.priority || 'NORMAL',
         status: 'SEARCHING_AGENT',
@@ -121,6 +127,15 @@ export const logisticsOrderService = {
       } as any,
     });
 
+    await orderStateService.recordTransition({
+      orderId,
+      from: null,
+      to: OrderStatus.SEARCHING_AGENT,
+      actor: { type: ActorType.SYSTEM },
+      reason: 'Final delivery order created',
+      metadata: { parentOrderId },
+    });
+
     // Update parent order to mark that delivery order was created
     await prisma.order.update({
       where: { id: parentOrderId },
@@ -343,6 +358,15 @@ export const logisticsOrderService = {
       } as any,
     });
 
+    await orderStateService.recordTransition({
+      orderId: rtoOrderId,
+      from: null,
+      to: OrderStatus.IN_TRANSIT,
+      actor: { type: ActorType.SYSTEM },
+      reason,
+      metadata: { rtoParentOrderId: parentOrderId },
+    });
+
     // Update parent order to mark RTO created
     await prisma.order.update({
       where: { id: parentOrderId },
@@ -357,6 +381,36 @@ export const logisticsOrderService = {
     });
 
     console.log(`[RTO] Created RTO order ${rtoOrderId} for parent ${parentOrderId}`);
+
+    await notifyPartnerEvent(
+      parentOrder.partnerId,
+      'RTO_CREATED',
+      {
+        rtoOrderId,
+        parentOrderId,
+        reason,
+        fromWarehouseId: currentWarehouseId,
+        toWarehouseId: parentOrder.originWarehouseId,
+      },
+      parentOrderId
+    );
+
+    if (parentOrder.logisticsProviderId) {
+      await notifyLogisticsProvider(
+        parentOrder.logisticsProviderId,
+        'RTO_CREATED',
+        rtoOrderId,
+        rtoOrder.status,
+        {
+          parentOrderId,
+          partnerId: parentOrder.partnerId,
+          reason,
+          fromWarehouseId: currentWarehouseId,
+          toWarehouseId: parentOrder.originWarehouseId,
+        }
+      );
+    }
+
     return rtoOrder;
   },
 
@@ -432,6 +486,10 @@ export const logisticsOrderService = {
         adminCommission: pricing.adminCommission,
         partnerCategory: rtoOrder.partnerCategory || PartnerCategory.LOCAL_STORE,
         distanceKm: pricing.distanceKm,
+        surgeMultiplier: pricing.surgeMultiplier,
+        surgeZone: pricing.surgeZone,
+        vehicleType: pricing.vehicleType,
+        pricingLines: pricing.lines.map((line) => ({ ...line })),
         slaPriority,
         priority: rtoOrder.priority || 'NORMAL',
         status: 'SEARCHING_AGENT',
@@ -449,6 +507,15 @@ export const logisticsOrderService = {
       } as any,
     });
 
+    await orderStateService.recordTransition({
+      orderId: reverseLeg1OrderId,
+      from: null,
+      to: OrderStatus.SEARCHING_AGENT,
+      actor: { type: ActorType.SYSTEM },
+      reason: 'RTO reverse leg 1 created',
+      metadata: { rtoOrderId },
+    });
+
     // Update RTO order to mark reverse Leg 1 created
     await prisma.order.update({
       where: { id: rtoOrderId },
@@ -1,7 +1,11 @@
 import { prisma } from '../lib/prisma';
-import { OrderStatus, PartnerCategory } from '@prisma/client';
+import { ActorType, OrderStatus, PartnerCategory } from '@prisma/client';
 import { generateId } from '../utils/id-generator.util';
+import { haversineDistance } from './geo.service';
 import { logger } from '../lib/logger';
+import { notifyLogisticsProvider } from '../lib/webhook';
+import { orderStateService } from './order-state.service';
+import { AppError, NotFoundError } from '../utils/errors.util';
 import {
   getPossibleLogisticsProviderIds,
   getLogisticsProviderWarehouses,
@@ -184,29 +188,24 @@ export const logisticsService = {
       },
     });
 
+    await orderStateService.recordTransition({
+      orderId,
+      from: null,
+      to: OrderStatus.IN_TRANSIT,
+      actor: { type: ActorType.LOGISTICS_PROVIDER },
+      reason: 'Logistics order created',
+      metadata: { logisticsProviderId: input.logisticsProviderId },
+    });
+
     return order;
   },
 
 
   /**
-   * Calculate distance between two points (Haversine formula)
+   * Straight-line distance between two points in km
    */
   calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.toRad(lat2 - lat1);
-    const dLon = this.toRad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRad(lat1)) *
-        Math.cos(this.toRad(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  },
-
-  toRad(degrees: number): number {
-    return degrees * (Math.PI / 180);
+    return haversineDistance(lat1, lon1, lat2, lon2) / 1000;
   },
 
   /**
@@ -386,6 +385,11 @@ export const logisticsService = {
       orderStatus = OrderStatus.AT_WAREHOUSE as any;
     }
 
+    const actor = { type: ActorType.LOGISTICS_PROVIDER };
+    const fromStatus = orderStatus
+      ? await orderStateService.assertTransition(input.orderId, orderStatus, actor)
+      : order.status;
+
     // Update order
     const updatedOrder = await prisma.order.update({
       where: { id: input.orderId },
@@ -396,7 +400,7 @@ export const logisticsService = {
         pickupLng: pickupLng || undefined,
         transitLegs: updatedLegs as any,
         expectedWarehouseArrival: input.expectedWarehouseArrival || undefined,
-        status: orderStatus || undefined,
+        ...(orderStatus ? orderStateService.getStatusData(fromStatus, orderStatus) : {}),
         warehouseArrivedAt: input.currentWarehouseId ? new Date() : undefined,
         updatedAt: new Date(),
       } as any,
@@ -417,6 +421,17 @@ export const logisticsService = {
       },
     });
 
+    if (orderStatus) {
+      await orderStateService.recordTransition({
+        orderId: input.orderId,
+        from: fromStatus,
+        to: orderStatus,
+        actor,
+        reason: input.transitStatus,
+        metadata: { logisticsProviderId, currentWarehouseId: input.currentWarehouseId },
+      });
+    }
+
     return updatedOrder;
   },
 
@@ -435,6 +450,8 @@ export const logisticsService = {
         status: true,
         transitLegs: true,
         originWarehouseId: true,
+        partnerId: true,
+        transitTrackingNumber: true,
       },
     });
 
@@ -485,11 +502,14 @@ export const logisticsService = {
       }
     }
 
+    const actor = { type: ActorType.LOGISTICS_PROVIDER };
+    const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.AT_WAREHOUSE, actor);
+
     // Update order status and location
     const updatedOrder = await prisma.order.update({
       where: { id: orderId },
       data: {
-        status: OrderStatus.AT_WAREHOUSE as any,
+        ...orderStateService.getStatusData(fromStatus, OrderStatus.AT_WAREHOUSE),
         currentWarehouseId: warehouseId,
         pickupLat: warehouse.latitude,
         pickupLng: warehouse.longitude,
@@ -509,6 +529,15 @@ export const logisticsService = {
       },
     });
 
+    await orderStateService.recordTransition({
+      orderId,
+      from: fromStatus,
+      to: OrderStatus.AT_WAREHOUSE,
+      actor,
+      reason: 'Arrived at warehouse',
+      metadata: { logisticsProviderId, warehouseId },
+    });
+
     // RTO Handling: If this is an RTO order arriving at origin warehouse, create reverse Leg 1
     const transitLegsData = updatedOrder.transitLegs as any;
     const isRTOOrder = transitLegsData?.leg === 'RTO_REVERSE_LEG2' || transitLegsData?.rtoParentOrderId;
@@ -524,6 +553,161 @@ export const logisticsService = {
       }
     }
 
+    await notifyLogisticsProvider(
+      logisticsProviderId,
+      warehouseId === order.originWarehouseId ? 'ORDER_AT_ORIGIN_WAREHOUSE' : 'ORDER_AT_WAREHOUSE',
+      orderId,
+      updatedOrder.status,
+      {
+        partnerId: order.partnerId,
+        transitTrackingNumber: order.transitTrackingNumber,
+        warehouse: { id: warehouse.id, name: warehouse.name },
+      }
+    );
+
+    return updatedOrder;
+  },
+
+  /**
+   * Change the destination warehouse (Leg 2 target) of a multi-leg order
+   * Called by the logistics provider itself, or by an admin reassigning on the platform's behalf
+   * The provider is notified via webhook either way
+   */
+  async updateDestinationWarehouse(
+    orderId: string,
+    destinationWarehouseId: string,
+    changedBy: { type: 'LOGISTICS_PROVIDER' | 'ADMIN'; logisticsProviderId?: string }
+  ) {
+    const where = changedBy.logisticsProviderId
+      ? await buildLogisticsProviderOrderWhere(changedBy.logisticsProviderId, { id: orderId })
+      : { id: orderId };
+
+    const order = await prisma.order.findFirst({
+      where,
+      select: {
+        id: true,
+        status: true,
+        partnerId: true,
+        logisticsProviderId: true,
+        originWarehouseId: true,
+        dropWarehouseId: true,
+        transitLegs: true,
+        transitTrackingNumber: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError(
+        changedBy.logisticsProviderId
+          ? 'Order not found or does not belong to this logistics provider'
+          : 'Order not found'
+      );
+    }
+
+    const logisticsProviderId = changedBy.logisticsProviderId || order.logisticsProviderId;
+    if (!logisticsProviderId) {
+      throw new AppError('Order is not assigned to a logistics provider', 400);
+    }
+
+    // Validate that destination warehouse is different from origin
+    if (order.originWarehouseId === destinationWarehouseId) {
+      throw new AppError('Destination warehouse must be different from origin warehouse', 400);
+    }
+
+    // Verify destination warehouse belongs to the order's logistics provider
+    const warehouseOwned = await verifyWarehouseOwnership(destinationWarehouseId, logisticsProviderId);
+    if (!warehouseOwned) {
+      throw new NotFoundError('Destination warehouse not found or does not belong to this logistics provider');
+    }
+
+    const destinationWarehouse = await prisma.warehouse.findUnique({
+      where: { id: destinationWarehouseId },
+      select: {
+        id: true,
+        name: true,
+        address: true,
+        latitude: true,
+        longitude: true,
+      },
+    });
+
+    if (!destinationWarehouse) {
+      throw new NotFoundError('Destination warehouse not found');
+    }
+
+    // Get origin warehouse name for transit legs
+    const originWarehouse = order.originWarehouseId ? await prisma.warehouse.findUnique({
+      where: { id: order.originWarehouseId },
+      select: { name: true },
+    }) : null;
+
+    // Update transit legs - update Leg 2 with new destination warehouse
+    const existingLegs: any[] = Array.isArray(order.transitLegs) ? (order.transitLegs as any) : [];
+    const updatedLegs = [...existingLegs];
+
+    // Find and update Leg 2
+    const leg2 = updatedLegs.find((leg: any) => leg.leg === 2);
+    if (leg2) {
+      leg2.destinationWarehouseId = destinationWarehouseId;
+      leg2.destinationWarehouseName = destinationWarehouse.name;
+      leg2.to = destinationWarehouse.name;
+      leg2.updatedAt = new Date().toISOString();
+      const leg2Index = updatedLegs.findIndex((leg: any) => leg.leg === 2);
+      if (leg2Index >= 0) {
+        updatedLegs[leg2Index] = leg2;
+      }
+    } else {
+      // Create Leg 2 if it doesn't exist
+      updatedLegs.push({
+        leg: 2,
+        from: originWarehouse?.name || 'ORIGIN_WAREHOUSE',
+        to: destinationWarehouse.name,
+        status: 'PENDING',
+        updatedAt: new Date().toISOString(),
+        createdAt: new Date().toISOString(),
+        originWarehouseId: order.originWarehouseId,
+        destinationWarehouseId: destinationWarehouseId,
+        originWarehouseName: originWarehouse?.name,
+        destinationWarehouseName: destinationWarehouse.name,
+      });
+    }
+
+    // Update the order's dropWarehouseId and related fields
+    const updatedOrder = await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        dropWarehouseId: destinationWarehouseId,
+        dropLat: destinationWarehouse.latitude,
+        dropLng: destinationWarehouse.longitude,
+        dropAddressText: `${destinationWarehouse.name}, ${destinationWarehouse.address}`,
+        transitLegs: updatedLegs as any,
+        updatedAt: new Date(),
+      },
+      include: {
+        dropWarehouse: {
+          select: {
+            id: true,
+            name: true,
+            address: true,
+          },
+        },
+      },
+    });
+
+    await notifyLogisticsProvider(
+      logisticsProviderId,
+      'DESTINATION_WAREHOUSE_CHANGED',
+      orderId,
+      updatedOrder.status,
+      {
+        partnerId: order.partnerId,
+        transitTrackingNumber: order.transitTrackingNumber,
+        previousWarehouseId: order.dropWarehouseId,
+        warehouse: { id: destinationWarehouse.id, name: destinationWarehouse.name },
+        changedBy: changedBy.type,
+      }
+    );
+
     return updatedOrder;
   },
 
@@ -581,9 +765,8 @@ export const logisticsService = {
     }
     
     // Verify order status allows marking as ready
-    if (order.status === OrderStatus.DELIVERED || order.status === OrderStatus.CANCELLED) {
-      throw new Error(`Cannot mark order as ready for pickup. Current status: ${order.status}`);
-    }
+    const actor = { type: ActorType.LOGISTICS_PROVIDER };
+    const fromStatus = await orderStateService.assertTransition(orderId, OrderStatus.READY_FOR_PICKUP, actor);
 
     // Get existing transit legs
     const existingLegs: TransitLeg[] = Array.isArray(order.transitLegs)
@@ -707,7 +890,7 @@ export const logisticsService = {
     const updatedOrder = await prisma.order.update({
       where: { id: orderId },
       data: {
-        status: OrderStatus.READY_FOR_PICKUP,
+        ...orderStateService.getStatusData(fromStatus, OrderStatus.READY_FOR_PICKUP),
         pickupWarehouseId: warehouseId,
         pickupLat: warehouse.latitude,
         pickupLng: warehouse.longitude,
@@ -717,6 +900,10 @@ export const logisticsService = {
         agentPayout: pricing.agentPayout,
         adminCommission: pricing.adminCommission,
         distanceKm: pricing.distanceKm,
+        surgeMultiplier: pricing.surgeMultiplier,
+        surgeZone: pricing.surgeZone,
+        vehicleType: pricing.vehicleType,
+        pricingLines: pricing.lines.map((line) => ({ ...line })),
         providerCharge: Math.round(providerCharge * 100) / 100, // Store provider charge for Leg 2
         transitStatus: 'Ready for Pickup',
         logisticsAgentId: null, // Clear logistics agent - Leg 2 complete
@@ -751,6 +938,15 @@ export const logisticsService = {
       },
     });
 
+    await orderStateService.recordTransition({
+      orderId,
+      from: fromStatus,
+      to: OrderStatus.READY_FOR_PICKUP,
+      actor,
+      reason: notes || 'Ready for pickup',
+      metadata: { logisticsProviderId, warehouseId },
+    });
+
     // ✅ FIXED: Process immediately instead of setTimeout
     // This ensures order state is consistent and errors are properly handled
     // 
@@ -760,11 +956,8 @@ export const logisticsService = {
     // - Do NOT revert to provider even if assignment fails
     try {
       // Immediately transition to SEARCHING_AGENT
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: OrderStatus.SEARCHING_AGENT,
-        },
+      await orderStateService.transition(orderId, OrderStatus.SEARCHING_AGENT, { type: ActorType.SYSTEM }, {
+        reason: 'Dispatching final delivery',
       });
 
       // Trigger assignment service with proper error handling
@@ -5,6 +5,7 @@
 
 import { prisma } from '../lib/prisma';
 import { logger } from '../lib/logger';
+import { surgeService } from './surge.service';
 
 export const metricsService = {
   /**
@@ -120,6 +121,17 @@ export const metricsService = {
         },
       });
 
+      // Orders priced with surge (multiplier above 1)
+      const surge = await prisma.order.aggregate({
+        where: {
+          createdAt: { gte: startDate, lte: endDate },
+          surgeMultiplier: { gt: 1 },
+        },
+        _count: true,
+        _avg: { surgeMultiplier: true },
+        _max: { surgeMultiplier: true },
+      });
+
       return {
         ordersByStatus: ordersByStatus.map((item) => ({
           status: item.status,
@@ -130,6 +142,11 @@ export const metricsService = {
           count: Number(item.count),
         })),
         totalRevenue: revenue._sum.payoutAmount || 0,
+        surge: {
+          surgedOrders: surge._count,
+          averageMultiplier: surge._avg.surgeMultiplier || 1,
+          maxMultiplier: surge._max.surgeMultiplier || 1,
+        },
         period: { start: startDate, end: endDate },
       };
     } catch (error) {
@@ -138,6 +155,42 @@ export const metricsService = {
     }
   },
 
+  /**
+   * Get live surge per zone and surge applied to orders since the start of today
+   */
+  async getSurgeMetrics() {
+    try {
+      const todayStart = new Date();
+      todayStart.setHours(0, 0, 0, 0);
+
+      const [zones, surgeByZone] = await Promise.all([
+        surgeService.listZones(),
+        prisma.order.groupBy({
+          by: ['surgeZone'],
+          where: {
+            createdAt: { gte: todayStart },
+            surgeMultiplier: { gt: 1 },
+          },
+          _count: true,
+          _avg: { surgeMultiplier: true },
+        }),
+      ]);
+
+      return {
+        zones,
+        surgingZones: zones.filter((zone) => zone.multiplier > 1).length,
+        todayByZone: surgeByZone.map((item) => ({
+          zoneId: item.surgeZone,
+          surgedOrders: item._count,
+          averageMultiplier: item._avg.surgeMultiplier || 1,
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get surge metrics', error);
+      throw error;
+    }
+  },
+
   /**
    * Get agent metrics
    */
@@ -386,6 +439,10 @@ export const metricsService = {
             description = 'Agent location updated';
             color = 'blue';
             break;
+          case 'GEOFENCE_OVERRIDE_USED':
+            description = 'Status changed outside the geofence (override)';
+            color = 'orange';
+            break;
           default:
             description = 'System event';
         }
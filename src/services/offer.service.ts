@@ -0,0 +1,357 @@
+import { OfferStatus, OrderOffer } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppError, ConflictError } from '../utils/errors.util';
+import { sendOrderOfferClosedToAgent } from '../lib/websocket';
+
+/**
+ * Offer Service - Persisted order offers
+ *
+ * RULES:
+ * - Each offer of an order to an agent is a row: OFFERED -> ACCEPTED | REJECTED | EXPIRED | WITHDRAWN
+ * - Only OFFERED offers change state, so a late reject cannot overwrite an expiry (and vice versa)
+ * - Offers are grouped by attempt (one assignOrder call) and round (agents offered together)
+ * - When a round has no open offers left the cascade moves on (assignment.service advanceCascade)
+ * - A round is offered once: whoever offers it first claims it on Order.offerAttempt / offerRound,
+ *   which only move forward (claimRound)
+ * - Acceptance rate = ACCEPTED / (ACCEPTED + REJECTED + EXPIRED) over the agent's latest answered offers;
+ *   WITHDRAWN offers are not the agent's doing and are not counted
+ */
+
+const ACCEPTANCE_RATE_WINDOW = 50; // Latest answered offers used for the acceptance rate
+const COUNTED_STATUSES: OfferStatus[] = [OfferStatus.ACCEPTED, OfferStatus.REJECTED, OfferStatus.EXPIRED];
+
+const DEFAULT_OFFER_SETTINGS = {
+  maxRadius: 5000, // meters
+  maxAgentsToOffer: 5,
+  offerTimeout: 30, // seconds
+};
+
+export interface OfferCandidate {
+  agentId: string;
+  distance: number; // meters
+  score: number;
+}
+
+/**
+ * Advance the order's cascade once a round has no open offers (dynamic import avoids a cycle)
+ */
+const advanceCascade = async (orderId: string) => {
+  try {
+    const { advanceCascade: advance } = await import('./assignment.service');
+    await advance(orderId);
+  } catch (error) {
+    console.error(`[Offers] Failed to advance cascade for order ${orderId}:`, error);
+  }
+};
+
+export const offerService = {
+  /**
+   * Radius, round size and offer timeout from SystemSettings (defaults when unset)
+   */
+  async getOfferSettings(): Promise<typeof DEFAULT_OFFER_SETTINGS> {
+    try {
+      const settings = await prisma.systemSettings.findUnique({
+        where: { id: 'system' },
+        select: { maxRadius: true, maxAgentsToOffer: true, offerTimeout: true },
+      });
+
+      return settings || DEFAULT_OFFER_SETTINGS;
+    } catch (error: any) {
+      if (error?.code === 'P2021' || error?.code === '42P01' || error?.message?.includes('does not exist')) {
+        return DEFAULT_OFFER_SETTINGS;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Latest cascade attempt for an order (0 when it was never offered)
+   * Includes a claimed attempt that found nobody to offer
+   */
+  async getCurrentAttempt(orderId: string): Promise<number> {
+    const [order, latest] = await Promise.all([
+      prisma.order.findUnique({ where: { id: orderId }, select: { offerAttempt: true } }),
+      prisma.orderOffer.findFirst({
+        where: { orderId },
+        orderBy: { attempt: 'desc' },
+        select: { attempt: true },
+      }),
+    ]);
+
+    return Math.max(order?.offerAttempt || 0, latest?.attempt || 0);
+  },
+
+  /**
+   * Offers of one cascade attempt, latest round first
+   */
+  async getAttemptOffers(orderId: string, attempt: number): Promise<OrderOffer[]> {
+    return prisma.orderOffer.findMany({
+      where: { orderId, attempt },
+      orderBy: [{ round: 'desc' }, { offeredAt: 'desc' }],
+    });
+  },
+
+  /**
+   * Claim a cascade round before offering it; false when it (or a later round) was already claimed
+   */
+  async claimRound(orderId: string, attempt: number, round: number): Promise<boolean> {
+    const claimed = await prisma.order.updateMany({
+      where: {
+        id: orderId,
+        OR: [{ offerAttempt: { lt: attempt } }, { offerAttempt: attempt, offerRound: { lt: round } }],
+      },
+      data: { offerAttempt: attempt, offerRound: round },
+    });
+
+    return claimed.count > 0;
+  },
+
+  /**
+   * Persist one round of offers
+   */
+  async createOffers(
+    orderId: string,
+    candidates: OfferCandidate[],
+    round: { attempt: number; round: number; radius: number; timeoutSeconds: number }
+  ): Promise<OrderOffer[]> {
+    const expiresAt = new Date(Date.now() + round.timeoutSeconds * 1000);
+
+    return prisma.$transaction(
+      candidates.map((candidate) =>
+        prisma.orderOffer.create({
+          data: {
+            orderId,
+            agentId: candidate.agentId,
+            attempt: round.attempt,
+            round: round.round,
+            radius: Math.round(round.radius),
+            distance: candidate.distance,
+            score: candidate.score,
+            expiresAt,
+          },
+        })
+      )
+    );
+  },
+
+  /**
+   * Withdraw open offers for an order (order taken, cancelled or re-dispatched)
+   */
+  async withdrawOpenOffers(orderId: string, reason: string, exceptAgentId?: string): Promise<number> {
+    const open = await prisma.orderOffer.findMany({
+      where: {
+        orderId,
+        status: OfferStatus.OFFERED,
+        ...(exceptAgentId ? { agentId: { not: exceptAgentId } } : {}),
+      },
+      select: { id: true, agentId: true },
+    });
+
+    if (open.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.orderOffer.updateMany({
+      where: { id: { in: open.map((offer) => offer.id) }, status: OfferStatus.OFFERED },
+      data: { status: OfferStatus.WITHDRAWN, respondedAt: new Date(), reason },
+    });
+
+    for (const offer of open) {
+      await sendOrderOfferClosedToAgent(offer.agentId, { orderId, offerId: offer.id, status: OfferStatus.WITHDRAWN, reason });
+    }
+
+    return result.count;
+  },
+
+  /**
+   * Check the agent may still accept the order
+   * An expired or rejected offer cannot be accepted; agents without an offer may take open orders
+   */
+  async assertAcceptable(orderId: string, agentId: string): Promise<void> {
+    const offer = await prisma.orderOffer.findFirst({
+      where: { orderId, agentId },
+      orderBy: { offeredAt: 'desc' },
+    });
+
+    if (!offer) {
+      return;
+    }
+
+    if (offer.status === OfferStatus.OFFERED && offer.expiresAt <= new Date()) {
+      await this.expireDueOffers(new Date(), orderId);
+      throw new AppError('Offer has expired', 410);
+    }
+
+    if (offer.status === OfferStatus.EXPIRED) {
+      throw new AppError('Offer has expired', 410);
+    }
+
+    if (offer.status === OfferStatus.REJECTED) {
+      throw new ConflictError('Offer was rejected');
+    }
+  },
+
+  /**
+   * Record that the agent took the order: their open offer is ACCEPTED, everyone else's is withdrawn
+   */
+  async markAccepted(orderId: string, agentId: string): Promise<void> {
+    const accepted = await prisma.orderOffer.updateMany({
+      where: { orderId, agentId, status: OfferStatus.OFFERED },
+      data: { status: OfferStatus.ACCEPTED, respondedAt: new Date() },
+    });
+
+    await this.withdrawOpenOffers(orderId, 'Order accepted by another agent', agentId);
+
+    if (accepted.count > 0) {
+      await this.recalculateAcceptanceRate(agentId);
+    }
+  },
+
+  /**
+   * Agent declined the order; moves the cascade on when the round has no open offers left
+   */
+  async reject(orderId: string, agentId: string, reason?: string): Promise<OrderOffer | null> {
+    const offer = await prisma.orderOffer.findFirst({
+      where: { orderId, agentId, status: OfferStatus.OFFERED },
+      orderBy: { offeredAt: 'desc' },
+    });
+
+    if (!offer) {
+      return null;
+    }
+
+    const updated = await prisma.orderOffer.updateMany({
+      where: { id: offer.id, status: OfferStatus.OFFERED },
+      data: { status: OfferStatus.REJECTED, respondedAt: new Date(), reason: reason || null },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    await this.recalculateAcceptanceRate(agentId);
+    await advanceCascade(orderId);
+
+    return { ...offer, status: OfferStatus.REJECTED, respondedAt: new Date(), reason: reason || null };
+  },
+
+  /**
+   * Expire offers past expiresAt (optionally for one order) and advance their cascades
+   */
+  async expireDueOffers(now: Date = new Date(), orderId?: string): Promise<{ expired: number; orders: number }> {
+    const due = await prisma.orderOffer.findMany({
+      where: {
+        status: OfferStatus.OFFERED,
+        expiresAt: { lte: now },
+        ...(orderId ? { orderId } : {}),
+      },
+      select: { id: true, orderId: true, agentId: true },
+    });
+
+    if (due.length === 0) {
+      return { expired: 0, orders: 0 };
+    }
+
+    // Only offers still OFFERED move to EXPIRED (an agent may have answered meanwhile)
+    const expired: typeof due = [];
+    for (const offer of due) {
+      const updated = await prisma.orderOffer.updateMany({
+        where: { id: offer.id, status: OfferStatus.OFFERED },
+        data: { status: OfferStatus.EXPIRED, respondedAt: now },
+      });
+      if (updated.count > 0) {
+        expired.push(offer);
+        await sendOrderOfferClosedToAgent(offer.agentId, {
+          orderId: offer.orderId,
+          offerId: offer.id,
+          status: OfferStatus.EXPIRED,
+        });
+      }
+    }
+
+    for (const agentId of new Set(expired.map((offer) => offer.agentId))) {
+      await this.recalculateAcceptanceRate(agentId);
+    }
+
+    const orderIds = [...new Set(expired.map((offer) => offer.orderId))];
+    for (const id of orderIds) {
+      await advanceCascade(id);
+    }
+
+    if (expired.length > 0) {
+      console.log(`[Offers] Expired ${expired.length} offer(s) across ${orderIds.length} order(s)`);
+    }
+
+    return { expired: expired.length, orders: orderIds.length };
+  },
+
+  /**
+   * Recompute an agent's acceptance rate (0-100) from their latest answered offers
+   */
+  async recalculateAcceptanceRate(agentId: string): Promise<number | null> {
+    const answered = await prisma.orderOffer.findMany({
+      where: { agentId, status: { in: COUNTED_STATUSES } },
+      orderBy: { respondedAt: 'desc' },
+      take: ACCEPTANCE_RATE_WINDOW,
+      select: { status: true },
+    });
+
+    if (answered.length === 0) {
+      return null;
+    }
+
+    const accepted = answered.filter((offer) => offer.status === OfferStatus.ACCEPTED).length;
+    const acceptanceRate = Math.round((accepted / answered.length) * 1000) / 10;
+
+    await prisma.agent.update({
+      where: { id: agentId },
+      data: { acceptanceRate },
+    });
+
+    return acceptanceRate;
+  },
+
+  /**
+   * Open offers for an agent, soonest expiry first
+   */
+  async listAgentOffers(agentId: string) {
+    return prisma.orderOffer.findMany({
+      where: { agentId, status: OfferStatus.OFFERED, expiresAt: { gt: new Date() } },
+      orderBy: { expiresAt: 'asc' },
+      include: {
+        order: {
+          select: {
+            id: true,
+            status: true,
+            pickupLat: true,
+            pickupLng: true,
+            dropLat: true,
+            dropLng: true,
+            payoutAmount: true,
+            priority: true,
+            estimatedDuration: true,
+          },
+        },
+      },
+    });
+  },
+
+  /**
+   * Offer history for an order (admin)
+   */
+  async listOrderOffers(orderId: string) {
+    return prisma.orderOffer.findMany({
+      where: { orderId },
+      orderBy: [{ attempt: 'asc' }, { round: 'asc' }, { offeredAt: 'asc' }],
+      include: {
+        agent: {
+          select: {
+            id: true,
+            acceptanceRate: true,
+            user: { select: { name: true, phone: true } },
+          },
+        },
+      },
+    });
+  },
+};
@@ -0,0 +1,382 @@
+import { ActorType, OrderStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { InvalidTransitionError, NotFoundError } from '../utils/errors.util';
+import { geofenceService } from './geofence.service';
+
+/**
+ * Order State Service - The single source of truth for order status transitions
+ *
+ * RULES:
+ * - Every status change goes through assertTransition (or transition); a change that is not in the
+ *   order's transition table for the acting party is rejected with InvalidTransitionError (409)
+ * - Tables are per flow: SINGLE_LEG (pickup → customer), MULTI_LEG (warehouse legs through a logistics
+ *   provider) and RTO (return to origin; the partner cannot cancel it)
+ * - DELAYED is an overlay, not a stage: entering it saves the current stage in delayedFromStatus,
+ *   SYSTEM / AGENT / ADMIN may return to that stage, and moves out of DELAYED follow the saved stage's rules
+ * - Setting an order to the status it already has is a no-op and is not recorded
+ * - Every applied transition appends an OrderStatusHistory row (actor, reason); rows are never updated
+ * - AGENT pickups and drops are also held to the geofence (see geofenceService); lifting the delay
+ *   overlay is not a pickup or drop
+ */
+
+export type OrderFlow = 'SINGLE_LEG' | 'MULTI_LEG' | 'RTO';
+
+export interface StatusActor {
+  type: ActorType;
+  id?: string | null; // User ID (omitted for SYSTEM)
+  agentId?: string | null; // Agent profile ID for AGENT actors (defaults to the order's agent)
+}
+
+export interface TransitionInput {
+  orderId: string;
+  from: OrderStatus | null; // Null for the initial status at creation
+  to: OrderStatus;
+  actor: StatusActor;
+  reason?: string | null;
+  metadata?: Record<string, any>;
+}
+
+type TransitionTable = Partial<Record<OrderStatus, Partial<Record<OrderStatus, ActorType[]>>>>;
+
+const { AGENT, PARTNER, SYSTEM, ADMIN, LOGISTICS_PROVIDER } = ActorType;
+
+// Delivery stages the delay overlay can sit on (legacy DELAYED rows without a saved stage were OUT_FOR_DELIVERY)
+const DELAYABLE_STATUSES: OrderStatus[] = [OrderStatus.PICKED_UP, OrderStatus.OUT_FOR_DELIVERY, OrderStatus.IN_TRANSIT];
+const LEGACY_DELAYED_FROM = OrderStatus.OUT_FOR_DELIVERY;
+
+// Parties that may lift the delay overlay back to the saved stage
+const DELAY_RECOVERY_ACTORS: ActorType[] = [SYSTEM, AGENT, ADMIN];
+
+const SINGLE_LEG_TRANSITIONS: TransitionTable = {
+  SEARCHING_AGENT: {
+    ASSIGNED: [AGENT, SYSTEM, ADMIN],
+    PICKED_UP: [AGENT], // Agent picks up an unassigned order directly
+    CANCELLED: [PARTNER, SYSTEM, ADMIN],
+  },
+  ASSIGNED: {
+    PICKED_UP: [AGENT, ADMIN],
+    SEARCHING_AGENT: [AGENT, SYSTEM, ADMIN], // Agent released / admin unassigned
+    CANCELLED: [PARTNER, AGENT, ADMIN],
+  },
+  PICKED_UP: {
+    OUT_FOR_DELIVERY: [AGENT, ADMIN],
+    DELIVERED: [AGENT, SYSTEM, ADMIN],
+    DELAYED: [SYSTEM],
+    CANCELLED: [PARTNER, AGENT, ADMIN],
+  },
+  OUT_FOR_DELIVERY: {
+    DELIVERED: [AGENT, SYSTEM, ADMIN],
+    DELAYED: [SYSTEM],
+    CANCELLED: [PARTNER, AGENT, ADMIN],
+  },
+  DELIVERED: {
+    CANCELLED: [ADMIN], // Admin cancellation reverses the delivery credits
+  },
+};
+
+const MULTI_LEG_TRANSITIONS: TransitionTable = {
+  SEARCHING_AGENT: {
+    ...SINGLE_LEG_TRANSITIONS.SEARCHING_AGENT,
+    ASSIGNED: [AGENT, SYSTEM, ADMIN, LOGISTICS_PROVIDER],
+    READY_FOR_PICKUP: [LOGISTICS_PROVIDER, ADMIN],
+  },
+  ASSIGNED: {
+    ...SINGLE_LEG_TRANSITIONS.ASSIGNED,
+    IN_TRANSIT: [AGENT, LOGISTICS_PROVIDER, ADMIN], // Leg 2 picked up at the origin warehouse
+    AT_WAREHOUSE: [LOGISTICS_PROVIDER, ADMIN],
+  },
+  PICKED_UP: {
+    ...SINGLE_LEG_TRANSITIONS.PICKED_UP,
+    AT_WAREHOUSE: [AGENT, LOGISTICS_PROVIDER, ADMIN], // Leg 1 dropped at the origin warehouse
+    IN_TRANSIT: [LOGISTICS_PROVIDER, ADMIN],
+  },
+  OUT_FOR_DELIVERY: SINGLE_LEG_TRANSITIONS.OUT_FOR_DELIVERY,
+  DELIVERED: SINGLE_LEG_TRANSITIONS.DELIVERED,
+  IN_TRANSIT: {
+    AT_WAREHOUSE: [AGENT, LOGISTICS_PROVIDER, ADMIN],
+    READY_FOR_PICKUP: [LOGISTICS_PROVIDER, ADMIN],
+    DELIVERED: [AGENT, LOGISTICS_PROVIDER, ADMIN],
+    DELAYED: [SYSTEM],
+    CANCELLED: [PARTNER, ADMIN],
+  },
+  AT_WAREHOUSE: {
+    IN_TRANSIT: [LOGISTICS_PROVIDER, ADMIN],
+    READY_FOR_PICKUP: [LOGISTICS_PROVIDER, ADMIN],
+    ASSIGNED: [AGENT, SYSTEM, LOGISTICS_PROVIDER, ADMIN],
+    SEARCHING_AGENT: [SYSTEM, LOGISTICS_PROVIDER, ADMIN],
+    CANCELLED: [PARTNER, ADMIN], // A partner cancelling at the destination warehouse starts an RTO
+  },
+  READY_FOR_PICKUP: {
+    SEARCHING_AGENT: [SYSTEM, LOGISTICS_PROVIDER, ADMIN],
+    ASSIGNED: [AGENT, SYSTEM, LOGISTICS_PROVIDER, ADMIN],
+    PICKED_UP: [AGENT],
+    CANCELLED: [PARTNER, ADMIN],
+  },
+};
+
+// RTO orders follow the warehouse legs back, but the partner can no longer cancel them
+const RTO_TRANSITIONS: TransitionTable = Object.fromEntries(
+  Object.entries(MULTI_LEG_TRANSITIONS).map(([from, targets]) => [
+    from,
+    Object.fromEntries(
+      Object.entries(targets || {}).map(([to, actors]) => [to, (actors || []).filter((actor) => actor !== PARTNER)])
+    ),
+  ])
+);
+
+const TRANSITIONS: Record<OrderFlow, TransitionTable> = {
+  SINGLE_LEG: SINGLE_LEG_TRANSITIONS,
+  MULTI_LEG: MULTI_LEG_TRANSITIONS,
+  RTO: RTO_TRANSITIONS,
+};
+
+// Fields needed to work out an order's flow and current stage
+const STATE_SELECT = {
+  id: true,
+  status: true,
+  delayedFromStatus: true,
+  isRTO: true,
+  logisticsProviderId: true,
+  dropWarehouseId: true,
+  transitLegs: true,
+  agentId: true,
+  pickupLat: true,
+  pickupLng: true,
+  dropLat: true,
+  dropLng: true,
+} as const;
+
+type OrderState = Prisma.OrderGetPayload<{ select: typeof STATE_SELECT }>;
+
+const actorsFor = (flow: OrderFlow, from: OrderStatus, to: OrderStatus): ActorType[] =>
+  TRANSITIONS[flow][from]?.[to] || [];
+
+const loadState = async (client: Prisma.TransactionClient, orderId: string): Promise<OrderState> => {
+  const order = await client.order.findUnique({ where: { id: orderId }, select: STATE_SELECT });
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  return order;
+};
+
+export const orderStateService = {
+  /**
+   * Work out which transition table applies to an order
+   */
+  getFlow(order: Pick<OrderState, 'isRTO' | 'logisticsProviderId' | 'dropWarehouseId' | 'transitLegs'>): OrderFlow {
+    // RTO legs are created with transitLegs { leg: 'RTO_REVERSE_LEG2' | 'RTO_REVERSE_LEG1', ... }
+    const legs = order.transitLegs as { leg?: unknown } | null;
+    if (order.isRTO || (typeof legs?.leg === 'string' && legs.leg.startsWith('RTO_'))) {
+      return 'RTO';
+    }
+    if (order.logisticsProviderId || order.dropWarehouseId || Array.isArray(order.transitLegs)) {
+      return 'MULTI_LEG';
+    }
+    return 'SINGLE_LEG';
+  },
+
+  /**
+   * Whether the DELAYED overlay can be put on an order in this status
+   */
+  isDelayable(status: OrderStatus): boolean {
+    return DELAYABLE_STATUSES.includes(status);
+  },
+
+  /**
+   * Whether an actor may move an order from its current status to `to`
+   */
+  canTransition(order: OrderState, to: OrderStatus, actorType: ActorType): boolean {
+    if (order.status === to) {
+      return true;
+    }
+
+    const flow = this.getFlow(order);
+
+    if (to === OrderStatus.DELAYED) {
+      return this.isDelayable(order.status) && actorsFor(flow, order.status, to).includes(actorType);
+    }
+
+    if (order.status === OrderStatus.DELAYED) {
+      const stage = order.delayedFromStatus || LEGACY_DELAYED_FROM;
+      if (to === stage) {
+        return DELAY_RECOVERY_ACTORS.includes(actorType);
+      }
+      return actorsFor(flow, stage, to).includes(actorType);
+    }
+
+    return actorsFor(flow, order.status, to).includes(actorType);
+  },
+
+  /**
+   * Statuses the actor may move the order to next (for clients and error details)
+   */
+  getAllowedTransitions(order: OrderState, actorType: ActorType): OrderStatus[] {
+    return Object.values(OrderStatus).filter(
+      (status) => status !== order.status && this.canTransition(order, status, actorType)
+    );
+  },
+
+  /**
+   * Reject a status change that is not in the transition table (no geofence check)
+   * For early feedback; use assertTransition where the change is written
+   */
+  async assertAllowed(
+    orderId: string,
+    to: OrderStatus,
+    actor: StatusActor,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<OrderState> {
+    const order = await loadState(client, orderId);
+
+    if (!this.canTransition(order, to, actor.type)) {
+      throw new InvalidTransitionError(`Order cannot move from ${order.status} to ${to}`, {
+        orderId,
+        from: order.status,
+        to,
+        actor: actor.type,
+        flow: this.getFlow(order),
+        allowed: this.getAllowedTransitions(order, actor.type),
+      });
+    }
+
+    return order;
+  },
+
+  /**
+   * Reject an illegal status change; returns the status the order is moving from
+   * Pass the transaction client of the status write: an agent's geofence override is used on it
+   */
+  async assertTransition(
+    orderId: string,
+    to: OrderStatus,
+    actor: StatusActor,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<OrderStatus> {
+    const order = await this.assertAllowed(orderId, to, actor, client);
+
+    const geofenceStatus = geofenceService.statusFor(to);
+    const agentId = actor.agentId || order.agentId;
+    const liftsDelay = order.status === OrderStatus.DELAYED && to === (order.delayedFromStatus || LEGACY_DELAYED_FROM);
+
+    if (actor.type === AGENT && geofenceStatus && agentId && order.status !== to && !liftsDelay) {
+      await geofenceService.enforce(order, agentId, geofenceStatus, actor.id, client);
+    }
+
+    return order.status;
+  },
+
+  /**
+   * Status fields to write alongside `to` (saves / clears the stage under the DELAYED overlay)
+   */
+  getStatusData(from: OrderStatus, to: OrderStatus): Pick<Prisma.OrderUncheckedUpdateInput, 'status' | 'delayedFromStatus'> {
+    if (from === to) {
+      return { status: to };
+    }
+    if (to === OrderStatus.DELAYED) {
+      return { status: to, delayedFromStatus: from };
+    }
+    if (from === OrderStatus.DELAYED) {
+      return { status: to, delayedFromStatus: null };
+    }
+    return { status: to };
+  },
+
+  /**
+   * Append a history row for a status change that has been written
+   * Same-status changes are skipped
+   */
+  async recordTransition(input: TransitionInput, client: Prisma.TransactionClient = prisma) {
+    if (input.from === input.to) {
+      return null;
+    }
+
+    return client.orderStatusHistory.create({
+      data: {
+        orderId: input.orderId,
+        fromStatus: input.from,
+        toStatus: input.to,
+        actorType: input.actor.type,
+        actorId: input.actor.id || null,
+        reason: input.reason || null,
+        metadata: input.metadata,
+      },
+    });
+  },
+
+  /**
+   * Check, write and record a status change in one step (in a transaction unless a client is passed)
+   * The update only applies if the order is still in the checked status (a concurrent change throws)
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    actor: StatusActor,
+    options: {
+      data?: Prisma.OrderUncheckedUpdateInput;
+      reason?: string | null;
+      metadata?: Record<string, any>;
+      client?: Prisma.TransactionClient;
+    } = {}
+  ): Promise<OrderStatus> {
+    const client = options.client;
+    if (!client) {
+      return prisma.$transaction((tx) => this.transition(orderId, to, actor, { ...options, client: tx }));
+    }
+
+    const from = await this.assertTransition(orderId, to, actor, client);
+
+    const result = await client.order.updateMany({
+      where: { id: orderId, status: from },
+      data: { ...options.data, ...this.getStatusData(from, to) },
+    });
+
+    if (result.count === 0) {
+      throw new InvalidTransitionError('Order status changed while it was being updated', {
+        orderId,
+        from,
+        to,
+        actor: actor.type,
+      });
+    }
+
+    await this.recordTransition(
+      { orderId, from, to, actor, reason: options.reason, metadata: options.metadata },
+      client
+    );
+
+    return from;
+  },
+
+  /**
+   * Current status, flow and the statuses the actor may move the order to next
+   */
+  async getState(orderId: string, actorType: ActorType) {
+    const order = await loadState(prisma, orderId);
+    return {
+      status: order.status,
+      delayedFromStatus: order.delayedFromStatus,
+      flow: this.getFlow(order),
+      allowedTransitions: this.getAllowedTransitions(order, actorType),
+    };
+  },
+
+  /**
+   * Status history for an order, oldest first
+   */
+  async getHistory(orderId: string) {
+    return prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        actorType: true,
+        actorId: true,
+        reason: true,
+        metadata: true,
+        createdAt: true,
+      },
+    });
+  },
+};
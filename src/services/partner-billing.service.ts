@@ -1,6 +1,8 @@
 import { prisma } from '../lib/prisma';
 import { OrderStatus, PartnerCategory, BillingMode, BillingCycle } from '@prisma/client';
 import { logger } from '../lib/logger';
+import { notifyPartnerEvent } from '../lib/webhook';
+import { codService } from './cod.service';
 
 /**
  * Partner Billing Service - Handles partner-type-aware billing
@@ -285,6 +287,9 @@ export const partnerBillingService = {
     // Determine payment terms
     const paymentTerms = this.getPaymentTerms(config.creditPeriodDays);
 
+    // COD collected for these orders is remitted through the invoice
+    const cod = await codService.getInvoiceCodFields(orders.map((order) => order.id), totalAmount);
+
     // Create invoice (Prisma will auto-generate IDs using cuid)
     const invoice = await prisma.partnerInvoice.create({
       data: {
@@ -294,6 +299,8 @@ export const partnerBillingService = {
         billingPeriodStart: periodStart,
         billingPeriodEnd: periodEnd,
         totalAmount,
+        codCollected: cod.codCollected,
+        netAmount: cod.netAmount,
         paymentTerms,
         dueDate,
         status: 'DRAFT',
@@ -304,6 +311,7 @@ export const partnerBillingService = {
             route: this.formatRoute(order),
             serviceType: this.getServiceType(order),
             amount: (order.partnerCharge || 0) + (order.isRTO && order.rtoCharge ? order.rtoCharge : 0),
+            codCollected: cod.collected.get(order.id) ?? null,
           })),
         },
       },
@@ -319,6 +327,20 @@ export const partnerBillingService = {
     });
 
     logger.info(`Generated invoice ${invoiceNumber} for partner ${partnerId} with ${orders.length} orders`);
+
+    await notifyPartnerEvent(partnerId, 'INVOICE_GENERATED', {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      totalAmount: invoice.totalAmount,
+      codCollected: invoice.codCollected,
+      netAmount: invoice.netAmount,
+      currency: invoice.currency,
+      billingPeriodStart: invoice.billingPeriodStart,
+      billingPeriodEnd: invoice.billingPeriodEnd,
+      dueDate: invoice.dueDate,
+      orderCount: invoice.items.length,
+    });
+
     return invoice;
   },
 
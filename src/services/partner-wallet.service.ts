@@ -1,6 +1,10 @@
 import { prisma } from '../lib/prisma';
 import { PartnerCategory } from '@prisma/client';
 import { logger } from '../lib/logger';
+import { notifyPartnerEvent } from '../lib/webhook';
+
+// Low balance alert threshold when the partner has no minimum wallet balance configured
+const DEFAULT_LOW_BALANCE_THRESHOLD = 500;
 
 /**
  * Partner Wallet Service - Handles wallet-based billing for LOCAL_STORE partners
@@ -132,7 +136,7 @@ export const partnerWalletService = {
     }
 
     // Use transaction to ensure atomicity
-    await prisma.$transaction(async (tx) => {
+    const updatedWallet = await prisma.$transaction(async (tx) => {
       // Reload wallet to get latest balance
       const currentWallet = await tx.partnerWallet.findUnique({
         where: { id: wallet.id },
@@ -175,9 +179,25 @@ export const partnerWalletService = {
           } as any,
         },
       });
+
+      return { balanceBefore, balanceAfter, reserved: currentWallet.reserved };
     });
 
     logger.info(`Deducted ${charge} from wallet for order ${orderId}. New balance: ${wallet.balance - charge}`);
+
+    // Alert the partner once when available balance drops below the threshold
+    const threshold = order.partner.billingConfig.minWalletBalance || DEFAULT_LOW_BALANCE_THRESHOLD;
+    const availableBefore = updatedWallet.balanceBefore - updatedWallet.reserved;
+    const availableAfter = updatedWallet.balanceAfter - updatedWallet.reserved;
+    if (availableBefore >= threshold && availableAfter < threshold) {
+      await notifyPartnerEvent(order.partnerId, 'WALLET_LOW_BALANCE', {
+        balance: updatedWallet.balanceAfter,
+        reserved: updatedWallet.reserved,
+        availableBalance: availableAfter,
+        threshold,
+        currency: wallet.currency,
+      }, order.id);
+    }
   },
 
   /**
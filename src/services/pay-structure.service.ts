@@ -0,0 +1,437 @@
+import { PayStructure, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError, ValidationError } from '../utils/errors.util';
+import { getLocalTimeParts, isHourInWindow } from './pricing-rule.service';
+
+/**
+ * Pay Structure Service - Agent earnings from assigned pay structures
+ *
+ * RULES:
+ * - Agents without an active pay structure earn the pricing profile's agent share (order payoutAmount)
+ * - Per-delivery earning by payType:
+ *   PER_DELIVERY = baseRate, COMMISSION = commissionRate% of the partner payment,
+ *   HOURLY = baseRate x hours from assignment to delivery, SALARY = 0 (paid per period)
+ * - bonusRules and deductionRules adjust each delivery; maxLimit caps the result
+ * - At payout, SALARY structures credit baseRate for the period and every structure with
+ *   a minGuarantee tops period pay up to it (only when the agent delivered in the period)
+ * - Period credits carry a reference so a period is never settled twice
+ */
+
+export const PAY_TYPES = ['PER_DELIVERY', 'HOURLY', 'SALARY', 'COMMISSION'] as const;
+export type PayType = typeof PAY_TYPES[number];
+
+export interface PayBonusRule {
+  name: string;
+  amount?: number; // Flat bonus
+  percent?: number; // Percent of the base earning
+  minDistanceKm?: number;
+  slaPriority?: 'EXPRESS' | 'STANDARD';
+  startHour?: number; // Delivery hour window in PRICING_TIMEZONE
+  endHour?: number;
+}
+
+export interface PayDeductionRule {
+  name: string;
+  amount?: number; // Flat deduction
+  percent?: number; // Percent of the base earning
+  whenLate?: boolean; // Only when actual duration exceeded the estimate
+}
+
+export interface PayStructureInput {
+  name?: string;
+  payType?: PayType;
+  baseRate?: number | null;
+  commissionRate?: number | null;
+  minGuarantee?: number | null;
+  maxLimit?: number | null;
+  bonusRules?: PayBonusRule[] | null;
+  deductionRules?: PayDeductionRule[] | null;
+  isActive?: boolean;
+  effectiveFrom?: string | Date;
+  effectiveTo?: string | Date | null;
+}
+
+export interface EarningLine {
+  label: string;
+  amount: number;
+}
+
+export interface OrderEarning {
+  amount: number;
+  payStructureId: string | null; // null = default agent share
+  lines: EarningLine[];
+}
+
+export interface PeriodSettlement {
+  payStructureId: string | null;
+  reference: string;
+  periodEarnings: number; // Delivery earnings credited in the period
+  salary: number; // SALARY still to credit for the period
+  guaranteeTopUp: number; // Top-up still to credit for the period
+  deliveries: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Whether a structure applies at a point in time
+ */
+const isEffective = (structure: PayStructure, at: Date) => {
+  return structure.isActive &&
+    structure.effectiveFrom <= at &&
+    (!structure.effectiveTo || structure.effectiveTo > at);
+};
+
+const validateAdjustmentRules = (rules: unknown, field: string) => {
+  if (!Array.isArray(rules)) {
+    throw new ValidationError(`${field} must be an array`);
+  }
+  for (const rule of rules as any[]) {
+    if (!rule?.name || typeof rule.name !== 'string') {
+      throw new ValidationError(`Each of ${field} needs a name`);
+    }
+    if (isFiniteNumber(rule.amount) === isFiniteNumber(rule.percent)) {
+      throw new ValidationError(`${field} "${rule.name}" needs exactly one of amount or percent`);
+    }
+    if ((rule.amount ?? rule.percent) < 0) {
+      throw new ValidationError(`${field} "${rule.name}" must not be negative`);
+    }
+    for (const hourField of ['startHour', 'endHour']) {
+      if (rule[hourField] !== undefined && !(Number.isInteger(rule[hourField]) && rule[hourField] >= 0 && rule[hourField] <= 23)) {
+        throw new ValidationError(`${field} "${rule.name}" ${hourField} must be an integer between 0 and 23`);
+      }
+    }
+  }
+};
+
+/**
+ * Validate pay structure input; the payType decides which rate is required
+ */
+const validateStructure = (input: PayStructureInput) => {
+  if (!input.name) {
+    throw new ValidationError('name is required');
+  }
+  if (!input.payType || !PAY_TYPES.includes(input.payType)) {
+    throw new ValidationError(`payType must be one of ${PAY_TYPES.join(', ')}`);
+  }
+  if (input.payType === 'COMMISSION') {
+    if (!isFiniteNumber(input.commissionRate) || input.commissionRate <= 0 || input.commissionRate > 100) {
+      throw new ValidationError('commissionRate between 0 and 100 is required for COMMISSION');
+    }
+  } else if (!isFiniteNumber(input.baseRate) || input.baseRate < 0) {
+    throw new ValidationError(`baseRate is required for ${input.payType}`);
+  }
+  for (const field of ['minGuarantee', 'maxLimit'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && (!isFiniteNumber(value) || value < 0)) {
+      throw new ValidationError(`${field} must be a non-negative number`);
+    }
+  }
+  if (input.bonusRules) {
+    validateAdjustmentRules(input.bonusRules, 'bonusRules');
+  }
+  if (input.deductionRules) {
+    validateAdjustmentRules(input.deductionRules, 'deductionRules');
+  }
+  const effectiveFrom = input.effectiveFrom ? new Date(input.effectiveFrom) : new Date();
+  const effectiveTo = input.effectiveTo ? new Date(input.effectiveTo) : null;
+  if (isNaN(effectiveFrom.getTime()) || (effectiveTo && isNaN(effectiveTo.getTime()))) {
+    throw new ValidationError('effectiveFrom and effectiveTo must be valid dates');
+  }
+  if (effectiveTo && effectiveTo <= effectiveFrom) {
+    throw new ValidationError('effectiveTo must be after effectiveFrom');
+  }
+};
+
+const toJsonRules = (rules: PayBonusRule[] | PayDeductionRule[] | null | undefined) => {
+  if (rules === undefined) return undefined;
+  return rules === null ? Prisma.DbNull : (rules as unknown as Prisma.InputJsonValue);
+};
+
+/**
+ * Reference for a pay period's SALARY/GUARANTEE_TOPUP credits
+ */
+export const getPayPeriodReference = (periodStart: Date, periodEnd: Date) => {
+  const toDate = (date: Date) => date.toISOString().split('T')[0];
+  return `PAY_PERIOD_${toDate(periodStart)}_${toDate(periodEnd)}`;
+};
+
+export const payStructureService = {
+  /**
+   * Earning for a delivered order from the agent's pay structure
+   * defaultAmount (the pricing profile agent share) is used when no structure applies
+   */
+  async calculateOrderEarning(
+    agentId: string,
+    orderId: string,
+    defaultAmount: number,
+    tx?: Prisma.TransactionClient
+  ): Promise<OrderEarning> {
+    const client = tx || prisma;
+    const [agent, order] = await Promise.all([
+      client.agent.findUnique({
+        where: { id: agentId },
+        select: { payStructure: true },
+      }),
+      client.order.findUnique({
+        where: { id: orderId },
+        select: {
+          partnerPayment: true,
+          orderAmount: true,
+          distanceKm: true,
+          slaPriority: true,
+          assignedAt: true,
+          pickedUpAt: true,
+          deliveredAt: true,
+          estimatedDuration: true,
+          actualDuration: true,
+        },
+      }),
+    ]);
+
+    const deliveredAt = order?.deliveredAt || new Date();
+    const structure = agent?.payStructure;
+
+    if (!order || !structure || !isEffective(structure, deliveredAt)) {
+      return {
+        amount: roundAmount(defaultAmount),
+        payStructureId: null,
+        lines: [{ label: 'Agent share', amount: roundAmount(defaultAmount) }],
+      };
+    }
+
+    const lines: EarningLine[] = [];
+    let base = 0;
+    switch (structure.payType as PayType) {
+      case 'PER_DELIVERY':
+        base = structure.baseRate || 0;
+        lines.push({ label: 'Per delivery', amount: roundAmount(base) });
+        break;
+      case 'COMMISSION': {
+        const partnerPayment = order.partnerPayment ?? order.orderAmount ?? 0;
+        base = partnerPayment * ((structure.commissionRate || 0) / 100);
+        lines.push({ label: `${structure.commissionRate}% commission`, amount: roundAmount(base) });
+        break;
+      }
+      case 'HOURLY': {
+        const startedAt = order.assignedAt || order.pickedUpAt || deliveredAt;
+        const hours = Math.max(0, deliveredAt.getTime() - startedAt.getTime()) / (60 * 60 * 1000);
+        base = hours * (structure.baseRate || 0);
+        lines.push({ label: `${roundAmount(hours)} h x ${structure.baseRate}`, amount: roundAmount(base) });
+        break;
+      }
+      case 'SALARY':
+        // Salary is credited per payout period; deliveries only earn bonuses
+        break;
+    }
+
+    const deliveryHour = getLocalTimeParts(deliveredAt).hour;
+    const bonusRules = (Array.isArray(structure.bonusRules) ? structure.bonusRules : []) as unknown as PayBonusRule[];
+    for (const rule of bonusRules) {
+      if (rule.minDistanceKm !== undefined && (order.distanceKm ?? 0) < rule.minDistanceKm) continue;
+      if (rule.slaPriority && order.slaPriority !== rule.slaPriority) continue;
+      if (rule.startHour !== undefined && rule.endHour !== undefined &&
+        !isHourInWindow(deliveryHour, rule.startHour, rule.endHour)) continue;
+
+      const amount = rule.amount ?? base * ((rule.percent || 0) / 100);
+      if (amount > 0) {
+        lines.push({ label: rule.name, amount: roundAmount(amount) });
+      }
+    }
+
+    const isLate = !!order.estimatedDuration && !!order.actualDuration && order.actualDuration > order.estimatedDuration;
+    const deductionRules = (Array.isArray(structure.deductionRules) ? structure.deductionRules : []) as unknown as PayDeductionRule[];
+    for (const rule of deductionRules) {
+      if (rule.whenLate && !isLate) continue;
+
+      const amount = rule.amount ?? base * ((rule.percent || 0) / 100);
+      if (amount > 0) {
+        lines.push({ label: rule.name, amount: -roundAmount(amount) });
+      }
+    }
+
+    let amount = Math.max(0, lines.reduce((sum, line) => sum + line.amount, 0));
+    if (structure.maxLimit !== null && amount > structure.maxLimit) {
+      lines.push({ label: `Capped at ${structure.maxLimit}`, amount: roundAmount(structure.maxLimit - amount) });
+      amount = structure.maxLimit;
+    }
+
+    return {
+      amount: roundAmount(amount),
+      payStructureId: structure.id,
+      lines,
+    };
+  },
+
+  /**
+   * Salary and minimum-guarantee top-up still owed to an agent for a payout period
+   */
+  async calculatePeriodSettlement(agentId: string, periodStart: Date, periodEnd: Date): Promise<PeriodSettlement> {
+    const reference = getPayPeriodReference(periodStart, periodEnd);
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { payStructure: true, wallet: { select: { id: true } } },
+    });
+
+    const structure = agent?.payStructure;
+    const settlement: PeriodSettlement = {
+      payStructureId: structure?.id ?? null,
+      reference,
+      periodEarnings: 0,
+      salary: 0,
+      guaranteeTopUp: 0,
+      deliveries: 0,
+    };
+
+    if (!structure || !isEffective(structure, periodEnd < new Date() ? periodEnd : new Date()) || !agent?.wallet) {
+      return settlement;
+    }
+
+    const [earnings, periodCredits, deliveries] = await Promise.all([
+      prisma.walletTransaction.aggregate({
+        where: {
+          agentWalletId: agent.wallet.id,
+          type: 'EARNING',
+          createdAt: { gte: periodStart, lte: periodEnd },
+        },
+        _sum: { amount: true },
+      }),
+      prisma.walletTransaction.findMany({
+        where: {
+          agentWalletId: agent.wallet.id,
+          type: { in: ['SALARY', 'GUARANTEE_TOPUP'] },
+          reference,
+        },
+        select: { type: true, amount: true },
+      }),
+      prisma.order.count({
+        where: {
+          agentId,
+          status: 'DELIVERED',
+          deliveredAt: { gte: periodStart, lte: periodEnd },
+        },
+      }),
+    ]);
+
+    settlement.periodEarnings = roundAmount(earnings._sum.amount || 0);
+    settlement.deliveries = deliveries;
+
+    const salaryCredited = periodCredits.find((credit) => credit.type === 'SALARY')?.amount || 0;
+    const salary = structure.payType === 'SALARY' ? structure.baseRate || 0 : 0;
+    if (salary > 0 && !salaryCredited) {
+      settlement.salary = roundAmount(salary);
+    }
+
+    const alreadyToppedUp = periodCredits.some((credit) => credit.type === 'GUARANTEE_TOPUP');
+    if (structure.minGuarantee && deliveries > 0 && !alreadyToppedUp) {
+      const periodPay = settlement.periodEarnings + (salaryCredited || settlement.salary);
+      settlement.guaranteeTopUp = roundAmount(Math.max(0, structure.minGuarantee - periodPay));
+    }
+
+    return settlement;
+  },
+
+  /**
+   * List pay structures with the number of assigned agents
+   */
+  async listStructures() {
+    return prisma.payStructure.findMany({
+      include: { _count: { select: { agents: true } } },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    });
+  },
+
+  /**
+   * Create a pay structure
+   */
+  async createStructure(input: PayStructureInput) {
+    validateStructure(input);
+
+    return prisma.payStructure.create({
+      data: {
+        name: input.name as string,
+        payType: input.payType as PayType,
+        baseRate: input.baseRate,
+        commissionRate: input.commissionRate,
+        minGuarantee: input.minGuarantee,
+        maxLimit: input.maxLimit,
+        bonusRules: toJsonRules(input.bonusRules),
+        deductionRules: toJsonRules(input.deductionRules),
+        isActive: input.isActive,
+        effectiveFrom: input.effectiveFrom ? new Date(input.effectiveFrom) : undefined,
+        effectiveTo: input.effectiveTo ? new Date(input.effectiveTo) : null,
+      },
+    });
+  },
+
+  /**
+   * Update a pay structure (fields not provided keep their values)
+   */
+  async updateStructure(structureId: string, input: PayStructureInput) {
+    const existing = await prisma.payStructure.findUnique({ where: { id: structureId } });
+    if (!existing) {
+      throw new NotFoundError('Pay structure not found');
+    }
+
+    const merged: PayStructureInput = {
+      name: input.name ?? existing.name,
+      payType: input.payType ?? (existing.payType as PayType),
+      baseRate: input.baseRate !== undefined ? input.baseRate : existing.baseRate,
+      commissionRate: input.commissionRate !== undefined ? input.commissionRate : existing.commissionRate,
+      minGuarantee: input.minGuarantee !== undefined ? input.minGuarantee : existing.minGuarantee,
+      maxLimit: input.maxLimit !== undefined ? input.maxLimit : existing.maxLimit,
+      bonusRules: input.bonusRules !== undefined ? input.bonusRules : (existing.bonusRules as unknown as PayBonusRule[] | null),
+      deductionRules: input.deductionRules !== undefined
+        ? input.deductionRules
+        : (existing.deductionRules as unknown as PayDeductionRule[] | null),
+      effectiveFrom: input.effectiveFrom ?? existing.effectiveFrom,
+      effectiveTo: input.effectiveTo !== undefined ? input.effectiveTo : existing.effectiveTo,
+    };
+    validateStructure(merged);
+
+    return prisma.payStructure.update({
+      where: { id: structureId },
+      data: {
+        name: input.name,
+        payType: input.payType,
+        baseRate: input.baseRate,
+        commissionRate: input.commissionRate,
+        minGuarantee: input.minGuarantee,
+        maxLimit: input.maxLimit,
+        bonusRules: toJsonRules(input.bonusRules),
+        deductionRules: toJsonRules(input.deductionRules),
+        isActive: input.isActive,
+        effectiveFrom: input.effectiveFrom ? new Date(input.effectiveFrom) : undefined,
+        effectiveTo: input.effectiveTo === undefined ? undefined : input.effectiveTo ? new Date(input.effectiveTo) : null,
+      },
+    });
+  },
+
+  /**
+   * Assign a pay structure to agents (null reverts them to the default agent share)
+   */
+  async assignToAgents(agentIds: string[], payStructureId: string | null) {
+    if (!Array.isArray(agentIds) || agentIds.length === 0) {
+      throw new ValidationError('agentIds must be a non-empty array');
+    }
+
+    if (payStructureId) {
+      const structure = await prisma.payStructure.findUnique({ where: { id: payStructureId } });
+      if (!structure) {
+        throw new NotFoundError('Pay structure not found');
+      }
+      if (!structure.isActive) {
+        throw new ValidationError('Cannot assign an inactive pay structure');
+      }
+    }
+
+    const result = await prisma.agent.updateMany({
+      where: { id: { in: agentIds } },
+      data: { payStructureId },
+    });
+
+    return { updated: result.count };
+  },
+};
@@ -1,6 +1,9 @@
+import { WalletPayout } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { walletService } from './wallet.service';
+import { payStructureService } from './pay-structure.service';
 import { paymentGatewayService } from './payment-gateway.service';
+import { codService } from './cod.service';
 import {
   PayoutError,
   PayoutAlreadyProcessedError,
@@ -19,6 +22,9 @@ export interface PayoutSummary {
   periodEnd: Date;
   orderCount: number;
   payoutPlan: 'WEEKLY' | 'MONTHLY';
+  salary?: number; // Pay structure salary to credit for the period (included in totalEarnings)
+  guaranteeTopUp?: number; // Minimum guarantee top-up to credit for the period (included in totalEarnings)
+  payStructureReference?: string;
 }
 
 export interface WeeklyPayoutSummary extends PayoutSummary {
@@ -109,6 +115,52 @@ function getNextMonthStart(periodEnd: Date): Date {
   return nextMonth;
 }
 
+/**
+ * Add the period's pending pay structure salary and minimum guarantee top-up to a summary
+ */
+async function addPeriodSettlement<T extends PayoutSummary>(summary: T): Promise<T> {
+  const settlement = await payStructureService.calculatePeriodSettlement(
+    summary.agentId,
+    summary.periodStart,
+    summary.periodEnd
+  );
+
+  return {
+    ...summary,
+    totalEarnings: summary.totalEarnings + settlement.salary + settlement.guaranteeTopUp,
+    salary: settlement.salary,
+    guaranteeTopUp: settlement.guaranteeTopUp,
+    payStructureReference: settlement.reference,
+  };
+}
+
+/**
+ * Credit a summary's salary and minimum guarantee top-up before paying it out
+ */
+async function creditPeriodSettlement(summary: PayoutSummary) {
+  const period = `${summary.periodStart.toLocaleDateString()} - ${summary.periodEnd.toLocaleDateString()}`;
+
+  if (summary.salary && summary.payStructureReference) {
+    await walletService.creditAgentWalletAdjustment(
+      summary.agentId,
+      summary.salary,
+      'SALARY',
+      summary.payStructureReference,
+      `Salary for ${period}`
+    );
+  }
+
+  if (summary.guaranteeTopUp && summary.payStructureReference) {
+    await walletService.creditAgentWalletAdjustment(
+      summary.agentId,
+      summary.guaranteeTopUp,
+      'GUARANTEE_TOPUP',
+      summary.payStructureReference,
+      `Minimum guarantee top-up for ${period}`
+    );
+  }
+}
+
 /**
  * ✅ EXTRACTED: Common payout processing logic
  * Handles both existing and new payouts
@@ -198,7 +250,7 @@ async function processPayout({
   // If existing payout, update it; otherwise create new one
   if (existingPayout) {
     // Update existing payout
-    let updatedPayout;
+    let updatedPayout: WalletPayout;
     try {
       updatedPayout = await prisma.walletPayout.update({
         where: { id: existingPayout.id },
@@ -232,6 +284,12 @@ async function processPayout({
           updatedPayout.id,
           `${summary.payoutPlan} payout for ${summary.periodStart.toLocaleDateString()} - ${summary.periodEnd.toLocaleDateString()}`
         );
+
+        // Keep COD cash the agent still holds out of the transfer
+        const codNetted = await prisma.$transaction((tx) =>
+          codService.netAgainstPayout(agentId, summary.totalEarnings, updatedPayout.id, tx)
+        );
+        updatedPayout = { ...updatedPayout, codNetted };
       } else {
         logger.warn('Wallet balance insufficient', {
           balance: wallet.balance,
@@ -300,6 +358,10 @@ async function processPayout({
             where: { id: wallet.id },
             data: { nextPayoutDate },
           });
+
+          // Keep COD cash the agent still holds out of the transfer
+          const codNetted = await codService.netAgainstPayout(agentId, summary.totalEarnings, newPayout.id, tx);
+          return { ...newPayout, codNetted };
         }
 
         return newPayout;
@@ -406,7 +468,7 @@ export const payoutService = {
       }
     }
 
-    return {
+    return addPeriodSettlement<WeeklyPayoutSummary>({
       agentId,
       agentName: agent.user.name || 'Unknown Agent',
       totalEarnings,
@@ -414,7 +476,7 @@ export const payoutService = {
       periodEnd: endDate,
       orderCount: orders.length,
       payoutPlan: 'WEEKLY',
-    };
+    });
   },
 
   /**
@@ -517,6 +579,8 @@ export const payoutService = {
       throw new PayoutAlreadyProcessedError(existingPayoutForPeriod.id, existingPayoutForPeriod.status);
     }
 
+    await creditPeriodSettlement(summary);
+
     return processPayout({
       agentId,
       summary,
@@ -598,7 +662,7 @@ export const payoutService = {
       }
     }
 
-    return {
+    return addPeriodSettlement<MonthlyPayoutSummary>({
       agentId,
       agentName: agent.user.name || 'Unknown Agent',
       totalEarnings,
@@ -606,7 +670,7 @@ export const payoutService = {
       periodEnd: endDate,
       orderCount: orders.length,
       payoutPlan: 'MONTHLY',
-    };
+    });
   },
 
   /**
@@ -703,6 +767,8 @@ export const payoutService = {
       throw new Error('No earnings to payout');
     }
 
+    await creditPeriodSettlement(summary);
+
     return processPayout({
       agentId,
       summary,
@@ -0,0 +1,497 @@
+import { Prisma, VehicleType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError, ValidationError } from '../utils/errors.util';
+
+/**
+ * Pricing Rule Service - Time-of-day, zone and holiday rules layered over pricing profiles
+ *
+ * RULES:
+ * - A rule belongs to one pricing profile, or to every profile when pricingProfileId is null
+ * - Conditions (pickup/drop zone polygons, hour window, days of week, vehicle types,
+ *   holiday calendar, validity dates) are ANDed; unset conditions always match
+ * - Hours, days and holiday dates are evaluated in PRICING_TIMEZONE
+ * - Matching rules apply in priority order (highest first) to the pre-surge subtotal:
+ *   multiplier and flatFee adjust the running subtotal, the highest minFare is a floor
+ * - A matching rule with stopProcessing skips every lower-priority rule
+ */
+
+export const PRICING_TIMEZONE = process.env.PRICING_TIMEZONE || 'Asia/Kolkata';
+
+export type ZonePolygon = Array<[number, number]>; // [[lat, lng], ...]
+
+export interface PricingRuleInput {
+  name?: string;
+  description?: string | null;
+  pricingProfileId?: string | null;
+  priority?: number;
+  isActive?: boolean;
+  stopProcessing?: boolean;
+  pickupZone?: ZonePolygon | null;
+  dropZone?: ZonePolygon | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  daysOfWeek?: number[];
+  vehicleTypes?: VehicleType[];
+  holidayCalendarId?: string | null;
+  validFrom?: string | Date | null;
+  validUntil?: string | Date | null;
+  multiplier?: number | null;
+  flatFee?: number | null;
+  minFare?: number | null;
+}
+
+export interface PricingRuleContext {
+  pricingProfileId: string;
+  pickupLat: number;
+  pickupLng: number;
+  dropLat: number;
+  dropLng: number;
+  vehicleType: VehicleType;
+  at: Date;
+}
+
+export interface PricingRuleTrace {
+  ruleId: string;
+  name: string;
+  priority: number;
+  matched: boolean;
+  applied: boolean; // false when matched but skipped by a stopProcessing rule
+  reason: string | null; // First condition that failed, or why it was skipped
+}
+
+export interface PricingRuleEvaluation {
+  localTime: { date: string; hour: number; minute: number; dayOfWeek: number; timezone: string };
+  holiday: string | null; // Name of the holiday on this date, if any calendar lists it
+  applied: Prisma.PricingRuleGetPayload<{}>[];
+  trace: PricingRuleTrace[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Local date, hour, minute and day of week for a time in PRICING_TIMEZONE
+ */
+export const getLocalTimeParts = (at: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: 'numeric',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+    timeZone: PRICING_TIMEZONE,
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+  };
+};
+
+/**
+ * Whether an hour falls in a window (which may wrap past midnight); equal bounds never match
+ */
+export const isHourInWindow = (hour: number, startHour: number, endHour: number): boolean => {
+  if (startHour === endHour) {
+    return false;
+  }
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+};
+
+/**
+ * Ray casting point-in-polygon test
+ */
+export const isPointInPolygon = (lat: number, lng: number, polygon: ZonePolygon): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = (lngI > lng) !== (lngJ > lng)
+      && lat < ((latJ - latI) * (lng - lngI)) / (lngJ - lngI) + latI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const isZonePolygon = (value: unknown): value is ZonePolygon => {
+  return Array.isArray(value) && value.length >= 3 && value.every((point) =>
+    Array.isArray(point) && point.length === 2 &&
+    typeof point[0] === 'number' && point[0] >= -90 && point[0] <= 90 &&
+    typeof point[1] === 'number' && point[1] >= -180 && point[1] <= 180
+  );
+};
+
+const isHour = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+
+const optionalDate = (value: string | Date | null | undefined, field: string) => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+  return date;
+};
+
+/**
+ * Validate rule input and map it to Prisma data
+ * On create every rule needs a name and at least one adjustment
+ */
+const toRuleData = (input: PricingRuleInput, isCreate: boolean) => {
+  if (isCreate && (!input.name || typeof input.name !== 'string')) {
+    throw new ValidationError('name is required');
+  }
+
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    throw new ValidationError('priority must be an integer');
+  }
+
+  for (const field of ['pickupZone', 'dropZone'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && !isZonePolygon(value)) {
+      throw new ValidationError(`${field} must be a polygon of at least 3 [lat, lng] points`);
+    }
+  }
+
+  for (const field of ['startHour', 'endHour'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && !isHour(value)) {
+      throw new ValidationError(`${field} must be an integer between 0 and 23`);
+    }
+  }
+
+  if ((input.startHour === null || input.startHour === undefined) !== (input.endHour === null || input.endHour === undefined)) {
+    throw new ValidationError('startHour and endHour must be set together');
+  }
+
+  if (input.daysOfWeek !== undefined &&
+    (!Array.isArray(input.daysOfWeek) || !input.daysOfWeek.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))) {
+    throw new ValidationError('daysOfWeek must be an array of integers between 0 (Sunday) and 6 (Saturday)');
+  }
+
+  if (input.vehicleTypes !== undefined &&
+    (!Array.isArray(input.vehicleTypes) || !input.vehicleTypes.every((type) => Object.values(VehicleType).includes(type)))) {
+    throw new ValidationError(`vehicleTypes must only contain ${Object.values(VehicleType).join(', ')}`);
+  }
+
+  if (input.multiplier !== undefined && input.multiplier !== null &&
+    (typeof input.multiplier !== 'number' || input.multiplier <= 0)) {
+    throw new ValidationError('multiplier must be a positive number');
+  }
+
+  for (const field of ['flatFee', 'minFare'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && typeof value !== 'number') {
+      throw new ValidationError(`${field} must be a number`);
+    }
+  }
+
+  if (input.minFare !== undefined && input.minFare !== null && input.minFare < 0) {
+    throw new ValidationError('minFare must be non-negative');
+  }
+
+  if (isCreate && input.multiplier == null && input.flatFee == null && input.minFare == null) {
+    throw new ValidationError('A rule needs at least one of multiplier, flatFee or minFare');
+  }
+
+  const validFrom = optionalDate(input.validFrom, 'validFrom');
+  const validUntil = optionalDate(input.validUntil, 'validUntil');
+  if (validFrom && validUntil && validFrom >= validUntil) {
+    throw new ValidationError('validFrom must be before validUntil');
+  }
+
+  return {
+    name: input.name,
+    description: input.description,
+    pricingProfileId: input.pricingProfileId,
+    priority: input.priority,
+    isActive: input.isActive,
+    stopProcessing: input.stopProcessing,
+    pickupZone: input.pickupZone === null ? Prisma.DbNull : input.pickupZone,
+    dropZone: input.dropZone === null ? Prisma.DbNull : input.dropZone,
+    startHour: input.startHour,
+    endHour: input.endHour,
+    daysOfWeek: input.daysOfWeek,
+    vehicleTypes: input.vehicleTypes,
+    holidayCalendarId: input.holidayCalendarId,
+    validFrom,
+    validUntil,
+    multiplier: input.multiplier,
+    flatFee: input.flatFee,
+    minFare: input.minFare,
+  };
+};
+
+/**
+ * Ensure the profile and holiday calendar a rule points to exist
+ */
+const assertReferences = async (input: PricingRuleInput) => {
+  if (input.pricingProfileId) {
+    const profile = await prisma.pricingProfile.findUnique({ where: { id: input.pricingProfileId } });
+    if (!profile) {
+      throw new NotFoundError('Pricing profile not found');
+    }
+  }
+  if (input.holidayCalendarId) {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: input.holidayCalendarId } });
+    if (!calendar) {
+      throw new NotFoundError('Holiday calendar not found');
+    }
+  }
+};
+
+/**
+ * First condition of a rule that does not hold for the context (null when the rule matches)
+ */
+const getMismatchReason = (
+  rule: Prisma.PricingRuleGetPayload<{}>,
+  context: PricingRuleContext,
+  localTime: ReturnType<typeof getLocalTimeParts>,
+  holidayCalendarIds: Set<string>
+): string | null => {
+  if (rule.validFrom && context.at < rule.validFrom) {
+    return 'Not yet valid';
+  }
+  if (rule.validUntil && context.at >= rule.validUntil) {
+    return 'No longer valid';
+  }
+  if (rule.vehicleTypes.length > 0 && !rule.vehicleTypes.includes(context.vehicleType)) {
+    return `Vehicle ${context.vehicleType} not in ${rule.vehicleTypes.join(', ')}`;
+  }
+  if (rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(localTime.dayOfWeek)) {
+    return `${WEEKDAYS[localTime.dayOfWeek]} not in rule days`;
+  }
+  if (rule.startHour !== null && rule.endHour !== null &&
+    !isHourInWindow(localTime.hour, rule.startHour, rule.endHour)) {
+    return `Hour ${localTime.hour} outside ${rule.startHour}:00-${rule.endHour}:00`;
+  }
+  if (rule.holidayCalendarId && !holidayCalendarIds.has(rule.holidayCalendarId)) {
+    return `${localTime.date} is not a holiday in the rule's calendar`;
+  }
+  if (isZonePolygon(rule.pickupZone) && !isPointInPolygon(context.pickupLat, context.pickupLng, rule.pickupZone)) {
+    return 'Pickup outside rule zone';
+  }
+  if (isZonePolygon(rule.dropZone) && !isPointInPolygon(context.dropLat, context.dropLng, rule.dropZone)) {
+    return 'Drop outside rule zone';
+  }
+  return null;
+};
+
+export const pricingRuleService = {
+  /**
+   * Evaluate active rules for a pricing profile in priority order
+   * Returns the rules to apply and a trace of every candidate rule
+   */
+  async evaluate(context: PricingRuleContext): Promise<PricingRuleEvaluation> {
+    const localTime = getLocalTimeParts(context.at);
+
+    const rules = await prisma.pricingRule.findMany({
+      where: {
+        isActive: true,
+        OR: [{ pricingProfileId: context.pricingProfileId }, { pricingProfileId: null }],
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    const holidays = rules.length > 0
+      ? await prisma.holiday.findMany({
+        where: { date: new Date(`${localTime.date}T00:00:00.000Z`) },
+        select: { calendarId: true, name: true },
+      })
+      : [];
+    const holidayCalendarIds = new Set(holidays.map((holiday) => holiday.calendarId));
+
+    const applied: PricingRuleEvaluation['applied'] = [];
+    const trace: PricingRuleTrace[] = [];
+    let stoppedBy: string | null = null;
+
+    for (const rule of rules) {
+      const reason = getMismatchReason(rule, context, localTime, holidayCalendarIds);
+      const matched = reason === null;
+      const apply = matched && !stoppedBy;
+
+      trace.push({
+        ruleId: rule.id,
+        name: rule.name,
+        priority: rule.priority,
+        matched,
+        applied: apply,
+        reason: reason ?? (stoppedBy ? `Skipped after "${stoppedBy}" (stopProcessing)` : null),
+      });
+
+      if (apply) {
+        applied.push(rule);
+        if (rule.stopProcessing) {
+          stoppedBy = rule.name;
+        }
+      }
+    }
+
+    return {
+      localTime: { ...localTime, timezone: PRICING_TIMEZONE },
+      holiday: holidays[0]?.name ?? null,
+      applied,
+      trace,
+    };
+  },
+
+  /**
+   * List rules (highest priority first), optionally for one pricing profile
+   */
+  async listRules(pricingProfileId?: string) {
+    return prisma.pricingRule.findMany({
+      where: pricingProfileId ? { pricingProfileId } : undefined,
+      include: {
+        pricingProfile: { select: { id: true, name: true, category: true } },
+        holidayCalendar: { select: { id: true, name: true } },
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  },
+
+  /**
+   * Create a pricing rule
+   */
+  async createRule(input: PricingRuleInput) {
+    const data = toRuleData(input, true);
+    await assertReferences(input);
+    return prisma.pricingRule.create({
+      data: { ...data, name: data.name as string },
+    });
+  },
+
+  /**
+   * Update a pricing rule (only the fields provided)
+   */
+  async updateRule(ruleId: string, input: PricingRuleInput) {
+    const existing = await prisma.pricingRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      throw new NotFoundError('Pricing rule not found');
+    }
+
+    // Hour bounds are validated as a pair against the stored values
+    const data = toRuleData({
+      ...input,
+      startHour: input.startHour !== undefined ? input.startHour : existing.startHour,
+      endHour: input.endHour !== undefined ? input.endHour : existing.endHour,
+    }, false);
+    await assertReferences(input);
+
+    const adjustments = {
+      multiplier: data.multiplier !== undefined ? data.multiplier : existing.multiplier,
+      flatFee: data.flatFee !== undefined ? data.flatFee : existing.flatFee,
+      minFare: data.minFare !== undefined ? data.minFare : existing.minFare,
+    };
+    if (adjustments.multiplier == null && adjustments.flatFee == null && adjustments.minFare == null) {
+      throw new ValidationError('A rule needs at least one of multiplier, flatFee or minFare');
+    }
+
+    return prisma.pricingRule.update({
+      where: { id: ruleId },
+      data,
+    });
+  },
+
+  /**
+   * Delete a pricing rule
+   */
+  async deleteRule(ruleId: string) {
+    const result = await prisma.pricingRule.deleteMany({ where: { id: ruleId } });
+    if (result.count === 0) {
+      throw new NotFoundError('Pricing rule not found');
+    }
+  },
+
+  /**
+   * List holiday calendars with their dates
+   */
+  async listCalendars() {
+    return prisma.holidayCalendar.findMany({
+      include: {
+        holidays: { orderBy: { date: 'asc' } },
+        _count: { select: { pricingRules: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  },
+
+  /**
+   * Create a holiday calendar, optionally with dates
+   */
+  async createCalendar(input: { name: string; description?: string; holidays?: Array<{ date: string; name: string }> }) {
+    if (!input.name) {
+      throw new ValidationError('name is required');
+    }
+
+    const existing = await prisma.holidayCalendar.findUnique({ where: { name: input.name } });
+    if (existing) {
+      throw new ValidationError(`A holiday calendar named "${input.name}" already exists`);
+    }
+
+    const calendar = await prisma.holidayCalendar.create({
+      data: { name: input.name, description: input.description },
+    });
+
+    if (input.holidays?.length) {
+      await this.addHolidays(calendar.id, input.holidays);
+    }
+
+    return prisma.holidayCalendar.findUniqueOrThrow({
+      where: { id: calendar.id },
+      include: { holidays: { orderBy: { date: 'asc' } } },
+    });
+  },
+
+  /**
+   * Add dates (YYYY-MM-DD in PRICING_TIMEZONE) to a calendar; existing dates are renamed
+   */
+  async addHolidays(calendarId: string, holidays: Array<{ date: string; name: string }>) {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: calendarId } });
+    if (!calendar) {
+      throw new NotFoundError('Holiday calendar not found');
+    }
+
+    if (!Array.isArray(holidays) || holidays.length === 0) {
+      throw new ValidationError('holidays must be a non-empty array of { date, name }');
+    }
+
+    for (const holiday of holidays) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday?.date) || isNaN(new Date(holiday.date).getTime()) || !holiday.name) {
+        throw new ValidationError('Each holiday needs a date (YYYY-MM-DD) and a name');
+      }
+    }
+
+    await prisma.$transaction(holidays.map((holiday) => {
+      const date = new Date(`${holiday.date}T00:00:00.000Z`);
+      return prisma.holiday.upsert({
+        where: { calendarId_date: { calendarId, date } },
+        update: { name: holiday.name },
+        create: { calendarId, date, name: holiday.name },
+      });
+    }));
+
+    return prisma.holiday.findMany({
+      where: { calendarId },
+      orderBy: { date: 'asc' },
+    });
+  },
+
+  /**
+   * Remove a date from a calendar
+   */
+  async deleteHoliday(calendarId: string, holidayId: string) {
+    const result = await prisma.holiday.deleteMany({ where: { id: holidayId, calendarId } });
+    if (result.count === 0) {
+      throw new NotFoundError('Holiday not found');
+    }
+  },
+};
@@ -1,37 +1,103 @@
 import { prisma } from '../lib/prisma';
-import { PartnerCategory, SLAPriority } from '@prisma/client';
+import { surgeService } from './surge.service';
+import { pricingRuleService, PricingRuleEvaluation, getLocalTimeParts, isHourInWindow } from './pricing-rule.service';
+import { PartnerCategory, Prisma, SLAPriority, VehicleType } from '@prisma/client';
+import { geoService } from './geo.service';
 
-/**
- * Calculate distance between two coordinates using Haversine formula
- * Returns distance in kilometers
- */
-function calculateDistanceKm(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+export type PricingLineCode =
+  | 'BASE_FEE'
+  | 'DISTANCE'
+  | 'MIN_FARE_ADJUSTMENT'
+  | 'WEIGHT_SLAB'
+  | 'VOLUME_SLAB'
+  | 'WAITING'
+  | 'RULE_ADJUSTMENT'
+  | 'RULE_MIN_FARE'
+  | 'SURGE'
+  | 'NIGHT_SURCHARGE';
+
+export interface PricingLine {
+  code: PricingLineCode;
+  label: string;
+  amount: number;
+  ruleId?: string; // Pricing rule that produced the line
 }
 
 export interface PricingCalculation {
-  partnerPayment: number; // Total amount partner pays
+  partnerPayment: number; // Total amount partner pays (sum of lines)
   agentPayout: number; // Amount paid to agent
   adminCommission: number; // Platform commission
   distanceKm: number;
   baseFee: number;
   perKmFee: number;
   surgeMultiplier: number;
+  surgeZone: string | null; // Pickup zone the dynamic surge was read from
+  vehicleType: VehicleType;
+  lines: PricingLine[]; // Itemized price, persisted on the order
+}
+
+export interface EtaEstimate {
+  pickupMinutes: number; // Time for an agent to reach the pickup
+  travelMinutes: number; // Pickup to drop
+  totalMinutes: number;
+}
+
+// Average speeds in city traffic (km/h)
+export const AVERAGE_SPEED_KMPH: Record<VehicleType, number> = {
+  [VehicleType.BIKE]: 25,
+  [VehicleType.SCOOTER]: 22,
+  [VehicleType.CAR]: 20,
+  [VehicleType.BICYCLE]: 12,
+  [VehicleType.TRUCK]: 18,
+  [VehicleType.CARGO_CARRIER]: 18,
+};
+
+// Time to assign an agent and reach the pickup (minutes)
+const PICKUP_MINUTES: Record<SLAPriority, number> = {
+  [SLAPriority.EXPRESS]: 10,
+  [SLAPriority.STANDARD]: 30,
+};
+
+// Applied to the profile's baseFee/perKmFee for vehicles without a rate card
+const DEFAULT_VEHICLE_RATE_FACTORS: Record<VehicleType, number> = {
+  [VehicleType.BICYCLE]: 0.8,
+  [VehicleType.BIKE]: 1,
+  [VehicleType.SCOOTER]: 1,
+  [VehicleType.CAR]: 1.5,
+  [VehicleType.CARGO_CARRIER]: 2.5,
+  [VehicleType.TRUCK]: 3,
+};
+
+export interface PricingSlab {
+  upTo: number; // kg for weight slabs, liters for volume slabs
+  fee: number;
+}
+
+export interface PricingRateCardConfig {
+  vehicleType: VehicleType;
+  baseFee: number;
+  perKmFee: number;
+  minFare: number | null;
+  waitingFeePerMinute: number | null;
+}
+
+export interface ResolvedPricingProfile {
+  id: string;
+  name: string;
+  category: PartnerCategory;
+  baseFee: number;
+  perKmFee: number;
+  surgePercent: number;
+  maxSurgeMultiplier: number;
+  agentSharePct: number;
+  weightSlabs: PricingSlab[];
+  volumeSlabs: PricingSlab[];
+  freeWaitingMinutes: number;
+  waitingFeePerMinute: number;
+  nightSurchargePct: number;
+  nightStartHour: number;
+  nightEndHour: number;
+  rateCards: PricingRateCardConfig[];
 }
 
 export interface PricingCalculationInput {
@@ -40,26 +106,81 @@ export interface PricingCalculationInput {
   pickupLng: number;
   dropLat: number;
   dropLng: number;
-  isSurge?: boolean; // Whether surge pricing applies
+  isSurge?: boolean; // Force at least the profile's surgePercent (dynamic surge applies regardless)
+  vehicleType?: VehicleType; // Defaults to BIKE
+  packageWeightKg?: number;
+  packageVolumeLiters?: number;
+  waitingMinutes?: number; // Expected loading/unloading wait
+  pickupAt?: Date | string | null; // Scheduled pickup (night surcharge, pricing rules); defaults to now
 }
 
+export interface PricingPreviewInput extends Omit<PricingCalculationInput, 'partnerId'> {
+  partnerId?: string; // Price with this partner's profile...
+  category?: PartnerCategory; // ...or the default profile for a category
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Parse and sort slabs stored as JSON on a pricing profile
+ */
+const parseSlabs = (value: unknown): PricingSlab[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((slab: any) => typeof slab?.upTo === 'number' && typeof slab?.fee === 'number')
+    .map((slab: any) => ({ upTo: slab.upTo, fee: slab.fee }))
+    .sort((a, b) => a.upTo - b.upTo);
+};
+
+/**
+ * Fee for the first slab the value fits in (the last slab applies above all limits)
+ */
+const getSlabFee = (slabs: PricingSlab[], value?: number): number => {
+  if (!value || value <= 0 || slabs.length === 0) {
+    return 0;
+  }
+  const slab = slabs.find((candidate) => value <= candidate.upTo) || slabs[slabs.length - 1];
+  return slab.fee;
+};
+
+const toResolvedProfile = (profile: Prisma.PricingProfileGetPayload<{ include: { rateCards: true } }>): ResolvedPricingProfile => ({
+  id: profile.id,
+  name: profile.name,
+  category: profile.category,
+  baseFee: profile.baseFee,
+  perKmFee: profile.perKmFee,
+  surgePercent: profile.surgePercent,
+  maxSurgeMultiplier: profile.maxSurgeMultiplier,
+  agentSharePct: profile.agentSharePct,
+  weightSlabs: parseSlabs(profile.weightSlabs),
+  volumeSlabs: parseSlabs(profile.volumeSlabs),
+  freeWaitingMinutes: profile.freeWaitingMinutes,
+  waitingFeePerMinute: profile.waitingFeePerMinute,
+  nightSurchargePct: profile.nightSurchargePct,
+  nightStartHour: profile.nightStartHour,
+  nightEndHour: profile.nightEndHour,
+  rateCards: profile.rateCards.map((card) => ({
+    vehicleType: card.vehicleType,
+    baseFee: card.baseFee,
+    perKmFee: card.perKmFee,
+    minFare: card.minFare,
+    waitingFeePerMinute: card.waitingFeePerMinute,
+  })),
+});
+
 export const pricingService = {
   /**
    * Get pricing profile for a partner (uses partner's custom profile or category default)
    */
-  async getPricingProfile(partnerId: string): Promise<{
-    id: string;
-    name: string;
-    category: PartnerCategory;
-    baseFee: number;
-    perKmFee: number;
-    surgePercent: number;
-    agentSharePct: number;
-  }> {
+  async getPricingProfile(partnerId: string): Promise<ResolvedPricingProfile> {
     const partner = await prisma.partner.findUnique({
       where: { id: partnerId },
       include: {
-        pricingProfile: true,
+        pricingProfile: {
+          include: { rateCards: true },
+        },
       },
     });
 
@@ -69,20 +190,13 @@ export const pricingService = {
 
     // If partner has custom pricing profile, use it
     if (partner.pricingProfile) {
-      return {
-        id: partner.pricingProfile.id,
-        name: partner.pricingProfile.name,
-        category: partner.pricingProfile.category,
-        baseFee: partner.pricingProfile.baseFee,
-        perKmFee: partner.pricingProfile.perKmFee,
-        surgePercent: partner.pricingProfile.surgePercent,
-        agentSharePct: partner.pricingProfile.agentSharePct,
-      };
+      return toResolvedProfile(partner.pricingProfile);
     }
 
     // Otherwise, use default pricing profile for partner's category
     let defaultProfile = await prisma.pricingProfile.findUnique({
       where: { category: partner.category },
+      include: { rateCards: true },
     });
 
     // If default profile doesn't exist, try to seed it automatically
@@ -95,6 +209,7 @@ export const pricingService = {
         // Try to find it again after seeding
         defaultProfile = await prisma.pricingProfile.findUnique({
           where: { category: partner.category },
+          include: { rateCards: true },
         });
       } catch (seedError: any) {
         console.error(
@@ -110,60 +225,230 @@ export const pricingService = {
       );
     }
 
-    return {
-      id: defaultProfile.id,
-      name: defaultProfile.name,
-      category: defaultProfile.category,
-      baseFee: defaultProfile.baseFee,
-      perKmFee: defaultProfile.perKmFee,
-      surgePercent: defaultProfile.surgePercent,
-      agentSharePct: defaultProfile.agentSharePct,
-    };
+    return toResolvedProfile(defaultProfile);
+  },
+
+  /**
+   * Get the default pricing profile for a partner category
+   */
+  async getCategoryPricingProfile(category: PartnerCategory): Promise<ResolvedPricingProfile> {
+    const profile = await prisma.pricingProfile.findUnique({
+      where: { category },
+      include: { rateCards: true },
+    });
+
+    if (!profile) {
+      throw new Error(`No pricing profile found for category ${category}`);
+    }
+
+    return toResolvedProfile(profile);
   },
 
   /**
    * Calculate order pricing based on partner's pricing profile
+   * Returns an itemized line list; partnerPayment is the sum of the lines
    */
   async calculateOrderPricing(
     input: PricingCalculationInput
   ): Promise<PricingCalculation> {
     const profile = await this.getPricingProfile(input.partnerId);
+    const { calculation } = await this.priceWithProfile(profile, input);
+    return calculation;
+  },
+
+  /**
+   * Price a delivery without creating anything, with a trace of which pricing rules fired
+   */
+  async previewPricing(input: PricingPreviewInput) {
+    let profile: ResolvedPricingProfile;
+    if (input.partnerId) {
+      profile = await this.getPricingProfile(input.partnerId);
+    } else if (input.category) {
+      profile = await this.getCategoryPricingProfile(input.category);
+    } else {
+      throw new Error('partnerId or category is required');
+    }
 
-    // Calculate distance
-    const distanceKm = calculateDistanceKm(
-      input.pickupLat,
-      input.pickupLng,
-      input.dropLat,
-      input.dropLng
+    const { calculation, rules } = await this.priceWithProfile(profile, input);
+
+    return {
+      profile: { id: profile.id, name: profile.name, category: profile.category },
+      pricing: calculation,
+      rules,
+    };
+  },
+
+  /**
+   * Itemized pricing with a resolved profile:
+   * rates -> package/waiting charges -> pricing rules -> surge -> night surcharge
+   */
+  async priceWithProfile(
+    profile: ResolvedPricingProfile,
+    input: Omit<PricingCalculationInput, 'partnerId'>
+  ): Promise<{ calculation: PricingCalculation; rules: PricingRuleEvaluation }> {
+    const vehicleType = input.vehicleType || VehicleType.BIKE;
+    const pickupAt = input.pickupAt ? new Date(input.pickupAt) : new Date();
+
+    // Route distance from the configured geo provider (straight line when offline)
+    const route = await geoService.distance(
+      { latitude: input.pickupLat, longitude: input.pickupLng },
+      { latitude: input.dropLat, longitude: input.dropLng }
     );
+    const distanceKm = route.distanceMeters / 1000;
+
+    // Vehicle rates: rate card if configured, otherwise profile rates scaled for the vehicle
+    const rateCard = profile.rateCards.find((card) => card.vehicleType === vehicleType);
+    const vehicleFactor = DEFAULT_VEHICLE_RATE_FACTORS[vehicleType];
+    const baseFee = rateCard ? rateCard.baseFee : roundAmount(profile.baseFee * vehicleFactor);
+    const perKmFee = rateCard ? rateCard.perKmFee : roundAmount(profile.perKmFee * vehicleFactor);
+    const distanceFee = roundAmount(distanceKm * perKmFee);
+
+    const lines: PricingLine[] = [
+      { code: 'BASE_FEE', label: `Base fare (${vehicleType})`, amount: baseFee },
+      { code: 'DISTANCE', label: `Distance ${roundAmount(distanceKm)} km x ${perKmFee}`, amount: distanceFee },
+    ];
+
+    if (rateCard?.minFare && baseFee + distanceFee < rateCard.minFare) {
+      lines.push({
+        code: 'MIN_FARE_ADJUSTMENT',
+        label: `Minimum fare ${rateCard.minFare}`,
+        amount: roundAmount(rateCard.minFare - baseFee - distanceFee),
+      });
+    }
+
+    // Package slabs
+    const weightFee = getSlabFee(profile.weightSlabs, input.packageWeightKg);
+    if (weightFee > 0) {
+      lines.push({ code: 'WEIGHT_SLAB', label: `Package weight ${input.packageWeightKg} kg`, amount: weightFee });
+    }
+
+    const volumeFee = getSlabFee(profile.volumeSlabs, input.packageVolumeLiters);
+    if (volumeFee > 0) {
+      lines.push({ code: 'VOLUME_SLAB', label: `Package volume ${input.packageVolumeLiters} L`, amount: volumeFee });
+    }
 
-    // Calculate base pricing
-    const baseFee = profile.baseFee;
-    const distanceFee = distanceKm * profile.perKmFee;
+    // Waiting time beyond the free minutes
+    const waitingFeePerMinute = rateCard?.waitingFeePerMinute ?? profile.waitingFeePerMinute;
+    const chargeableWaitingMinutes = Math.max(0, (input.waitingMinutes || 0) - profile.freeWaitingMinutes);
+    if (chargeableWaitingMinutes > 0 && waitingFeePerMinute > 0) {
+      lines.push({
+        code: 'WAITING',
+        label: `Waiting ${chargeableWaitingMinutes} min x ${waitingFeePerMinute}`,
+        amount: roundAmount(chargeableWaitingMinutes * waitingFeePerMinute),
+      });
+    }
+
+    // Pricing rules (zone, time of day, day of week, holidays) in priority order
+    const rules = await pricingRuleService.evaluate({
+      pricingProfileId: profile.id,
+      pickupLat: input.pickupLat,
+      pickupLng: input.pickupLng,
+      dropLat: input.dropLat,
+      dropLng: input.dropLng,
+      vehicleType,
+      at: pickupAt,
+    });
 
-    // Apply surge if applicable
-    const surgeMultiplier = input.isSurge
+    let ruleMinFare: { amount: number; ruleId: string; name: string } | null = null;
+    for (const rule of rules.applied) {
+      const runningTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+      if (rule.multiplier !== null && rule.multiplier !== 1) {
+        lines.push({
+          code: 'RULE_ADJUSTMENT',
+          label: `${rule.name} x${rule.multiplier}`,
+          amount: roundAmount(runningTotal * (rule.multiplier - 1)),
+          ruleId: rule.id,
+        });
+      }
+      if (rule.flatFee) {
+        lines.push({ code: 'RULE_ADJUSTMENT', label: rule.name, amount: rule.flatFee, ruleId: rule.id });
+      }
+      if (rule.minFare !== null && (!ruleMinFare || rule.minFare > ruleMinFare.amount)) {
+        ruleMinFare = { amount: rule.minFare, ruleId: rule.id, name: rule.name };
+      }
+    }
+
+    const adjustedTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (ruleMinFare && adjustedTotal < ruleMinFare.amount) {
+      lines.push({
+        code: 'RULE_MIN_FARE',
+        label: `${ruleMinFare.name} minimum fare ${ruleMinFare.amount}`,
+        amount: roundAmount(ruleMinFare.amount - adjustedTotal),
+        ruleId: ruleMinFare.ruleId,
+      });
+    }
+
+    const subtotal = Math.max(0, lines.reduce((sum, line) => sum + line.amount, 0));
+
+    // Dynamic surge from live demand/supply in the pickup zone, capped per profile
+    const zoneSurge = await surgeService.getZoneSurge(input.pickupLat, input.pickupLng);
+    const dynamicMultiplier = Math.min(zoneSurge.multiplier, profile.maxSurgeMultiplier);
+
+    // Manual surge (isSurge) still guarantees at least the profile's surgePercent
+    const manualMultiplier = input.isSurge
       ? 1 + profile.surgePercent / 100
       : 1;
+    const surgeMultiplier = Math.max(1, dynamicMultiplier, manualMultiplier);
 
-    // Calculate partner payment (what partner pays)
-    const partnerPayment =
-      (baseFee + distanceFee) * surgeMultiplier;
+    if (surgeMultiplier > 1) {
+      lines.push({
+        code: 'SURGE',
+        label: `Surge x${surgeMultiplier}`,
+        amount: roundAmount(subtotal * (surgeMultiplier - 1)),
+      });
+    }
+
+    // Night surcharge on the subtotal, based on the scheduled pickup (or now)
+    if (profile.nightSurchargePct > 0 &&
+      isHourInWindow(getLocalTimeParts(pickupAt).hour, profile.nightStartHour, profile.nightEndHour)) {
+      lines.push({
+        code: 'NIGHT_SURCHARGE',
+        label: `Night surcharge ${profile.nightSurchargePct}%`,
+        amount: roundAmount(subtotal * (profile.nightSurchargePct / 100)),
+      });
+    }
+
+    // Calculate partner payment (what partner pays); negative rule fees never price below zero
+    const partnerPayment = Math.max(0, roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)));
 
     // Calculate agent payout (percentage of partner payment)
-    const agentPayout = partnerPayment * (profile.agentSharePct / 100);
+    const agentPayout = roundAmount(partnerPayment * (profile.agentSharePct / 100));
 
     // Calculate admin commission (remainder)
-    const adminCommission = partnerPayment - agentPayout;
+    const adminCommission = roundAmount(partnerPayment - agentPayout);
+
+    return {
+      calculation: {
+        partnerPayment,
+        agentPayout,
+        adminCommission,
+        distanceKm: roundAmount(distanceKm),
+        baseFee,
+        perKmFee,
+        surgeMultiplier,
+        surgeZone: zoneSurge.zoneId,
+        vehicleType,
+        lines,
+      },
+      rules,
+    };
+  },
+
+  /**
+   * Estimate delivery time for a distance, vehicle type and SLA priority
+   */
+  estimateEta(
+    distanceKm: number,
+    vehicleType: VehicleType = VehicleType.BIKE,
+    slaPriority: SLAPriority = SLAPriority.STANDARD
+  ): EtaEstimate {
+    const pickupMinutes = PICKUP_MINUTES[slaPriority];
+    const travelMinutes = Math.ceil((distanceKm / AVERAGE_SPEED_KMPH[vehicleType]) * 60);
 
     return {
-      partnerPayment: Math.round(partnerPayment * 100) / 100, // Round to 2 decimals
-      agentPayout: Math.round(agentPayout * 100) / 100,
-      adminCommission: Math.round(adminCommission * 100) / 100,
-      distanceKm: Math.round(distanceKm * 100) / 100,
-      baseFee,
-      perKmFee: profile.perKmFee,
-      surgeMultiplier,
+      pickupMinutes,
+      travelMinutes,
+      totalMinutes: pickupMinutes + travelMinutes,
     };
   },
 
@@ -194,6 +479,7 @@ export const pricingService = {
         baseFee: 35,
         perKmFee: 4,
         surgePercent: 20,
+        maxSurgeMultiplier: 2.0,
         agentSharePct: 70,
       },
       {
@@ -202,6 +488,7 @@ export const pricingService = {
         baseFee: 45,
         perKmFee: 6,
         surgePercent: 15,
+        maxSurgeMultiplier: 1.5,
         agentSharePct: 70,
       },
       {
@@ -210,6 +497,7 @@ export const pricingService = {
         baseFee: 30,
         perKmFee: 5,
         surgePercent: 10,
+        maxSurgeMultiplier: 1.3,
         agentSharePct: 70,
       },
       {
@@ -218,6 +506,7 @@ export const pricingService = {
         baseFee: 40,
         perKmFee: 5,
         surgePercent: 25,
+        maxSurgeMultiplier: 2.0,
         agentSharePct: 70,
       },
       {
@@ -226,6 +515,7 @@ export const pricingService = {
         baseFee: 40,
         perKmFee: 5,
         surgePercent: 15,
+        maxSurgeMultiplier: 1.5,
         agentSharePct: 70,
       },
     ];
@@ -0,0 +1,234 @@
+import { Prisma, PriceQuote, SLAPriority, VehicleType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { pricingService, PricingCalculation, PricingLine } from './pricing.service';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors.util';
+
+/**
+ * Quote Service - Price quotes before order creation
+ *
+ * RULES:
+ * - A quote prices pickup/drop coordinates with the partner's pricing profile
+ * - Quotes expire after QUOTE_TTL_MINUTES
+ * - Passing quoteId at order creation uses the quoted price instead of re-pricing
+ * - The order's pickup/drop must match the quoted coordinates
+ * - A quote can be used for one order only
+ */
+
+export const QUOTE_TTL_MINUTES = 15;
+const COORDINATE_TOLERANCE = 0.0005; // ~50m
+
+export interface QuoteInput {
+  pickupLat: number;
+  pickupLng: number;
+  dropLat: number;
+  dropLng: number;
+  slaPriority?: SLAPriority;
+  vehicleType?: VehicleType;
+  packageWeightKg?: number;
+  packageVolumeLiters?: number;
+  waitingMinutes?: number;
+  pickupAt?: string; // Scheduled pickup (night surcharge); defaults to now
+  isSurge?: boolean;
+}
+
+export interface QuoteCoordinates {
+  pickupLat: number;
+  pickupLng: number;
+  dropLat: number;
+  dropLng: number;
+}
+
+/**
+ * Format a quote for API responses
+ */
+export const formatQuote = (quote: PriceQuote) => {
+  const breakdown = quote.breakdown as Prisma.JsonObject;
+
+  return {
+    quoteId: quote.id,
+    pickup: { latitude: quote.pickupLat, longitude: quote.pickupLng },
+    dropoff: { latitude: quote.dropLat, longitude: quote.dropLng },
+    slaPriority: quote.slaPriority,
+    vehicleType: quote.vehicleType,
+    packageWeightKg: quote.packageWeightKg,
+    packageVolumeLiters: quote.packageVolumeLiters,
+    waitingMinutes: quote.waitingMinutes,
+    price: {
+      total: quote.partnerPayment,
+      currency: 'INR',
+      lines: breakdown.lines ?? [],
+      surgeMultiplier: breakdown.surgeMultiplier ?? 1,
+    },
+    distanceKm: quote.distanceKm,
+    eta: {
+      minutes: quote.etaMinutes,
+      pickupMinutes: breakdown.etaPickupMinutes ?? null,
+      travelMinutes: breakdown.etaTravelMinutes ?? null,
+    },
+    expiresAt: quote.expiresAt.toISOString(),
+    createdAt: quote.createdAt.toISOString(),
+  };
+};
+
+/**
+ * Pricing locked by a quote, in the shape returned by pricingService.calculateOrderPricing
+ */
+export const toPricingCalculation = (quote: PriceQuote): PricingCalculation => {
+  const breakdown = quote.breakdown as Prisma.JsonObject;
+
+  return {
+    partnerPayment: quote.partnerPayment,
+    agentPayout: quote.agentPayout,
+    adminCommission: quote.adminCommission,
+    distanceKm: quote.distanceKm,
+    baseFee: Number(breakdown.baseFee),
+    perKmFee: Number(breakdown.perKmFee),
+    surgeMultiplier: Number(breakdown.surgeMultiplier),
+    surgeZone: (breakdown.surgeZone as string | undefined) ?? null,
+    vehicleType: quote.vehicleType,
+    lines: (breakdown.lines ?? []) as unknown as PricingLine[],
+  };
+};
+
+const coordinatesMatch = (quote: PriceQuote, coords: QuoteCoordinates) => {
+  return (
+    Math.abs(quote.pickupLat - coords.pickupLat) <= COORDINATE_TOLERANCE &&
+    Math.abs(quote.pickupLng - coords.pickupLng) <= COORDINATE_TOLERANCE &&
+    Math.abs(quote.dropLat - coords.dropLat) <= COORDINATE_TOLERANCE &&
+    Math.abs(quote.dropLng - coords.dropLng) <= COORDINATE_TOLERANCE
+  );
+};
+
+export const quoteService = {
+  /**
+   * Price a delivery and store a short-lived quote
+   */
+  async createQuote(partnerId: string, input: QuoteInput) {
+    const partner = await prisma.partner.findUnique({
+      where: { id: partnerId },
+      select: { category: true, isActive: true },
+    });
+
+    if (!partner) {
+      throw new NotFoundError('Partner not found');
+    }
+
+    if (!partner.isActive) {
+      throw new AppError('Partner account is not active', 403);
+    }
+
+    const slaPriority = input.slaPriority || pricingService.getSLAPriority(partner.category);
+    const vehicleType = input.vehicleType || VehicleType.BIKE;
+
+    let pricing;
+    try {
+      pricing = await pricingService.calculateOrderPricing({
+        partnerId,
+        pickupLat: input.pickupLat,
+        pickupLng: input.pickupLng,
+        dropLat: input.dropLat,
+        dropLng: input.dropLng,
+        isSurge: input.isSurge,
+        vehicleType,
+        packageWeightKg: input.packageWeightKg,
+        packageVolumeLiters: input.packageVolumeLiters,
+        waitingMinutes: input.waitingMinutes,
+        pickupAt: input.pickupAt,
+      });
+    } catch (error: any) {
+      throw new ValidationError(`Pricing calculation failed: ${error.message}`);
+    }
+
+    const eta = pricingService.estimateEta(pricing.distanceKm, vehicleType, slaPriority);
+
+    const quote = await prisma.priceQuote.create({
+      data: {
+        partnerId,
+        pickupLat: input.pickupLat,
+        pickupLng: input.pickupLng,
+        dropLat: input.dropLat,
+        dropLng: input.dropLng,
+        slaPriority,
+        vehicleType,
+        packageWeightKg: input.packageWeightKg,
+        packageVolumeLiters: input.packageVolumeLiters,
+        waitingMinutes: input.waitingMinutes,
+        isSurge: input.isSurge || false,
+        distanceKm: pricing.distanceKm,
+        partnerPayment: pricing.partnerPayment,
+        agentPayout: pricing.agentPayout,
+        adminCommission: pricing.adminCommission,
+        breakdown: {
+          baseFee: pricing.baseFee,
+          perKmFee: pricing.perKmFee,
+          surgeMultiplier: pricing.surgeMultiplier,
+          surgeZone: pricing.surgeZone,
+          etaPickupMinutes: eta.pickupMinutes,
+          etaTravelMinutes: eta.travelMinutes,
+          lines: pricing.lines.map((line) => ({ ...line })),
+        },
+        etaMinutes: eta.totalMinutes,
+        expiresAt: new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000),
+      },
+    });
+
+    return formatQuote(quote);
+  },
+
+  /**
+   * Get a partner's quote
+   */
+  async getQuote(partnerId: string, quoteId: string) {
+    const quote = await prisma.priceQuote.findFirst({
+      where: { id: quoteId, partnerId },
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote not found');
+    }
+
+    return formatQuote(quote);
+  },
+
+  /**
+   * Resolve a quote passed at order creation
+   * Throws if the quote is unknown, expired, already used or for different coordinates
+   */
+  async resolveForOrder(partnerId: string, quoteId: string, coords: QuoteCoordinates) {
+    const quote = await prisma.priceQuote.findFirst({
+      where: { id: quoteId, partnerId },
+      include: { order: { select: { id: true } } },
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote not found');
+    }
+
+    if (quote.order) {
+      throw new ConflictError(`Quote has already been used for order ${quote.order.id}`);
+    }
+
+    if (quote.expiresAt <= new Date()) {
+      throw new ValidationError('Quote has expired. Please request a new quote.');
+    }
+
+    if (!coordinatesMatch(quote, coords)) {
+      throw new ValidationError('Order pickup/drop coordinates do not match the quote');
+    }
+
+    return quote;
+  },
+
+  /**
+   * Delete expired quotes that were never used
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await prisma.priceQuote.deleteMany({
+      where: {
+        expiresAt: { lte: new Date() },
+        order: { is: null },
+      },
+    });
+    return result.count;
+  },
+};
@@ -0,0 +1,219 @@
+import { PartnerCategory } from '@prisma/client';
+import { getRedisClient, isRedisConnected } from '../lib/redis';
+
+/**
+ * Rate Limit Service - Token buckets and daily usage metering for the partner API
+ *
+ * RULES:
+ * - Each API key gets one bucket per route; a request spends one token
+ * - Buckets hold a minute's worth of requests and refill continuously
+ * - The per-minute limit depends on the partner's category and can be overridden
+ *   with PARTNER_API_RATE_LIMIT_<CATEGORY> (e.g. PARTNER_API_RATE_LIMIT_ENTERPRISE=2000)
+ * - Redis is used when connected so limits are shared across instances;
+ *   otherwise buckets and usage counters are kept in memory
+ */
+
+export const RATE_LIMIT_WINDOW_SECONDS = 60;
+const USAGE_RETENTION_DAYS = 35;
+const MAX_IN_MEMORY_BUCKETS = 10000;
+
+// Requests per minute per API key and route
+const DEFAULT_RATE_LIMITS: Record<PartnerCategory, number> = {
+  [PartnerCategory.QUICK_COMMERCE]: 600,
+  [PartnerCategory.ECOMMERCE]: 300,
+  [PartnerCategory.LOCAL_STORE]: 60,
+  [PartnerCategory.FOOD_DELIVERY]: 300,
+  [PartnerCategory.LOGISTICS_PROVIDER]: 300,
+  [PartnerCategory.ENTERPRISE]: 1200,
+  [PartnerCategory.RURAL_PARTNER]: 60,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Seconds until the bucket is full again
+  retryAfterSeconds: number; // Seconds until the next request is allowed (0 when allowed)
+}
+
+export interface DailyApiUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  requests: number;
+  throttled: number;
+}
+
+// Atomically refill and spend from a bucket stored as a hash { tokens, updatedAt }
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local ttlMs = tonumber(ARGV[4])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1])
+local updatedAt = tonumber(bucket[2])
+if tokens == nil or updatedAt == nil then
+  tokens = capacity
+  updatedAt = now
+end
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ttlMs)
+return { allowed, tostring(tokens) }
+`;
+
+// In-memory fallbacks (per instance)
+const memoryBuckets = new Map<string, { tokens: number; updatedAt: number }>();
+const memoryUsage = new Map<string, DailyApiUsage>();
+
+const bucketKey = (apiKeyId: string, route: string) => `ratelimit:partner-api:${apiKeyId}:${route}`;
+const usageKey = (partnerId: string, date: string) => `usage:partner-api:${partnerId}:${date}`;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Get the per-minute request limit for a partner category
+ */
+export const getRateLimitForCategory = (category: PartnerCategory): number => {
+  const override = Number(process.env[`PARTNER_API_RATE_LIMIT_${category}`]);
+  if (Number.isFinite(override) && override > 0) {
+    return Math.floor(override);
+  }
+  return DEFAULT_RATE_LIMITS[category] ?? DEFAULT_RATE_LIMITS[PartnerCategory.LOCAL_STORE];
+};
+
+const buildResult = (allowed: boolean, tokens: number, limit: number, refillPerMs: number): RateLimitResult => {
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((limit - tokens) / refillPerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+  };
+};
+
+const consumeFromMemory = (key: string, limit: number, refillPerMs: number, now: number) => {
+  if (memoryBuckets.size > MAX_IN_MEMORY_BUCKETS) {
+    // Drop buckets that have been idle long enough to be full again
+    for (const [bucketId, bucket] of memoryBuckets) {
+      if (now - bucket.updatedAt > RATE_LIMIT_WINDOW_SECONDS * 1000) {
+        memoryBuckets.delete(bucketId);
+      }
+    }
+  }
+
+  const bucket = memoryBuckets.get(key) || { tokens: limit, updatedAt: now };
+  let tokens = Math.min(limit, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs);
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+  memoryBuckets.set(key, { tokens, updatedAt: now });
+
+  return { allowed, tokens };
+};
+
+export const rateLimitService = {
+  /**
+   * Spend a token from the bucket for an API key and route
+   */
+  async consume(apiKeyId: string, route: string, limit: number): Promise<RateLimitResult> {
+    const key = bucketKey(apiKeyId, route);
+    const refillPerMs = limit / (RATE_LIMIT_WINDOW_SECONDS * 1000);
+    const now = Date.now();
+
+    const redis = getRedisClient();
+    if (redis && isRedisConnected()) {
+      try {
+        const [allowed, tokens] = await redis.eval(
+          TOKEN_BUCKET_SCRIPT,
+          1,
+          key,
+          limit,
+          refillPerMs,
+          now,
+          RATE_LIMIT_WINDOW_SECONDS * 2 * 1000
+        ) as [number, string];
+
+        return buildResult(allowed === 1, Number(tokens), limit, refillPerMs);
+      } catch (error: any) {
+        console.error('[Rate Limit] Redis error, falling back to in-memory bucket:', error?.message);
+      }
+    }
+
+    const { allowed, tokens } = consumeFromMemory(key, limit, refillPerMs, now);
+    return buildResult(allowed, tokens, limit, refillPerMs);
+  },
+
+  /**
+   * Count a partner API request towards today's usage
+   */
+  async recordUsage(partnerId: string, throttled: boolean) {
+    const date = toDateKey(new Date());
+    const key = usageKey(partnerId, date);
+
+    const redis = getRedisClient();
+    if (redis && isRedisConnected()) {
+      try {
+        const pipeline = redis.multi().hincrby(key, 'requests', 1);
+        if (throttled) {
+          pipeline.hincrby(key, 'throttled', 1);
+        }
+        await pipeline.expire(key, USAGE_RETENTION_DAYS * 24 * 60 * 60).exec();
+        return;
+      } catch (error: any) {
+        console.error('[Rate Limit] Redis error, recording usage in memory:', error?.message);
+      }
+    }
+
+    const usage = memoryUsage.get(key) || { date, requests: 0, throttled: 0 };
+    usage.requests += 1;
+    if (throttled) {
+      usage.throttled += 1;
+    }
+    memoryUsage.set(key, usage);
+
+    // Keep only the retention window in memory
+    const oldestDate = toDateKey(new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    for (const [usageId, entry] of memoryUsage) {
+      if (entry.date < oldestDate) {
+        memoryUsage.delete(usageId);
+      }
+    }
+  },
+
+  /**
+   * Get a partner's daily API usage for the last N days (most recent first)
+   */
+  async getDailyUsage(partnerId: string, days: number = 7): Promise<DailyApiUsage[]> {
+    const dates = Array.from({ length: Math.min(Math.max(days, 1), USAGE_RETENTION_DAYS) }, (_, i) =>
+      toDateKey(new Date(Date.now() - i * 24 * 60 * 60 * 1000))
+    );
+
+    const redis = getRedisClient();
+    if (redis && isRedisConnected()) {
+      try {
+        const pipeline = redis.multi();
+        dates.forEach((date) => pipeline.hgetall(usageKey(partnerId, date)));
+        const results = (await pipeline.exec()) || [];
+
+        return dates.map((date, i) => {
+          const counts = (results[i]?.[1] || {}) as Record<string, string>;
+          return {
+            date,
+            requests: Number(counts.requests || 0),
+            throttled: Number(counts.throttled || 0),
+          };
+        });
+      } catch (error: any) {
+        console.error('[Rate Limit] Redis error, reading usage from memory:', error?.message);
+      }
+    }
+
+    return dates.map((date) => memoryUsage.get(usageKey(partnerId, date)) || { date, requests: 0, throttled: 0 });
+  },
+};
@@ -0,0 +1,329 @@
+import { VehicleType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotFoundError } from '../utils/errors.util';
+import { GeoPoint, geoService, haversineDistance } from './geo.service';
+import { AVERAGE_SPEED_KMPH } from './pricing.service';
+
+/**
+ * Route Service - Stop sequencing for multi-stop runs (batched trips, logistics agents)
+ *
+ * RULES:
+ * - Nearest-neighbour builds the first route, then 2-opt reverses segments while the cost drops
+ * - A drop is never visited before its order's pickup (when that pickup is still on the route)
+ * - Arriving before a stop's windowStart waits for it; every minute past windowEnd costs LATE_PENALTY_PER_MINUTE
+ * - Cost = driving + waiting minutes + lateness penalty
+ * - Distances are haversine unless a distance function is passed in; agent routes use geoService's
+ *   distance matrix (road distances when a geo provider is configured)
+ */
+
+const DEFAULT_SERVICE_MINUTES = 3; // Time spent at each stop
+const LATE_PENALTY_PER_MINUTE = 10;
+const MAX_TWO_OPT_PASSES = 50;
+
+// Orders an agent is still working on (pickup pending or drop pending)
+const ACTIVE_ORDER_STATUSES = ['ASSIGNED', 'PICKED_UP', 'OUT_FOR_DELIVERY', 'DELAYED', 'IN_TRANSIT', 'READY_FOR_PICKUP'] as const;
+
+/**
+ * Distance between two points in meters
+ */
+export type DistanceFunction = (from: GeoPoint, to: GeoPoint) => number;
+
+export interface RouteStopInput extends GeoPoint {
+  id: string;
+  orderId: string;
+  type: 'PICKUP' | 'DROP';
+  windowStart?: Date | null; // Earliest service time (e.g. scheduled pickup)
+  windowEnd?: Date | null; // Latest service time (e.g. delivery deadline)
+  serviceMinutes?: number;
+}
+
+export interface RoutedStop extends RouteStopInput {
+  sequence: number;
+  distanceFromPreviousKm: number;
+  eta: Date; // Arrival at the stop
+  departAt: Date;
+  waitMinutes: number;
+  lateMinutes: number;
+}
+
+export interface OptimizedRoute {
+  start: GeoPoint;
+  stops: RoutedStop[];
+  totalDistanceKm: number;
+  totalMinutes: number;
+  lateStops: number;
+}
+
+export interface RouteOptions {
+  start: GeoPoint;
+  startAt?: Date;
+  vehicleType?: VehicleType;
+  distance?: DistanceFunction;
+}
+
+const straightLineDistance: DistanceFunction = (from, to) =>
+  haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Sequence stops with nearest-neighbour + 2-opt
+ */
+export const optimizeRoute = (stops: RouteStopInput[], options: RouteOptions): OptimizedRoute => {
+  const distance = options.distance || straightLineDistance;
+  const startAt = options.startAt || new Date();
+  const speedKmph = AVERAGE_SPEED_KMPH[options.vehicleType || VehicleType.BIKE];
+
+  // Matrix node 0 is the start, node i + 1 is stops[i]
+  const nodes: GeoPoint[] = [options.start, ...stops];
+  const matrix = nodes.map((from) => nodes.map((to) => (from === to ? 0 : distance(from, to))));
+
+  // Index of each order's pickup on this route (drops of orders already picked up are unconstrained)
+  const pickupIndex = new Map<string, number>();
+  stops.forEach((stop, index) => {
+    if (stop.type === 'PICKUP') {
+      pickupIndex.set(stop.orderId, index);
+    }
+  });
+
+  const isFeasible = (sequence: number[]): boolean => {
+    const visited = new Set<number>();
+    for (const index of sequence) {
+      const stop = stops[index];
+      const pickup = pickupIndex.get(stop.orderId);
+      if (stop.type === 'DROP' && pickup !== undefined && !visited.has(pickup)) {
+        return false;
+      }
+      visited.add(index);
+    }
+    return true;
+  };
+
+  const evaluate = (sequence: number[]) => {
+    let time = startAt.getTime();
+    let previous = 0;
+    let meters = 0;
+    let lateMinutesTotal = 0;
+    const routed: RoutedStop[] = [];
+
+    sequence.forEach((index, position) => {
+      const stop = stops[index];
+      const legMeters = matrix[previous][index + 1];
+      const arrival = time + ((legMeters / 1000) / speedKmph) * 60 * 60000;
+      const serviceStart = Math.max(arrival, stop.windowStart?.getTime() ?? arrival);
+      const lateMinutes = stop.windowEnd ? Math.max(0, (serviceStart - stop.windowEnd.getTime()) / 60000) : 0;
+      const departAt = serviceStart + (stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES) * 60000;
+
+      routed.push({
+        ...stop,
+        sequence: position + 1,
+        distanceFromPreviousKm: round(legMeters / 1000),
+        eta: new Date(arrival),
+        departAt: new Date(departAt),
+        waitMinutes: round((serviceStart - arrival) / 60000),
+        lateMinutes: round(lateMinutes),
+      });
+
+      meters += legMeters;
+      lateMinutesTotal += lateMinutes;
+      time = departAt;
+      previous = index + 1;
+    });
+
+    const totalMinutes = (time - startAt.getTime()) / 60000;
+    return {
+      cost: totalMinutes + lateMinutesTotal * LATE_PENALTY_PER_MINUTE,
+      route: {
+        start: options.start,
+        stops: routed,
+        totalDistanceKm: round(meters / 1000),
+        totalMinutes: round(totalMinutes),
+        lateStops: routed.filter((stop) => stop.lateMinutes > 0).length,
+      },
+    };
+  };
+
+  // Nearest-neighbour over feasible stops
+  const sequence: number[] = [];
+  const remaining = new Set(stops.map((_, index) => index));
+  let current = 0;
+  while (remaining.size > 0) {
+    let best = -1;
+    for (const index of remaining) {
+      const stop = stops[index];
+      const pickup = pickupIndex.get(stop.orderId);
+      if (stop.type === 'DROP' && pickup !== undefined && remaining.has(pickup)) {
+        continue;
+      }
+      if (best === -1 || matrix[current][index + 1] < matrix[current][best + 1]) {
+        best = index;
+      }
+    }
+    sequence.push(best);
+    remaining.delete(best);
+    current = best + 1;
+  }
+
+  // 2-opt: reverse segments while that lowers the cost and keeps pickups before drops
+  let best = sequence;
+  let bestCost = evaluate(best).cost;
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        if (!isFeasible(candidate)) {
+          continue;
+        }
+        const cost = evaluate(candidate).cost;
+        if (cost < bestCost - 1e-6) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) {
+      break;
+    }
+  }
+
+  return evaluate(best).route;
+};
+
+/**
+ * Route stops for active orders: pickup while not picked up, then the drop
+ * Pickups wait for pickupWindow; drops are due pickedUpAt + estimatedDuration
+ */
+const buildOrderStops = (
+  orders: Array<{
+    id: string;
+    pickupLat: number;
+    pickupLng: number;
+    dropLat: number;
+    dropLng: number;
+    pickedUpAt: Date | null;
+    pickupWindow: Date | null;
+    estimatedDuration: number | null;
+    dropWarehouse?: { latitude: number; longitude: number } | null;
+  }>
+): RouteStopInput[] =>
+  orders.flatMap((order) => {
+    const stops: RouteStopInput[] = [];
+
+    if (!order.pickedUpAt) {
+      stops.push({
+        id: `${order.id}:PICKUP`,
+        orderId: order.id,
+        type: 'PICKUP',
+        latitude: order.pickupLat,
+        longitude: order.pickupLng,
+        windowStart: order.pickupWindow,
+      });
+    }
+
+    stops.push({
+      id: `${order.id}:DROP`,
+      orderId: order.id,
+      type: 'DROP',
+      latitude: order.dropWarehouse?.latitude ?? order.dropLat,
+      longitude: order.dropWarehouse?.longitude ?? order.dropLng,
+      windowEnd: order.pickedUpAt && order.estimatedDuration
+        ? new Date(order.pickedUpAt.getTime() + order.estimatedDuration * 60000)
+        : null,
+    });
+
+    return stops;
+  });
+
+const routeOrderSelect = {
+  id: true,
+  status: true,
+  pickupLat: true,
+  pickupLng: true,
+  dropLat: true,
+  dropLng: true,
+  pickedUpAt: true,
+  pickupWindow: true,
+  estimatedDuration: true,
+  customerName: true,
+  customerAddress: true,
+  dropWarehouse: { select: { latitude: true, longitude: true } },
+} as const;
+
+export const routeService = {
+  /**
+   * Optimized stop list with ETAs for a delivery agent's active orders, starting at their last location
+   */
+  async getAgentRoute(agentId: string) {
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: {
+        vehicleType: true,
+        locationHistory: { orderBy: { timestamp: 'desc' }, take: 1 },
+      },
+    });
+
+    if (!agent) {
+      throw new NotFoundError('Agent not found');
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { agentId, status: { in: [...ACTIVE_ORDER_STATUSES] } },
+      select: routeOrderSelect,
+    });
+
+    const stops = buildOrderStops(orders);
+    if (stops.length === 0) {
+      return { orders: [], route: null };
+    }
+
+    const lastLocation = agent.locationHistory[0];
+    const start = lastLocation ? { latitude: lastLocation.latitude, longitude: lastLocation.longitude } : stops[0];
+    const route = optimizeRoute(stops, {
+      start,
+      vehicleType: agent.vehicleType,
+      distance: await geoService.getDistanceFunction([start, ...stops]),
+    });
+
+    return { orders, route };
+  },
+
+  /**
+   * Optimized stop list with ETAs for a logistics agent's active orders
+   * Starts at start, else the agent's service area center, else the first stop
+   */
+  async getLogisticsAgentRoute(logisticsProviderId: string, logisticsAgentId: string, start?: GeoPoint) {
+    const agent = await prisma.logisticsAgent.findFirst({
+      where: { id: logisticsAgentId, logisticsProviderId },
+      select: { id: true, vehicleType: true, areaLatitude: true, areaLongitude: true },
+    });
+
+    if (!agent) {
+      throw new NotFoundError('Logistics agent not found');
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { logisticsAgentId, status: { in: [...ACTIVE_ORDER_STATUSES] } },
+      select: routeOrderSelect,
+    });
+
+    const stops = buildOrderStops(orders);
+    if (stops.length === 0) {
+      return { orders: [], route: null };
+    }
+
+    const areaCenter = agent.areaLatitude !== null && agent.areaLongitude !== null
+      ? { latitude: agent.areaLatitude, longitude: agent.areaLongitude }
+      : null;
+
+    const origin = start || areaCenter || stops[0];
+    const route = optimizeRoute(stops, {
+      start: origin,
+      vehicleType: agent.vehicleType,
+      distance: await geoService.getDistanceFunction([origin, ...stops]),
+    });
+
+    return { orders, route };
+  },
+};
@@ -1,4 +1,26 @@
 import { prisma } from '../lib/prisma';
+import { getLocalTimeParts } from './pricing-rule.service';
+
+/**
+ * Whether an agent's declared shift allows offering them an order right now
+ * - NO_SCHEDULE: nothing declared for today, the agent can be offered orders
+ * - IN_SHIFT: on shift and the shift lasts at least the estimated delivery duration
+ * - UNAVAILABLE / OFF_SHIFT / SHIFT_ENDS_TOO_SOON: the agent should not be offered the order
+ */
+export interface ShiftCoverage {
+  status: 'IN_SHIFT' | 'NO_SCHEDULE' | 'UNAVAILABLE' | 'OFF_SHIFT' | 'SHIFT_ENDS_TOO_SOON';
+  eligible: boolean;
+  shiftEndsAt: Date | null;
+  minutesLeft: number | null;
+  reason: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
 
 /**
  * Set agent availability for a specific date
@@ -120,6 +142,122 @@ export async function isAgentAvailable(
   return requestTime >= scheduleStart && requestTime <= scheduleEnd;
 }
 
+/**
+ * Check agents' declared shifts against an order that needs requiredMinutes to deliver
+ * Times are local (PRICING_TIMEZONE); a shift whose endTime is before its startTime runs past midnight
+ */
+export async function getShiftCoverage(
+  agentIds: string[],
+  requiredMinutes: number,
+  at: Date = new Date()
+): Promise<Map<string, ShiftCoverage>> {
+  const coverage = new Map<string, ShiftCoverage>();
+  if (agentIds.length === 0) {
+    return coverage;
+  }
+
+  const local = getLocalTimeParts(at);
+  const now = local.hour * 60 + local.minute;
+  const today = new Date(`${local.date}T00:00:00.000Z`);
+  const yesterday = new Date(today.getTime() - MINUTES_PER_DAY * 60 * 1000);
+
+  let schedules: Awaited<ReturnType<typeof prisma.agentSchedule.findMany>> = [];
+  try {
+    schedules = await prisma.agentSchedule.findMany({
+      where: {
+        agentId: { in: agentIds },
+        date: { in: [today, yesterday] },
+      },
+    });
+  } catch (error: any) {
+    // If table doesn't exist, treat every agent as having no schedule
+    if (error?.code === 'P2021' || error?.code === 'P2022' || error?.code === '42P01' || error?.message?.includes('does not exist')) {
+      console.warn('⚠️  AgentSchedule table does not exist - ignoring shifts for assignment');
+    } else {
+      throw error;
+    }
+  }
+
+  const endsIn = (minutesLeft: number) => new Date(at.getTime() + minutesLeft * 60 * 1000);
+
+  for (const agentId of agentIds) {
+    const todaySchedule = schedules.find((s) => s.agentId === agentId && s.date.getTime() === today.getTime());
+    const yesterdaySchedule = schedules.find((s) => s.agentId === agentId && s.date.getTime() === yesterday.getTime());
+
+    let minutesLeft: number | null = null;
+    let shiftLabel = '';
+
+    // An overnight shift from yesterday may still be running
+    if (yesterdaySchedule?.isAvailable && yesterdaySchedule.startTime && yesterdaySchedule.endTime &&
+      toMinutes(yesterdaySchedule.endTime) <= toMinutes(yesterdaySchedule.startTime) &&
+      now < toMinutes(yesterdaySchedule.endTime)) {
+      minutesLeft = toMinutes(yesterdaySchedule.endTime) - now;
+      shiftLabel = `${yesterdaySchedule.startTime}-${yesterdaySchedule.endTime}`;
+    } else if (!todaySchedule) {
+      coverage.set(agentId, {
+        status: 'NO_SCHEDULE',
+        eligible: true,
+        shiftEndsAt: null,
+        minutesLeft: null,
+        reason: 'No shift declared for today',
+      });
+      continue;
+    } else if (!todaySchedule.isAvailable) {
+      coverage.set(agentId, {
+        status: 'UNAVAILABLE',
+        eligible: false,
+        shiftEndsAt: null,
+        minutesLeft: null,
+        reason: 'Marked unavailable for today',
+      });
+      continue;
+    } else if (!todaySchedule.startTime || !todaySchedule.endTime) {
+      // Available all day
+      minutesLeft = MINUTES_PER_DAY - now;
+      shiftLabel = 'all day';
+    } else {
+      const start = toMinutes(todaySchedule.startTime);
+      const end = toMinutes(todaySchedule.endTime);
+      const overnight = end <= start;
+      shiftLabel = `${todaySchedule.startTime}-${todaySchedule.endTime}`;
+
+      if (now < start || (!overnight && now >= end)) {
+        coverage.set(agentId, {
+          status: 'OFF_SHIFT',
+          eligible: false,
+          shiftEndsAt: null,
+          minutesLeft: null,
+          reason: `Outside shift ${shiftLabel}`,
+        });
+        continue;
+      }
+
+      minutesLeft = overnight ? MINUTES_PER_DAY - now + end : end - now;
+    }
+
+    if (minutesLeft < requiredMinutes) {
+      coverage.set(agentId, {
+        status: 'SHIFT_ENDS_TOO_SOON',
+        eligible: false,
+        shiftEndsAt: endsIn(minutesLeft),
+        minutesLeft,
+        reason: `Shift ${shiftLabel} ends in ${minutesLeft} min; delivery needs ~${requiredMinutes} min`,
+      });
+      continue;
+    }
+
+    coverage.set(agentId, {
+      status: 'IN_SHIFT',
+      eligible: true,
+      shiftEndsAt: endsIn(minutesLeft),
+      minutesLeft,
+      reason: `Shift ${shiftLabel} covers the ~${requiredMinutes} min delivery (${minutesLeft} min left)`,
+    });
+  }
+
+  return coverage;
+}
+
 /**
  * Get agent calendar view (monthly/weekly)
  */
@@ -202,6 +340,7 @@ export const scheduleService = {
   getAgentSchedule,
   getAgentAvailability,
   isAgentAvailable,
+  getShiftCoverage,
   getAgentCalendar,
 };
 
@@ -0,0 +1,243 @@
+import { prisma } from '../lib/prisma';
+import { getRedisClient, isRedisConnected, redisGeo } from '../lib/redis';
+
+/**
+ * Surge Service - Dynamic surge multipliers per geographic zone
+ *
+ * RULES:
+ * - Zones are grid cells of ZONE_SIZE_DEGREES (~5.5km) keyed by the pickup location
+ * - Demand is the number of SEARCHING_AGENT orders picked up in the zone
+ * - Supply is the number of ONLINE agents in the zone (from the Redis GEO index)
+ * - No surge while demand <= supply; above that the multiplier grows with the ratio
+ * - Each zone is recomputed at most once per ZONE_REFRESH_MS and smoothed with an
+ *   exponential moving average so it doesn't flap between requests
+ * - Per-category caps (PricingProfile.maxSurgeMultiplier) are applied by the pricing service
+ * - Any failure falls back to no surge (1.0), and so does a disconnected Redis (supply cannot be read;
+ *   counting it as 0 would price every zone at the maximum)
+ */
+
+export const ZONE_SIZE_DEGREES = 0.05;
+const ZONE_REFRESH_MS = 60 * 1000;
+const ZONE_STATE_TTL_SECONDS = 60 * 60; // Zones with no pricing requests for an hour are forgotten
+const SMOOTHING_FACTOR = 0.3; // Weight of the latest reading in the moving average
+const SURGE_PER_EXCESS_RATIO = 0.25; // +0.25x for each order per agent above 1
+const MAX_SURGE_MULTIPLIER = 3; // Hard ceiling before category caps
+const MULTIPLIER_STEP = 0.05; // Multipliers are rounded to this step
+
+const ZONE_INDEX_KEY = 'surge:zones';
+const zoneStateKey = (zoneId: string) => `surge:zone:${zoneId}`;
+
+export interface ZoneSurge {
+  zoneId: string;
+  center: { latitude: number; longitude: number };
+  demand: number; // SEARCHING_AGENT orders
+  supply: number; // ONLINE agents
+  rawMultiplier: number; // From the latest demand/supply reading
+  multiplier: number; // Smoothed multiplier applied to pricing
+  updatedAt: string;
+}
+
+// In-memory fallback when Redis is not connected
+const memoryZones = new Map<string, ZoneSurge>();
+
+/**
+ * Get the zone ID for a location
+ */
+export const getZoneId = (latitude: number, longitude: number): string => {
+  return `${Math.floor(latitude / ZONE_SIZE_DEGREES)}:${Math.floor(longitude / ZONE_SIZE_DEGREES)}`;
+};
+
+const getZoneBounds = (zoneId: string) => {
+  const [latIndex, lngIndex] = zoneId.split(':').map(Number);
+  return {
+    minLat: latIndex * ZONE_SIZE_DEGREES,
+    maxLat: (latIndex + 1) * ZONE_SIZE_DEGREES,
+    minLng: lngIndex * ZONE_SIZE_DEGREES,
+    maxLng: (lngIndex + 1) * ZONE_SIZE_DEGREES,
+  };
+};
+
+const roundMultiplier = (multiplier: number) => {
+  return Math.round(multiplier / MULTIPLIER_STEP) * MULTIPLIER_STEP;
+};
+
+/**
+ * Surge multiplier for a demand/supply reading (before smoothing and caps)
+ */
+export const calculateRawMultiplier = (demand: number, supply: number): number => {
+  const ratio = demand / Math.max(supply, 1);
+  if (ratio <= 1) {
+    return 1;
+  }
+  return Math.min(1 + (ratio - 1) * SURGE_PER_EXCESS_RATIO, MAX_SURGE_MULTIPLIER);
+};
+
+/**
+ * Count ONLINE agents inside a zone using the Redis GEO index
+ */
+const countOnlineAgents = async (zoneId: string): Promise<number> => {
+  const bounds = getZoneBounds(zoneId);
+  const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+  const centerLng = (bounds.minLng + bounds.maxLng) / 2;
+  // Radius covering the whole cell (half-diagonal), then filter to the cell
+  const radiusKm = (ZONE_SIZE_DEGREES * 111 * Math.SQRT2) / 2;
+
+  const nearby = await redisGeo.getNearbyAgents(centerLng, centerLat, radiusKm, 'km');
+
+  // Format with WITHDIST and WITHCOORD: [[agentId, distance, [lng, lat]], ...]
+  const agentIds = (nearby as any[])
+    .filter((item) => Array.isArray(item) && Array.isArray(item[2]))
+    .filter((item) => {
+      const lng = parseFloat(item[2][0]);
+      const lat = parseFloat(item[2][1]);
+      return lat >= bounds.minLat && lat < bounds.maxLat && lng >= bounds.minLng && lng < bounds.maxLng;
+    })
+    .map((item) => item[0] as string);
+
+  if (agentIds.length === 0) {
+    return 0;
+  }
+
+  // The GEO index also holds ON_TRIP agents; only ONLINE agents are available supply
+  return prisma.agent.count({
+    where: {
+      id: { in: agentIds },
+      status: 'ONLINE',
+      isApproved: true,
+      isBlocked: false,
+    },
+  });
+};
+
+const noSurge = (zoneId: string, center: ZoneSurge['center']): ZoneSurge => ({
+  zoneId,
+  center,
+  demand: 0,
+  supply: 0,
+  rawMultiplier: 1,
+  multiplier: 1,
+  updatedAt: new Date().toISOString(),
+});
+
+const readZoneState = async (zoneId: string): Promise<ZoneSurge | null> => {
+  const redis = getRedisClient();
+  if (redis && isRedisConnected()) {
+    try {
+      const value = await redis.get(zoneStateKey(zoneId));
+      return value ? (JSON.parse(value) as ZoneSurge) : null;
+    } catch (error: any) {
+      console.error('[Surge] Redis error reading zone state:', error?.message);
+    }
+  }
+  return memoryZones.get(zoneId) || null;
+};
+
+const writeZoneState = async (state: ZoneSurge) => {
+  const redis = getRedisClient();
+  if (redis && isRedisConnected()) {
+    try {
+      await redis
+        .multi()
+        .setex(zoneStateKey(state.zoneId), ZONE_STATE_TTL_SECONDS, JSON.stringify(state))
+        .sadd(ZONE_INDEX_KEY, state.zoneId)
+        .exec();
+      return;
+    } catch (error: any) {
+      console.error('[Surge] Redis error writing zone state:', error?.message);
+    }
+  }
+  memoryZones.set(state.zoneId, state);
+};
+
+export const surgeService = {
+  /**
+   * Get the current (smoothed) surge for the zone containing a pickup location
+   */
+  async getZoneSurge(latitude: number, longitude: number): Promise<ZoneSurge> {
+    const zoneId = getZoneId(latitude, longitude);
+    const previous = await readZoneState(zoneId);
+
+    if (previous && Date.now() - new Date(previous.updatedAt).getTime() < ZONE_REFRESH_MS) {
+      return previous;
+    }
+
+    const bounds = getZoneBounds(zoneId);
+    const center = {
+      latitude: (bounds.minLat + bounds.maxLat) / 2,
+      longitude: (bounds.minLng + bounds.maxLng) / 2,
+    };
+
+    if (!isRedisConnected()) {
+      return noSurge(zoneId, center);
+    }
+
+    try {
+      const [demand, supply] = await Promise.all([
+        prisma.order.count({
+          where: {
+            status: 'SEARCHING_AGENT',
+            pickupLat: { gte: bounds.minLat, lt: bounds.maxLat },
+            pickupLng: { gte: bounds.minLng, lt: bounds.maxLng },
+          },
+        }),
+        countOnlineAgents(zoneId),
+      ]);
+
+      const rawMultiplier = calculateRawMultiplier(demand, supply);
+      const smoothed = previous
+        ? previous.multiplier + SMOOTHING_FACTOR * (rawMultiplier - previous.multiplier)
+        : rawMultiplier;
+
+      const state: ZoneSurge = {
+        zoneId,
+        center,
+        demand,
+        supply,
+        rawMultiplier: Math.round(rawMultiplier * 100) / 100,
+        multiplier: Math.max(1, Math.round(roundMultiplier(smoothed) * 100) / 100),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await writeZoneState(state);
+      return state;
+    } catch (error: any) {
+      console.error('[Surge] Failed to compute zone surge, using previous or no surge:', error?.message);
+      return previous || noSurge(zoneId, center);
+    }
+  },
+
+  /**
+   * List zones with a recent surge reading (highest multiplier first)
+   */
+  async listZones(): Promise<ZoneSurge[]> {
+    let zones: ZoneSurge[] = [];
+
+    const redis = getRedisClient();
+    if (redis && isRedisConnected()) {
+      try {
+        const zoneIds = await redis.smembers(ZONE_INDEX_KEY);
+        if (zoneIds.length > 0) {
+          const values = await redis.mget(zoneIds.map(zoneStateKey));
+          const expired = zoneIds.filter((_, i) => !values[i]);
+          if (expired.length > 0) {
+            await redis.srem(ZONE_INDEX_KEY, ...expired);
+          }
+          zones = values.filter((value): value is string => !!value).map((value) => JSON.parse(value));
+        }
+        return zones.sort((a, b) => b.multiplier - a.multiplier);
+      } catch (error: any) {
+        console.error('[Surge] Redis error listing zones:', error?.message);
+      }
+    }
+
+    const cutoff = Date.now() - ZONE_STATE_TTL_SECONDS * 1000;
+    for (const [zoneId, state] of memoryZones) {
+      if (new Date(state.updatedAt).getTime() < cutoff) {
+        memoryZones.delete(zoneId);
+      } else {
+        zones.push(state);
+      }
+    }
+    return zones.sort((a, b) => b.multiplier - a.multiplier);
+  },
+};
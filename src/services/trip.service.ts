@@ -0,0 +1,565 @@
+import { OrderStatus, Prisma, TripStatus, TripStopStatus, TripStopType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { notifyPartner } from '../lib/webhook';
+import { notifyPartnerOrderAssigned } from '../lib/websocket';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { offerService } from './offer.service';
+import { haversineDistance } from './geo.service';
+import { optimizeRoute } from './route.service';
+import { orderStateService, StatusActor } from './order-state.service';
+
+/**
+ * Trip Service - Batched orders (several pickups/drops in one agent run)
+ *
+ * RULES:
+ * - Orders batch when they are SEARCHING_AGENT, pickups are within BATCH_PICKUP_RADIUS of the first
+ *   order's pickup and their drops head the same way (pickup -> drop bearing within BATCH_MAX_BEARING_DIFFERENCE)
+ * - A trip is offered through its lead order; accepting any order of a PLANNED trip assigns the whole trip
+ * - Every order keeps its own status and webhooks; stops follow the order status
+ *   (PICKED_UP completes the pickup stop, DELIVERED / AT_WAREHOUSE the drop, CANCELLED skips both)
+ * - The agent's currentOrderId points at the order of the next open stop until every stop is done
+ * - Stops are sequenced by route.service (pickups before drops, scheduled pickups respected)
+ */
+
+const BATCH_PICKUP_RADIUS = 500; // meters
+const BATCH_MAX_BEARING_DIFFERENCE = 45; // degrees
+const BATCH_MAX_ORDERS = 5;
+const BATCH_CANDIDATE_LIMIT = 200;
+
+const OPEN_STOP_STATUSES: TripStopStatus[] = [TripStopStatus.PENDING, TripStopStatus.ARRIVED];
+const ASSIGNABLE_STATUSES: string[] = ['SEARCHING_AGENT', 'AT_WAREHOUSE', 'READY_FOR_PICKUP'];
+
+interface BatchableOrder {
+  id: string;
+  pickupLat: number;
+  pickupLng: number;
+  dropLat: number;
+  dropLng: number;
+}
+
+const tripInclude = {
+  stops: { orderBy: { sequence: 'asc' } },
+  orders: {
+    select: {
+      id: true,
+      status: true,
+      partnerId: true,
+      customerName: true,
+      customerAddress: true,
+      payoutAmount: true,
+    },
+  },
+} satisfies Prisma.TripInclude;
+
+/**
+ * Compass bearing from one point to another (0-360 degrees)
+ */
+const calculateBearing = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(toRadians(lat2));
+  const x =
+    Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+const bearingDifference = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/**
+ * Group orders into batches (oldest order first seeds each batch)
+ */
+const groupOrders = (orders: BatchableOrder[]): string[][] => {
+  const grouped = new Set<string>();
+  const batches: string[][] = [];
+
+  for (const seed of orders) {
+    if (grouped.has(seed.id)) {
+      continue;
+    }
+
+    const seedBearing = calculateBearing(seed.pickupLat, seed.pickupLng, seed.dropLat, seed.dropLng);
+    const batch = [seed.id];
+
+    for (const order of orders) {
+      if (batch.length >= BATCH_MAX_ORDERS) {
+        break;
+      }
+      if (order.id === seed.id || grouped.has(order.id)) {
+        continue;
+      }
+
+      const pickupDistance = haversineDistance(seed.pickupLat, seed.pickupLng, order.pickupLat, order.pickupLng);
+      const bearing = calculateBearing(order.pickupLat, order.pickupLng, order.dropLat, order.dropLng);
+
+      if (pickupDistance <= BATCH_PICKUP_RADIUS && bearingDifference(seedBearing, bearing) <= BATCH_MAX_BEARING_DIFFERENCE) {
+        batch.push(order.id);
+      }
+    }
+
+    if (batch.length > 1) {
+      batch.forEach((id) => grouped.add(id));
+      batches.push(batch);
+    }
+  }
+
+  return batches;
+};
+
+/**
+ * Offer a PLANNED trip through its lead order (dynamic import avoids a cycle)
+ */
+const dispatchTrip = async (tripId: string) => {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: {
+      orders: { select: { id: true, pickupLat: true, pickupLng: true, payoutAmount: true, priority: true } },
+    },
+  });
+  const lead = trip?.orders.find((order) => order.id === trip.leadOrderId);
+  if (!trip || !lead) {
+    return;
+  }
+
+  // Agents are offered the whole trip's payout (and checked against the whole trip's COD, which
+  // codService.getOrderCodAmount reports for the lead order)
+  const { assignOrder } = await import('./assignment.service');
+  await assignOrder({
+    orderId: lead.id,
+    pickupLat: lead.pickupLat,
+    pickupLng: lead.pickupLng,
+    payoutAmount: trip.orders.reduce((sum, order) => sum + order.payoutAmount, 0),
+    priority: trip.orders.some((order) => order.priority === 'HIGH') ? 'HIGH' : 'NORMAL',
+  });
+};
+
+/**
+ * Dispatch orders individually (after they leave a trip)
+ */
+const dispatchOrders = async (orderIds: string[]) => {
+  const { assignOrder } = await import('./assignment.service');
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds }, status: 'SEARCHING_AGENT', agentId: null },
+    select: { id: true, pickupLat: true, pickupLng: true, payoutAmount: true, priority: true },
+  });
+
+  for (const order of orders) {
+    await assignOrder({
+      orderId: order.id,
+      pickupLat: order.pickupLat,
+      pickupLng: order.pickupLng,
+      payoutAmount: order.payoutAmount,
+      priority: (order.priority as 'HIGH' | 'NORMAL' | 'LOW') || 'NORMAL',
+    });
+  }
+};
+
+export const tripService = {
+  /**
+   * Batch orders into a PLANNED trip and offer it through the lead order
+   */
+  async createTrip(orderIds: string[]) {
+    const ids = [...new Set(orderIds)];
+    if (ids.length < 2) {
+      throw new ValidationError('A trip needs at least 2 orders');
+    }
+    if (ids.length > BATCH_MAX_ORDERS) {
+      throw new ValidationError(`A trip can have at most ${BATCH_MAX_ORDERS} orders`);
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        status: true,
+        agentId: true,
+        tripId: true,
+        createdAt: true,
+        pickupLat: true,
+        pickupLng: true,
+        dropLat: true,
+        dropLng: true,
+        pickupWindow: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (orders.length !== ids.length) {
+      throw new NotFoundError('One or more orders not found');
+    }
+
+    const unavailable = orders.find((order) => order.status !== 'SEARCHING_AGENT' || order.agentId || order.tripId);
+    if (unavailable) {
+      throw new ConflictError(`Order ${unavailable.id} cannot be batched (status: ${unavailable.status})`);
+    }
+
+    const planned = optimizeRoute(
+      orders.flatMap((order) => [
+        {
+          id: `${order.id}:PICKUP`,
+          orderId: order.id,
+          type: TripStopType.PICKUP,
+          latitude: order.pickupLat,
+          longitude: order.pickupLng,
+          windowStart: order.pickupWindow,
+        },
+        {
+          id: `${order.id}:DROP`,
+          orderId: order.id,
+          type: TripStopType.DROP,
+          latitude: order.dropLat,
+          longitude: order.dropLng,
+        },
+      ]),
+      { start: { latitude: orders[0].pickupLat, longitude: orders[0].pickupLng } }
+    );
+
+    const trip = await prisma.$transaction(async (tx) => {
+      const created = await tx.trip.create({
+        data: {
+          leadOrderId: planned.stops[0].orderId,
+          totalDistanceKm: planned.totalDistanceKm,
+          stops: {
+            create: planned.stops.map((stop) => ({
+              orderId: stop.orderId,
+              type: stop.type,
+              sequence: stop.sequence,
+              latitude: stop.latitude,
+              longitude: stop.longitude,
+            })),
+          },
+        },
+      });
+
+      const attached = await tx.order.updateMany({
+        where: { id: { in: ids }, status: 'SEARCHING_AGENT', agentId: null, tripId: null },
+        data: { tripId: created.id },
+      });
+
+      if (attached.count !== ids.length) {
+        throw new ConflictError('Orders changed while batching - try again');
+      }
+
+      return created;
+    });
+
+    for (const id of ids) {
+      await offerService.withdrawOpenOffers(id, 'Order batched into a trip');
+    }
+    await dispatchTrip(trip.id);
+
+    return this.getTrip(trip.id);
+  },
+
+  /**
+   * Group waiting orders into trips (batching worker and admin trigger)
+   */
+  async batchPendingOrders(): Promise<{ trips: number; orders: number }> {
+    const candidates = await prisma.order.findMany({
+      where: {
+        status: 'SEARCHING_AGENT',
+        agentId: null,
+        tripId: null,
+        logisticsProviderId: null,
+        dropWarehouseId: null,
+      },
+      select: { id: true, pickupLat: true, pickupLng: true, dropLat: true, dropLng: true },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_CANDIDATE_LIMIT,
+    });
+
+    let trips = 0;
+    let orders = 0;
+    for (const batch of groupOrders(candidates)) {
+      try {
+        await this.createTrip(batch);
+        trips += 1;
+        orders += batch.length;
+      } catch (error) {
+        console.error('[Trips] Failed to batch orders:', batch, error);
+      }
+    }
+
+    if (trips > 0) {
+      console.log(`[Trips] Batched ${orders} order(s) into ${trips} trip(s)`);
+    }
+
+    return { trips, orders };
+  },
+
+  /**
+   * Assign a PLANNED trip to an agent (every order is assigned, the agent starts on the first stop)
+   */
+  async assignTrip(tripId: string, agentId: string, actor: StatusActor) {
+    const trip = await prisma.$transaction(async (tx) => {
+      const current = await tx.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          stops: { orderBy: { sequence: 'asc' } },
+          orders: { select: { id: true, status: true } },
+        },
+      });
+
+      if (!current) {
+        throw new NotFoundError('Trip not found');
+      }
+      if (current.status !== TripStatus.PLANNED) {
+        throw new ConflictError(`Trip is no longer available (status: ${current.status})`);
+      }
+
+      const agent = await tx.agent.findUnique({ where: { id: agentId } });
+      if (!agent || agent.status !== 'ONLINE' || agent.isBlocked || !agent.isApproved) {
+        throw new ConflictError('Agent is not available');
+      }
+
+      const activeOrderIds = current.orders
+        .filter((order) => ASSIGNABLE_STATUSES.includes(order.status))
+        .map((order) => order.id);
+
+      const fromStatuses = new Map<string, OrderStatus>();
+      for (const orderId of activeOrderIds) {
+        fromStatuses.set(orderId, await orderStateService.assertTransition(orderId, OrderStatus.ASSIGNED, actor, tx));
+      }
+
+      const assigned = await tx.order.updateMany({
+        where: { id: { in: activeOrderIds }, agentId: null },
+        data: { agentId, status: 'ASSIGNED', assignedAt: new Date() },
+      });
+
+      if (assigned.count !== activeOrderIds.length || assigned.count === 0) {
+        throw new ConflictError('Trip orders changed while assigning - try again');
+      }
+
+      for (const [orderId, from] of fromStatuses) {
+        await orderStateService.recordTransition(
+          { orderId, from, to: OrderStatus.ASSIGNED, actor, reason: 'Trip assigned', metadata: { tripId, agentId } },
+          tx
+        );
+      }
+
+      const firstStop = current.stops.find((stop) => activeOrderIds.includes(stop.orderId));
+
+      await tx.agent.update({
+        where: { id: agentId },
+        data: { currentOrderId: firstStop?.orderId, status: 'ON_TRIP' },
+      });
+
+      return tx.trip.update({
+        where: { id: tripId },
+        data: { status: TripStatus.ASSIGNED, agentId, assignedAt: new Date() },
+        include: tripInclude,
+      });
+    });
+
+    // Close offer cascades and notify partners per order
+    await offerService.markAccepted(trip.leadOrderId, agentId);
+    for (const order of trip.orders) {
+      if (order.id !== trip.leadOrderId) {
+        await offerService.withdrawOpenOffers(order.id, 'Order accepted as part of a trip');
+      }
+      if (order.status !== 'ASSIGNED') {
+        continue;
+      }
+
+      await notifyPartner(order.partnerId, 'ORDER_ASSIGNED', order.id, 'ASSIGNED', {
+        agentId,
+        tripId: trip.id,
+        assignedAt: trip.assignedAt,
+      });
+      await notifyPartnerOrderAssigned(order.partnerId, {
+        id: order.id,
+        status: 'ASSIGNED',
+        agentId,
+        tripId: trip.id,
+      });
+    }
+
+    return trip;
+  },
+
+  /**
+   * Follow an order's status on its trip stops; moves the agent to the next stop or completes the trip
+   */
+  async syncOrderStatus(orderId: string): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, status: true, tripId: true },
+    });
+
+    if (!order?.tripId) {
+      return;
+    }
+
+    const now = new Date();
+    if (['PICKED_UP', 'OUT_FOR_DELIVERY', 'IN_TRANSIT', 'DELIVERED', 'AT_WAREHOUSE'].includes(order.status)) {
+      await prisma.tripStop.updateMany({
+        where: { tripId: order.tripId, orderId, type: TripStopType.PICKUP, status: { in: OPEN_STOP_STATUSES } },
+        data: { status: TripStopStatus.COMPLETED, completedAt: now },
+      });
+    }
+    if (order.status === 'DELIVERED' || order.status === 'AT_WAREHOUSE') {
+      await prisma.tripStop.updateMany({
+        where: { tripId: order.tripId, orderId, type: TripStopType.DROP, status: { in: OPEN_STOP_STATUSES } },
+        data: { status: TripStopStatus.COMPLETED, completedAt: now },
+      });
+    }
+    if (order.status === 'CANCELLED') {
+      await prisma.tripStop.updateMany({
+        where: { tripId: order.tripId, orderId, status: { in: OPEN_STOP_STATUSES } },
+        data: { status: TripStopStatus.SKIPPED },
+      });
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: order.tripId },
+      include: { stops: { orderBy: { sequence: 'asc' } } },
+    });
+
+    if (!trip || trip.status === TripStatus.COMPLETED || trip.status === TripStatus.CANCELLED) {
+      return;
+    }
+
+    // Not yet assigned: a cancelled order leaves the trip, too few orders ungroups it
+    if (trip.status === TripStatus.PLANNED) {
+      if (order.status !== 'CANCELLED') {
+        return;
+      }
+      await prisma.order.update({ where: { id: orderId }, data: { tripId: null } });
+      const remaining = [...new Set(trip.stops.filter((stop) => stop.orderId !== orderId).map((stop) => stop.orderId))];
+      if (remaining.length < 2) {
+        await this.cancelTrip(trip.id);
+      } else if (trip.leadOrderId === orderId) {
+        const lead = trip.stops.find((stop) => stop.orderId !== orderId) as { orderId: string };
+        await prisma.trip.update({ where: { id: trip.id }, data: { leadOrderId: lead.orderId } });
+        await dispatchTrip(trip.id);
+      }
+      return;
+    }
+
+    const nextStop = trip.stops.find((stop) => OPEN_STOP_STATUSES.includes(stop.status));
+
+    if (!nextStop) {
+      await prisma.trip.update({
+        where: { id: trip.id },
+        data: { status: TripStatus.COMPLETED, completedAt: now },
+      });
+      if (trip.agentId) {
+        await prisma.agent.updateMany({
+          where: { id: trip.agentId, currentOrderId: { in: [...trip.stops.map((stop) => stop.orderId), orderId] } },
+          data: { currentOrderId: null, status: 'ONLINE' },
+        });
+      }
+      return;
+    }
+
+    await prisma.trip.update({
+      where: { id: trip.id },
+      data: { status: TripStatus.IN_PROGRESS },
+    });
+    if (trip.agentId) {
+      await prisma.agent.update({
+        where: { id: trip.agentId },
+        data: { currentOrderId: nextStop.orderId, status: 'ON_TRIP' },
+      });
+    }
+  },
+
+  /**
+   * Agent reached a stop
+   */
+  async markStopArrived(agentId: string, tripId: string, stopId: string) {
+    const stop = await prisma.tripStop.findFirst({
+      where: { id: stopId, tripId, trip: { agentId } },
+    });
+
+    if (!stop) {
+      throw new NotFoundError('Trip stop not found');
+    }
+    if (stop.status !== TripStopStatus.PENDING) {
+      throw new ConflictError(`Stop is already ${stop.status}`);
+    }
+
+    return prisma.tripStop.update({
+      where: { id: stopId },
+      data: { status: TripStopStatus.ARRIVED, arrivedAt: new Date() },
+    });
+  },
+
+  /**
+   * Ungroup a PLANNED trip; its orders are dispatched individually
+   */
+  async cancelTrip(tripId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: { orders: { select: { id: true } } },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+    if (trip.status !== TripStatus.PLANNED) {
+      throw new ConflictError('Only trips that are not yet assigned can be cancelled');
+    }
+
+    const orderIds = trip.orders.map((order) => order.id);
+    await prisma.$transaction([
+      prisma.trip.update({
+        where: { id: tripId },
+        data: { status: TripStatus.CANCELLED, cancelledAt: new Date() },
+      }),
+      prisma.order.updateMany({ where: { tripId }, data: { tripId: null } }),
+    ]);
+
+    for (const orderId of orderIds) {
+      await offerService.withdrawOpenOffers(orderId, 'Trip cancelled');
+    }
+    await dispatchOrders(orderIds);
+
+    return this.getTrip(tripId);
+  },
+
+  /**
+   * Trip with its stops in sequence
+   */
+  async getTrip(tripId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: tripInclude,
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    return trip;
+  },
+
+  /**
+   * The agent's assigned or in-progress trip (null when not on a trip)
+   */
+  async getAgentActiveTrip(agentId: string) {
+    return prisma.trip.findFirst({
+      where: { agentId, status: { in: [TripStatus.ASSIGNED, TripStatus.IN_PROGRESS] } },
+      orderBy: { assignedAt: 'desc' },
+      include: tripInclude,
+    });
+  },
+
+  /**
+   * List trips (admin), newest first
+   */
+  async listTrips(filters: { status?: TripStatus; agentId?: string } = {}) {
+    return prisma.trip.findMany({
+      where: {
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.agentId ? { agentId: filters.agentId } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: tripInclude,
+    });
+  },
+};
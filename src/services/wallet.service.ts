@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
-import { Prisma } from '@prisma/client';
+import { AgentWallet, Prisma } from '@prisma/client';
+import { payStructureService } from './pay-structure.service';
 
 export interface WalletBalance {
   balance: number;
@@ -101,8 +102,10 @@ export const walletService = {
 
   /**
    * Credit agent wallet (when order is delivered)
+   * The earning comes from the agent's pay structure; defaultAmount (the pricing
+   * profile agent share) is used when the agent has no active structure
    */
-  async creditAgentWallet(agentId: string, amount: number, orderId: string, description?: string, tx?: Prisma.TransactionClient) {
+  async creditAgentWallet(agentId: string, defaultAmount: number, orderId: string, description?: string, tx?: Prisma.TransactionClient) {
     const client = tx || prisma;
     
     // Check if transaction already exists for this order (idempotency)
@@ -120,15 +123,42 @@ export const walletService = {
       return await walletService.getAgentWallet(agentId, client);
     }
 
-    const wallet = await walletService.getAgentWallet(agentId, client);
-    const balanceBefore = wallet.balance;
-    const balanceAfter = balanceBefore + amount;
+    const earning = await payStructureService.calculateOrderEarning(agentId, orderId, defaultAmount, client);
+    const amount = earning.amount;
 
-    // Validate amount is positive
+    // Keep the order's split in line with what the pay structure actually credits
+    if (earning.payStructureId) {
+      const order = await client.order.findUnique({
+        where: { id: orderId },
+        select: { partnerPayment: true, orderAmount: true },
+      });
+      const partnerPayment = order?.partnerPayment ?? order?.orderAmount ?? null;
+      await client.order.update({
+        where: { id: orderId },
+        data: {
+          payoutAmount: amount,
+          agentPayout: amount,
+          ...(partnerPayment !== null && { adminCommission: partnerPayment - amount }),
+        },
+      });
+    }
+
+    // Validate amount is positive (the default share must be; a structure may legitimately earn nothing, e.g. SALARY)
     if (amount <= 0) {
+      if (earning.payStructureId) {
+        return await walletService.getAgentWallet(agentId, client);
+      }
       throw new Error(`Invalid credit amount: ${amount}. Amount must be greater than 0.`);
     }
 
+    if (earning.payStructureId) {
+      description = `Earning from order ${orderId.substring(0, 8).toUpperCase()} (${earning.lines.map((line) => `${line.label}: ${line.amount}`).join(', ')})`;
+    }
+
+    const wallet = await walletService.getAgentWallet(agentId, client);
+    const balanceBefore = wallet.balance;
+    const balanceAfter = balanceBefore + amount;
+
     // Update wallet
     const updatedWallet = await client.agentWallet.update({
       where: { agentId },
@@ -156,6 +186,78 @@ export const walletService = {
     return updatedWallet;
   },
 
+  /**
+   * Credit a non-order amount to an agent wallet (salary, minimum guarantee top-up, incentive)
+   * Idempotent per agent, type and reference (unique key on the wallet transaction)
+   */
+  async creditAgentWalletAdjustment(
+    agentId: string,
+    amount: number,
+    type: 'SALARY' | 'GUARANTEE_TOPUP' | 'INCENTIVE',
+    reference: string,
+    description: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<AgentWallet> {
+    if (amount <= 0) {
+      throw new Error(`Invalid credit amount: ${amount}. Amount must be greater than 0.`);
+    }
+
+    if (!tx) {
+      try {
+        return await prisma.$transaction((innerTx) =>
+          walletService.creditAgentWalletAdjustment(agentId, amount, type, reference, description, innerTx)
+        );
+      } catch (error: any) {
+        // Unique (agentWalletId, type, reference): a concurrent call already credited this reference
+        if (error?.code === 'P2002') {
+          return await walletService.getAgentWallet(agentId);
+        }
+        throw error;
+      }
+    }
+
+    const wallet = await walletService.getAgentWallet(agentId, tx);
+
+    const existingTransaction = await tx.walletTransaction.findFirst({
+      where: {
+        agentWalletId: wallet.id,
+        type,
+        reference,
+        status: 'COMPLETED',
+      },
+    });
+
+    if (existingTransaction) {
+      return wallet;
+    }
+
+    const balanceBefore = wallet.balance;
+    const balanceAfter = balanceBefore + amount;
+
+    // Insert the transaction first so the unique reference is claimed before the balance moves
+    await tx.walletTransaction.create({
+      data: {
+        walletType: 'AGENT_WALLET',
+        agentWalletId: wallet.id,
+        amount,
+        type,
+        reference,
+        description,
+        balanceBefore,
+        balanceAfter,
+        status: 'COMPLETED',
+      },
+    });
+
+    return await tx.agentWallet.update({
+      where: { agentId },
+      data: {
+        balance: { increment: amount },
+        totalEarned: { increment: amount },
+      },
+    });
+  },
+
   /**
    * Credit admin wallet (when platform receives commission)
    */
@@ -0,0 +1,544 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { sendWebhook, matchesWebhookEvent, WebhookPayload } from '../lib/webhook';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.util';
+
+/**
+ * Webhook Service - Persisted, signed and retried partner webhooks
+ *
+ * DELIVERY RULES:
+ * - Every notification is stored as a WebhookDelivery before it is sent
+ * - Payloads are signed with the partner's webhook secret (HMAC-SHA256)
+ * - Failed attempts are retried with exponential backoff until maxAttempts
+ * - The retry worker claims a due delivery (pushing nextAttemptAt out by RETRY_CLAIM_LEASE_MS) before
+ *   sending it, so overlapping runs or processes send it once; an unfinished claim is retried after the lease
+ * - Partners can list deliveries, inspect them and trigger a manual redelivery; it claims the delivery
+ *   the same way, and is refused (409) while the retry worker holds it
+ * - Partners can register several endpoints, each subscribed to a subset of events
+ * - Logistics providers receive Leg 2 handoff events on their webhookUrl
+ */
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const RETRY_CLAIM_LEASE_MS = 2 * 60 * 1000; // 2 minutes (well over the 5 second send timeout)
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+export type WebhookDeliveryStatus = 'PENDING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED';
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  event?: string;
+  orderId?: string;
+  endpointId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Owner of a webhook delivery
+export type WebhookRecipient = { partnerId: string } | { logisticsProviderId: string };
+
+export interface WebhookEndpointInput {
+  name: string;
+  url: string;
+  events?: string[];
+  isActive?: boolean;
+  description?: string;
+}
+
+/**
+ * Generate a new webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ * 30s, 1m, 2m, 4m, 8m ... capped at 1 hour
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, RETRY_MAX_DELAY_MS);
+}
+
+export const webhookService = {
+  /**
+   * Get the partner's webhook secret, creating one if it doesn't exist yet
+   */
+  async getOrCreateSecret(partnerId: string): Promise<string> {
+    const partner = await prisma.partner.findUnique({
+      where: { id: partnerId },
+      select: { webhookSecret: true },
+    });
+
+    if (!partner) {
+      throw new NotFoundError('Partner not found');
+    }
+
+    if (partner.webhookSecret) {
+      return partner.webhookSecret;
+    }
+
+    return this.rotateSecret(partnerId);
+  },
+
+  /**
+   * Replace the partner's webhook secret
+   */
+  async rotateSecret(partnerId: string): Promise<string> {
+    const webhookSecret = generateWebhookSecret();
+    await prisma.partner.update({
+      where: { id: partnerId },
+      data: { webhookSecret },
+    });
+    return webhookSecret;
+  },
+
+  /**
+   * Get the logistics provider's webhook secret, creating one if it doesn't exist yet
+   */
+  async getOrCreateProviderSecret(logisticsProviderId: string): Promise<string> {
+    const provider = await prisma.logisticsProvider.findUnique({
+      where: { id: logisticsProviderId },
+      select: { webhookSecret: true },
+    });
+
+    if (!provider) {
+      throw new NotFoundError('Logistics provider not found');
+    }
+
+    if (provider.webhookSecret) {
+      return provider.webhookSecret;
+    }
+
+    return this.rotateProviderSecret(logisticsProviderId);
+  },
+
+  /**
+   * Replace the logistics provider's webhook secret
+   */
+  async rotateProviderSecret(logisticsProviderId: string): Promise<string> {
+    const webhookSecret = generateWebhookSecret();
+    await prisma.logisticsProvider.update({
+      where: { id: logisticsProviderId },
+      data: { webhookSecret },
+    });
+    return webhookSecret;
+  },
+
+  /**
+   * Resolve the URLs an event should be delivered to:
+   * active registered endpoints subscribed to the event, plus the legacy Partner.webhookUrl
+   */
+  async resolveTargets(partnerId: string, event: string): Promise<Array<{ endpointId: string | null; url: string }>> {
+    const partner = await prisma.partner.findUnique({
+      where: { id: partnerId },
+      select: {
+        webhookUrl: true,
+        webhookEndpoints: {
+          where: { isActive: true },
+          select: { id: true, url: true, events: true },
+        },
+      },
+    });
+
+    if (!partner) {
+      return [];
+    }
+
+    const targets: Array<{ endpointId: string | null; url: string }> = partner.webhookEndpoints
+      .filter((endpoint) => matchesWebhookEvent(endpoint.events, event))
+      .map((endpoint) => ({ endpointId: endpoint.id, url: endpoint.url }));
+
+    // Legacy single webhook URL receives every event (skip if also registered as an endpoint)
+    if (partner.webhookUrl && !targets.some((target) => target.url === partner.webhookUrl)) {
+      targets.push({ endpointId: null, url: partner.webhookUrl });
+    }
+
+    return targets;
+  },
+
+  /**
+   * Persist a webhook delivery for every matching endpoint and make the first attempts
+   * Returns an empty array if the partner has no webhook subscribed to the event
+   */
+  async dispatch(partnerId: string, payload: WebhookPayload) {
+    const targets = await this.resolveTargets(partnerId, payload.event);
+
+    // Order events carry the partner's own reference so they can be matched without a lookup
+    if (targets.length > 0 && payload.orderId && payload.externalRef === undefined) {
+      const order = await prisma.order.findUnique({
+        where: { id: payload.orderId },
+        select: { externalRef: true },
+      });
+      payload = { ...payload, externalRef: order?.externalRef ?? null };
+    }
+
+    return Promise.all(
+      targets.map((target) => this.createAndAttempt({ partnerId }, target, payload))
+    );
+  },
+
+  /**
+   * Persist a webhook delivery for a logistics provider and make the first attempt
+   * Returns null if the provider has no webhook configured
+   */
+  async dispatchToProvider(logisticsProviderId: string, payload: WebhookPayload) {
+    const provider = await prisma.logisticsProvider.findUnique({
+      where: { id: logisticsProviderId },
+      select: { webhookUrl: true },
+    });
+
+    if (!provider || !provider.webhookUrl) {
+      return null; // No webhook configured
+    }
+
+    return this.createAndAttempt(
+      { logisticsProviderId },
+      { endpointId: null, url: provider.webhookUrl },
+      payload
+    );
+  },
+
+  /**
+   * Persist a single delivery and make the first attempt
+   */
+  async createAndAttempt(
+    recipient: WebhookRecipient,
+    target: { endpointId: string | null; url: string },
+    payload: WebhookPayload,
+    maxAttempts: number = WEBHOOK_MAX_ATTEMPTS
+  ) {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        ...recipient,
+        endpointId: target.endpointId,
+        event: payload.event,
+        orderId: payload.orderId || null,
+        url: target.url,
+        payload: payload as any,
+        status: 'PENDING',
+        maxAttempts,
+        // Picked up by the retry worker only if the first attempt never gets recorded
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(1)),
+      },
+    });
+
+    return this.attemptDelivery(delivery.id);
+  },
+
+  /**
+   * Make one delivery attempt and record its outcome
+   * On failure the next retry is scheduled, or the delivery is marked FAILED
+   */
+  async attemptDelivery(deliveryId: string) {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+    });
+
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery not found');
+    }
+
+    const secret = delivery.logisticsProviderId
+      ? await this.getOrCreateProviderSecret(delivery.logisticsProviderId)
+      : await this.getOrCreateSecret(delivery.partnerId!);
+    const result = await sendWebhook(delivery.url, delivery.payload as unknown as WebhookPayload, {
+      secret,
+      deliveryId: delivery.id,
+    });
+
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    if (result.success) {
+      return prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'SUCCEEDED',
+          attempts,
+          lastAttemptAt: now,
+          nextAttemptAt: null,
+          responseStatus: result.statusCode ?? null,
+          responseBody: result.responseBody ?? null,
+          errorMessage: null,
+          deliveredAt: now,
+        },
+      });
+    }
+
+    const exhausted = attempts >= delivery.maxAttempts;
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'RETRYING',
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: exhausted ? null : new Date(now.getTime() + getRetryDelayMs(attempts)),
+        responseStatus: result.statusCode ?? null,
+        responseBody: result.responseBody ?? null,
+        errorMessage: result.error || (result.statusCode ? `HTTP ${result.statusCode}` : null),
+      },
+    });
+  },
+
+  /**
+   * Retry all deliveries whose next attempt is due
+   * Called periodically from the server process
+   */
+  async processDueRetries(limit: number = 50): Promise<{ processed: number; succeeded: number }> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: { in: ['PENDING', 'RETRYING'] },
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true, nextAttemptAt: true },
+    });
+
+    let processed = 0;
+    let succeeded = 0;
+    for (const { id, nextAttemptAt } of due) {
+      // Claim the delivery; skipped when another run claimed or sent it meanwhile
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id, status: { in: ['PENDING', 'RETRYING'] }, nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + RETRY_CLAIM_LEASE_MS) },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      processed++;
+      try {
+        const updated = await this.attemptDelivery(id);
+        if (updated.status === 'SUCCEEDED') {
+          succeeded++;
+        }
+      } catch (error: any) {
+        console.error('[WebhookService] Retry attempt failed:', { deliveryId: id, error: error?.message });
+      }
+    }
+
+    return { processed, succeeded };
+  },
+
+  /**
+   * List a partner's or logistics provider's webhook deliveries (newest first)
+   */
+  async listDeliveries(recipient: WebhookRecipient, filters: WebhookDeliveryFilters = {}) {
+    const where: any = { ...recipient };
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.event) {
+      where.event = filters.event;
+    }
+    if (filters.orderId) {
+      where.orderId = filters.orderId;
+    }
+    if (filters.endpointId) {
+      where.endpointId = filters.endpointId;
+    }
+
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        select: {
+          id: true,
+          partnerId: true,
+          logisticsProviderId: true,
+          endpointId: true,
+          event: true,
+          orderId: true,
+          url: true,
+          status: true,
+          attempts: true,
+          maxAttempts: true,
+          nextAttemptAt: true,
+          lastAttemptAt: true,
+          responseStatus: true,
+          deliveredAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { deliveries, total, limit, offset };
+  },
+
+  /**
+   * Get a single delivery including payload and last response
+   */
+  async getDelivery(recipient: WebhookRecipient, deliveryId: string) {
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, ...recipient },
+    });
+
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery not found');
+    }
+
+    return delivery;
+  },
+
+  /**
+   * Manually redeliver a webhook now
+   * Exhausted deliveries get one extra attempt; the endpoint URL is refreshed
+   * Throws ConflictError when the delivery is already being sent
+   */
+  async redeliver(recipient: WebhookRecipient, deliveryId: string) {
+    const delivery = await this.getDelivery(recipient, deliveryId);
+
+    let url = delivery.url;
+    if (delivery.endpointId) {
+      const endpoint = await prisma.webhookEndpoint.findUnique({
+        where: { id: delivery.endpointId },
+        select: { url: true },
+      });
+      url = endpoint?.url || url;
+    } else if (delivery.partnerId) {
+      const partner = await prisma.partner.findUnique({
+        where: { id: delivery.partnerId },
+        select: { webhookUrl: true },
+      });
+      url = partner?.webhookUrl || url;
+    } else if (delivery.logisticsProviderId) {
+      const provider = await prisma.logisticsProvider.findUnique({
+        where: { id: delivery.logisticsProviderId },
+        select: { webhookUrl: true },
+      });
+      url = provider?.webhookUrl || url;
+    }
+
+    // A pending retry due within the lease window may be held by the retry worker right now
+    const now = Date.now();
+    const nextAttemptAt = delivery.nextAttemptAt?.getTime();
+    const isRetrying = delivery.status === 'PENDING' || delivery.status === 'RETRYING';
+    if (isRetrying && nextAttemptAt && nextAttemptAt > now && nextAttemptAt <= now + RETRY_CLAIM_LEASE_MS) {
+      throw new ConflictError('Webhook delivery is already being sent');
+    }
+
+    // Claim the delivery like the retry worker; fails when a worker or another redelivery changed it meanwhile
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: delivery.status, nextAttemptAt: delivery.nextAttemptAt },
+      data: {
+        url,
+        maxAttempts: Math.max(delivery.maxAttempts, delivery.attempts + 1),
+        nextAttemptAt: new Date(now + RETRY_CLAIM_LEASE_MS),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError('Webhook delivery is already being sent');
+    }
+
+    return this.attemptDelivery(delivery.id);
+  },
+
+  /**
+   * List a partner's registered webhook endpoints
+   */
+  async listEndpoints(partnerId: string) {
+    return prisma.webhookEndpoint.findMany({
+      where: { partnerId },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  /**
+   * Get a registered endpoint owned by the partner
+   */
+  async getEndpoint(partnerId: string, endpointId: string) {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, partnerId },
+    });
+
+    if (!endpoint) {
+      throw new NotFoundError('Webhook endpoint not found');
+    }
+
+    return endpoint;
+  },
+
+  /**
+   * Register a new webhook endpoint
+   * Endpoints without event filters are subscribed to all events
+   */
+  async createEndpoint(partnerId: string, input: WebhookEndpointInput) {
+    const count = await prisma.webhookEndpoint.count({ where: { partnerId } });
+    if (count >= MAX_WEBHOOK_ENDPOINTS) {
+      throw new ValidationError(`A partner can register at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`);
+    }
+
+    // Endpoints are signed with the partner secret, so make sure it exists
+    await this.getOrCreateSecret(partnerId);
+
+    return prisma.webhookEndpoint.create({
+      data: {
+        partnerId,
+        name: input.name,
+        url: input.url,
+        events: input.events && input.events.length > 0 ? input.events : ['*'],
+        isActive: input.isActive ?? true,
+        description: input.description,
+      },
+    });
+  },
+
+  /**
+   * Update an endpoint (URL, event filters, enable/disable)
+   */
+  async updateEndpoint(partnerId: string, endpointId: string, input: Partial<WebhookEndpointInput>) {
+    await this.getEndpoint(partnerId, endpointId);
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: {
+        name: input.name,
+        url: input.url,
+        events: input.events ? (input.events.length > 0 ? input.events : ['*']) : undefined,
+        isActive: input.isActive,
+        description: input.description,
+      },
+    });
+  },
+
+  /**
+   * Delete an endpoint (past deliveries are kept)
+   */
+  async deleteEndpoint(partnerId: string, endpointId: string) {
+    await this.getEndpoint(partnerId, endpointId);
+    await prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+  },
+
+  /**
+   * Send a WEBHOOK_TEST event to one endpoint, regardless of its filters
+   * Test deliveries are attempted once and not retried
+   */
+  async sendTestEvent(partnerId: string, endpointId: string) {
+    const endpoint = await this.getEndpoint(partnerId, endpointId);
+
+    return this.createAndAttempt(
+      { partnerId },
+      { endpointId: endpoint.id, url: endpoint.url },
+      {
+        event: 'WEBHOOK_TEST',
+        timestamp: new Date().toISOString(),
+        data: {
+          endpointId: endpoint.id,
+          endpointName: endpoint.name,
+          message: 'This is a test event',
+        },
+      },
+      1
+    );
+  },
+};
@@ -48,6 +48,31 @@ export class ForbiddenError extends AppError{
     }
  }
 
+ export class InvalidTransitionError extends AppError{
+    details?: any;
+    constructor(message:string="Invalid status transition", details?:any){
+        super(message,409);
+        this.details=details;
+        this.name='InvalidTransitionError';
+    }
+ }
+
+ export class GeofenceViolationError extends AppError{
+    details?: any;
+    constructor(message:string="Outside the geofence", details?:any){
+        super(message,403);
+        this.details=details;
+        this.name='GeofenceViolationError';
+    }
+ }
+
+ export class TooManyRequestsError extends AppError{
+    constructor(message:string="Too many requests"){
+        super(message,429);
+        this.name='TooManyRequestsError';
+    }
+ }
+
  export interface ErrorResponse{
     error: string;
     message: string;
@@ -82,6 +107,9 @@ export class ForbiddenError extends AppError{
         if( err instanceof ValidationError && err.errors){
             response.details=err.errors;
         }
+        if( (err instanceof InvalidTransitionError || err instanceof GeofenceViolationError) && err.details){
+            response.details=err.details;
+        }
         if (isDevelopment && err.stack){
             response.stack= err.stack;
         }
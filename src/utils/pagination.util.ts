@@ -0,0 +1,24 @@
+import { Request } from 'express';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Parse limit/offset query params for list endpoints
+ * Invalid values fall back to the defaults; limit is capped at MAX_PAGE_LIMIT
+ * List responses echo them back as { ..., total, limit, offset }
+ */
+export const getPagination = (query: Request['query']): Pagination => {
+  const limit = parseInt(query.limit as string, 10);
+  const offset = parseInt(query.offset as string, 10);
+
+  return {
+    limit: limit > 0 ? Math.min(limit, MAX_PAGE_LIMIT) : DEFAULT_PAGE_LIMIT,
+    offset: offset > 0 ? offset : 0,
+  };
+};
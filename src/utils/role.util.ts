@@ -27,8 +27,9 @@ export const getUserRole =(req:Request): UserRole | null =>{
     return (req.user?.role as UserRole) || null;
 }
 
+// API key requests (partner-api) carry req.partner instead of req.user
 export const getUserId= (req:Request): string | null =>{
-    return req.user?.id || null;
+    return req.user?.id || req.partner?.id || null;
 }
 
 export const getAgentId= (req:Request): string | null =>{
@@ -36,7 +37,7 @@ export const getAgentId= (req:Request): string | null =>{
 }
 
 export const getPartnerId= (req:Request): string | null =>{
-    return req.user?.partnerId || null;
+    return req.user?.partnerId || req.partner?.partnerId || null;
 };
 
 export const getLogisticsProviderId = (req: Request): string | null => {
@@ -1,5 +1,7 @@
 import {z} from 'zod';
 import {UserRole, AgentStatus, VehicleType} from '@prisma/client';
+import { isValidWebhookEventFilter } from '../lib/webhook';
+import { API_KEY_SCOPES } from '../services/api-key.service';
 
 export const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
@@ -119,6 +121,8 @@ export const createOrderSchema= z.object({
     customerEmail: z.string().email().optional().or(z.literal('')),
     customerAddress: z.string().optional(),
     productType: z.string().optional(),
+    externalRef: z.string().trim().min(1).max(100).optional(), // Partner's own order number (unique per partner)
+    quoteId: z.string().min(1).optional(), // Price quote to lock the quoted price (POST /api/partner-api/quotes)
     payoutAmount: z.number().positive('Payout amount must be positive').optional(), // Optional - will be calculated from pricing profile
     orderAmount: z.number().positive('Order amount must be positive').optional(), // Optional - will be calculated from pricing profile
     paymentType: z.enum(['PREPAID', 'COD']).optional().default('PREPAID'), // Payment type: PREPAID or COD
@@ -128,6 +132,11 @@ export const createOrderSchema= z.object({
     estimatedDuration: z.number().int().positive().optional(),
     pickupWindow: z.string().datetime().optional(), // Scheduled pickup time (for E-commerce)
     isSurge: z.boolean().optional().default(false), // Whether surge pricing applies
+    // Vehicle and package details (rate card, weight/volume slabs, waiting charges)
+    vehicleType: z.enum(['BIKE', 'SCOOTER', 'CAR', 'BICYCLE', 'TRUCK', 'CARGO_CARRIER']).optional(),
+    packageWeightKg: z.number().positive().max(10000).optional(),
+    packageVolumeLiters: z.number().positive().max(100000).optional(),
+    waitingMinutes: z.number().int().min(0).max(24 * 60).optional(), // Expected loading/unloading wait
 }).refine((data) => {
     // Must have either coordinates OR warehouse/restaurant IDs for pickup
     const hasPickupCoords = data.pickupLat !== undefined && data.pickupLng !== undefined;
@@ -165,11 +174,36 @@ export const updateOrderStatusSchema =z.object({
     transitStatus: z.string().optional(), // For logistics provider internal status
     transitTrackingNumber: z.string().optional(), // Tracking number in logistics provider's system
     expectedWarehouseArrival: z.string().datetime().optional(), // ISO datetime string
+    codCollected: z.number().nonnegative().optional(), // COD cash collected on DELIVERED (defaults to the order amount)
 });
 export const partnerOrderSchema = createOrderSchema;
 
 export const bulkOrderSchema = z.object({
     orders: z.array(createOrderSchema).min(1, 'At least one order is required').max(100, 'Maximum 100 orders per bulk request'),
+}).refine((data) => {
+    const refs = data.orders.map((order) => order.externalRef).filter(Boolean);
+    return new Set(refs).size === refs.length;
+}, {
+    message: 'externalRef must be unique within a bulk request',
+    path: ['orders'],
+}).refine((data) => data.orders.every((order) => !order.quoteId), {
+    message: 'quoteId is only supported when creating a single order',
+    path: ['orders'],
+});
+
+// Price quote before order creation
+export const createQuoteSchema = z.object({
+    pickupLat: z.number().min(-90).max(90),
+    pickupLng: z.number().min(-180).max(180),
+    dropLat: z.number().min(-90).max(90),
+    dropLng: z.number().min(-180).max(180),
+    slaPriority: z.enum(['EXPRESS', 'STANDARD']).optional(), // Defaults to the partner category's SLA
+    vehicleType: z.enum(['BIKE', 'SCOOTER', 'CAR', 'BICYCLE', 'TRUCK', 'CARGO_CARRIER']).optional().default('BIKE'),
+    packageWeightKg: z.number().positive().max(10000).optional(),
+    packageVolumeLiters: z.number().positive().max(100000).optional(),
+    waitingMinutes: z.number().int().min(0).max(24 * 60).optional(),
+    pickupAt: z.string().datetime().optional(), // Scheduled pickup (night surcharge); defaults to now
+    isSurge: z.boolean().optional().default(false),
 });
 
 export const deleteBulkOrdersSchema = z.object({
@@ -180,6 +214,32 @@ export const updateWebhookSchema =z.object({
     webhookUrl: z.string().url('Invalid webhook URL').optional(),
 });
 
+// Webhook endpoint registry schemas
+export const createWebhookEndpointSchema = z.object({
+    name: z.string().min(1, 'Endpoint name is required').max(100),
+    url: z.string().url('Invalid webhook URL'),
+    events: z.array(z.string().refine(isValidWebhookEventFilter, {
+        message: 'Unknown webhook event (use GET /api/partner/webhook/events for the list)',
+    })).optional(), // Omit or leave empty to receive all events
+    isActive: z.boolean().optional(),
+    description: z.string().max(500).optional(),
+});
+
+export const updateWebhookEndpointSchema = createWebhookEndpointSchema.partial();
+
+// Partner API key schemas
+export const createApiKeySchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required'),
+    expiresAt: z.string().datetime().refine((val) => new Date(val) > new Date(), {
+        message: 'expiresAt must be in the future',
+    }).optional(),
+});
+
+export const rotateApiKeySchema = z.object({
+    gracePeriodHours: z.number().int().min(0).max(168).optional(), // Old key keeps working for this long (default 24h)
+});
+
 export const updateOrderSchema = z.object({
     pickupLat: z.number().min(-90).max(90).optional(),
     pickupLng: z.number().min(-180).max(180).optional(),
@@ -322,6 +382,7 @@ export const updatePartnerSchema = z.object({
     contactPhone: z.string().optional(),
     billingEmail: z.string().email().optional().or(z.literal('')),
     webhookUrl: z.string().url().optional().or(z.literal('')),
+    assignmentStrategy: z.enum(['BALANCED', 'NEAREST', 'BATCHING', 'PREP_AWARE']).nullable().optional(), // null = use the category's strategy
 });
 
 // Logistics Agent schemas